@@ -0,0 +1,5 @@
+#!/usr/bin/env node
+// bannergen 命令行入口：通过 tsx 直接运行 TypeScript 源码，与页面共用同一套模板/数据处理代码
+import { tsImport } from "tsx/esm/api";
+
+await tsImport("../src/cli/bannergen.ts", import.meta.url);
@@ -0,0 +1,461 @@
+/**
+ * bannergen 命令行批量渲染工具
+ *
+ * 复用页面中的模板/数据流水线（processZipFile、Excel 解析、字段映射、buildSrcDoc、applyJsonDataToIframe），
+ * 数据在 jsdom 中应用，最终由无头 Chrome 截图输出 PNG，并写出 manifest.json / manifest.csv
+ *
+ * 用法：
+ *   bannergen render --template sample.zip --data offers.xlsx --out dist/
+ */
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { basename, dirname, extname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import puppeteer, { Browser } from "puppeteer-core";
+import { build } from "esbuild";
+import { installDomGlobals, createDocumentFrame } from "./domEnvironment";
+import { BannerData } from "../types";
+import { TemplateVariant } from "../pages/BannerBatchPage/types";
+import { processZipFile, resolveImagePath, ZipProcessResult } from "../pages/BannerBatchPage/zipHandler";
+import { buildSrcDoc } from "../pages/BannerBatchPage/htmlUtils";
+import { applyJsonDataToIframe, resolveRowData } from "../pages/BannerBatchPage/dataApplier";
+import { autoMapFields, applyFieldMapping, FieldMapping } from "../pages/BannerBatchPage/fieldMapping";
+import { importExcelProducts } from "../utils/excelImport";
+import { normalizeColumnDictionary } from "../utils/columnDictionary";
+import { parseJsonFile } from "../utils/fileHelpers";
+import { createRenderDeadline, withinDeadline } from "../pages/BannerBatchPage/renderReady";
+import { setDebugLogging } from "../utils/logger";
+import { assignFileNames } from "../pages/BannerBatchPage/fileNaming";
+import { TextFitResult, textFitToIssues } from "../pages/BannerBatchPage/textFit";
+import { ComputedFieldError } from "../pages/BannerBatchPage/expression";
+import {
+  ImageFailure, MissingImagePolicies, MissingImagePolicy, DEFAULT_MISSING_IMAGE_POLICY, MISSING_IMAGE_POLICY_LABELS,
+  isExportBlocked, describeImageFailures,
+} from "../pages/BannerBatchPage/missingImages";
+import {
+  ManifestEntry as BaseManifestEntry, createManifest, hashTemplate, manifestToCsv, sha256Hex, summarizeValues,
+} from "../pages/BannerBatchPage/manifest";
+
+const USAGE = `用法: bannergen render --template <模板.zip> [选项]
+
+选项:
+  --template <file>   ZIP 模板（HTML + CSS + 图片，可包含多个尺寸的 HTML）
+  --data <file>       数据文件（.json / .xlsx / .xls），不指定时使用 ZIP 中的 JSON
+  --sheet <name>      要导入的 Excel sheet，可重复指定多个（合并为一份数据，带 __sheet 列），默认第一个可见 sheet
+  --header-row <n>    Excel 表头所在的行（从 1 开始，按可见行计），不指定时自动检测
+  --dictionary <file> 列名字典 JSON（页面中导出的列名字典），不指定时使用默认列名
+  --mapping <file>    Excel 字段映射 JSON（页面中保存的 FieldMapping），不指定时按表头自动匹配
+  --out <dir>         输出目录（默认 dist）
+  --scale <n>         输出倍率（默认 1）
+  --timeout <ms>      单张渲染超时（默认 30000）
+  --missing-image <policy>
+                      图片加载失败时的处理：block（不导出该张，默认）/ placeholder（占位图）/ hide（隐藏图片），
+                      也可写成 <字段>=<policy> 单独设置某个图片字段，可重复指定
+  --name <pattern>    文件命名规则（与页面"文件命名"相同，如 {brand}/{sku|id}_{size}），
+                      不指定时为 {id}.png，多尺寸为 {尺寸}/{id}_{尺寸}.png
+  --ascii-names       文件名去掉中文等非 ASCII 字符
+  --chrome <path>     Chrome 可执行文件路径（也可用 CHROME_PATH 环境变量），不指定时查找本机安装的 Chrome
+  --verbose           输出解析过程的调试日志
+`;
+
+interface RenderOptions {
+  template: string;
+  data?: string;
+  sheets: string[];
+  headerRow?: number;
+  dictionary?: string;
+  mapping?: string;
+  out: string;
+  scale: number;
+  timeout: number;
+  chrome?: string;
+  namePattern?: string;
+  asciiNames: boolean;
+  missingImagePolicies: MissingImagePolicies;
+  missingImageDefault: MissingImagePolicy;
+}
+
+// 在页面清单的基础上保留结构化的溢出、计算失败和缺图信息
+interface ManifestEntry extends BaseManifestEntry {
+  textOverflow?: TextFitResult[];   // 仍然溢出或被截断的文字字段
+  expressionErrors?: ComputedFieldError[];  // 计算失败的 data-expr 字段（保留模板内容）
+  missingImages?: ImageFailure[];   // 加载失败的图片（按策略处理）
+}
+
+const print = (message: string) => process.stdout.write(message + "\n");
+
+// PNG 的像素尺寸（IHDR 块中的宽高，第 16～23 字节）
+const readPngSize = (png: Uint8Array): { width: number; height: number } => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+};
+
+/**
+ * 把 Node 的文件内容包装成浏览器 File（jsdom），供 processZipFile / Excel 解析使用
+ */
+const readAsFile = (path: string): File => {
+  const buffer = readFileSync(path);
+  return new File([buffer], basename(path));
+};
+
+/**
+ * 加载数据行：JSON 直接读取，Excel 走页面同样的解析 + 字段映射流程
+ */
+async function loadRows(options: RenderOptions, template: ZipProcessResult): Promise<BannerData[]> {
+  // 未指定数据文件：使用 ZIP 中的 JSON（去掉第一个纯模板占位）
+  if (!options.data) {
+    return template.jsonData.filter((row) => Object.keys(row).length > 0);
+  }
+
+  const ext = extname(options.data).toLowerCase();
+
+  if (ext === ".json") {
+    const rows = await parseJsonFile(readAsFile(options.data));
+    // 与 ZIP 中的 JSON 一样，把模板内的图片路径替换为 Base64
+    return rows.map((row) => {
+      const processed: BannerData = { ...row };
+      Object.entries(processed).forEach(([key, value]) => {
+        if (typeof value === "string" && value) {
+          processed[key] = resolveImagePath(value, template.imageMap) || value;
+        }
+      });
+      return processed;
+    });
+  }
+
+  if (ext === ".xlsx" || ext === ".xls") {
+    const result = await importExcelProducts(readAsFile(options.data), options.sheets, {
+      headerRowIndex: options.headerRow !== undefined ? options.headerRow - 1 : undefined,
+      dictionary: options.dictionary
+        ? normalizeColumnDictionary(JSON.parse(readFileSync(options.dictionary, "utf-8")))
+        : undefined,
+    });
+    const mapping: FieldMapping = options.mapping
+      ? JSON.parse(readFileSync(options.mapping, "utf-8"))
+      : autoMapFields(template.fields, result.headers);
+
+    if (Object.keys(mapping).length === 0) {
+      throw new Error("Excel 表头与模板字段没有任何匹配，请使用 --mapping 指定字段映射");
+    }
+
+    const sheetInfo = result.sheets.map(s => `${s.sheetName}(${s.products.length})`).join("、");
+    print(`Excel: ${result.rows.length} 个产品，来自 ${sheetInfo}，已绑定 ${Object.keys(mapping).length}/${template.fields.length} 个字段`);
+    return applyFieldMapping(result.rows, mapping, template.imageMap, (err) => {
+      print(`! 第 ${err.rowIndex + 1} 行 ${err.field}: 表达式计算失败，${err.message}`);
+    });
+  }
+
+  throw new Error(`不支持的数据文件类型: ${ext}`);
+}
+
+/**
+ * 在 jsdom 中应用一行数据（已计算 data-expr 字段），返回可直接交给浏览器截图的完整 HTML
+ */
+function renderRowHtml(srcDoc: string, row: BannerData, rowIndex: number): string {
+  const { frame, dom } = createDocumentFrame(srcDoc);
+  applyJsonDataToIframe(frame, row, rowIndex, {}, true);
+  const html = dom.serialize();
+  dom.window.close();
+  return html;
+}
+
+// 浏览器脚本（browserBundle.ts）注入页面后挂在 window.BannerBrowser 上
+type BannerBrowserWindow = Window & typeof globalThis & { BannerBrowser: typeof import("./browserBundle") };
+
+/**
+ * 把 browserBundle.ts（textFit、imageProcessing、missingImages、renderReady）打包成在 Chrome 中执行的浏览器脚本
+ */
+async function bundleBrowserScript(): Promise<string> {
+  const result = await build({
+    entryPoints: [new URL("./browserBundle.ts", import.meta.url).pathname],
+    bundle: true,
+    format: "iife",
+    globalName: "BannerBrowser",
+    write: false,
+    logLevel: "silent",
+  });
+  return result.outputFiles[0].text;
+}
+
+/**
+ * 用无头 Chrome 截图：等待 load 事件和渲染就绪（图片解码、字体、布局），处理图片、检查缺图、做文字适配后导出 .container（没有则导出 body）
+ * 有缺图且策略为 block 时不截图，png 为 null
+ */
+async function screenshotHtml(
+  browser: Browser,
+  html: string,
+  variant: TemplateVariant | null,
+  options: RenderOptions,
+  browserScript: string
+): Promise<{ png: Uint8Array | null; textFit: TextFitResult[]; missingImages: ImageFailure[] }> {
+  const page = await browser.newPage();
+  try {
+    await page.setViewport({
+      width: variant?.width || 1200,
+      height: variant?.height || 1200,
+      deviceScaleFactor: options.scale,
+    });
+    await page.setContent(html, { waitUntil: "load", timeout: options.timeout });
+    await page.addScriptTag({ content: browserScript });
+
+    // 就绪等待、图片处理、缺图检查和重新等待布局共用单张渲染超时
+    const deadline = createRenderDeadline(options.timeout);
+    await page.evaluate(
+      (deadline) => (window as BannerBrowserWindow).BannerBrowser.waitForRenderReady(document, { deadline }),
+      deadline
+    );
+
+    await withinDeadline(
+      deadline,
+      page.evaluate(() => (window as BannerBrowserWindow).BannerBrowser.processTemplateImages(document)),
+      "处理图片"
+    );
+    const missingImages: ImageFailure[] = await withinDeadline(
+      deadline,
+      page.evaluate(
+        (policies, defaultPolicy) => (window as BannerBrowserWindow).BannerBrowser.checkDocumentImages(document, policies, defaultPolicy),
+        options.missingImagePolicies,
+        options.missingImageDefault
+      ),
+      "检查图片"
+    );
+    if (isExportBlocked(missingImages)) {
+      return { png: null, textFit: [], missingImages };
+    }
+    const textFit: TextFitResult[] = await page.evaluate(
+      () => (window as BannerBrowserWindow).BannerBrowser.fitTextFields(document)
+    );
+
+    await withinDeadline(
+      deadline,
+      page.evaluate(() => (window as BannerBrowserWindow).BannerBrowser.waitForLayoutStable(document)),
+      "等待布局稳定"
+    );
+
+    const element = (await page.$(".container")) || (await page.$("body"));
+    if (!element) {
+      throw new Error("未找到可导出的元素（.container / body）");
+    }
+    const png = await element.screenshot({ type: "png" });
+    return { png, textFit, missingImages };
+  } finally {
+    await page.close();
+  }
+}
+
+async function render(options: RenderOptions): Promise<number> {
+  installDomGlobals();
+
+  const template = await processZipFile(readAsFile(options.template));
+  print(template.successMessage);
+
+  const rows = await loadRows(options, template);
+  if (rows.length === 0) {
+    throw new Error("没有可渲染的数据行");
+  }
+
+  // 多尺寸模板集：每个尺寸输出到独立目录，文件名追加尺寸
+  const variants: (TemplateVariant | null)[] = template.variants.length > 1 ? template.variants : [null];
+
+  // 文件命名与页面相同：清理文件名中不允许的字符，重名时（不区分大小写）追加 _2、_3
+  // 不指定 --name 时单个模板为 {id}.png（没有 id 时为 banner_{行号}.png），多尺寸为 {尺寸}/{id}_{尺寸}.png
+  const multiSize = variants[0] !== null;
+  const date = new Date();
+  const templateName = basename(options.template).replace(/\.zip$/i, "");
+  const fileKey = (variant: TemplateVariant | null, rowIndex: number) => `${variant?.size ?? ""}#${rowIndex}`;
+  const { names, collisions, renamed } = assignFileNames(
+    variants.flatMap((variant) => rows.map((row, i) => ({
+      key: fileKey(variant, i),
+      context: {
+        data: row,
+        rowIndex: i,
+        sequence: i + 1,
+        size: (variant ?? template.variants[0])?.size || "",
+        templateName,
+        date,
+        scale: options.scale,
+        extension: "png",
+      },
+    }))),
+    { pattern: options.namePattern ?? (multiSize ? "" : "{id}"), asciiOnly: options.asciiNames, multiSize }
+  );
+  collisions.forEach((path) => print(`! 文件重名，已追加 _2、_3 等序号: ${path}`));
+
+  const browserScript = await bundleBrowserScript();
+  const browser = await puppeteer.launch({
+    headless: true,
+    executablePath: options.chrome,
+    channel: options.chrome ? undefined : "chrome",
+  });
+
+  const entries: ManifestEntry[] = [];
+  try {
+    for (const variant of variants) {
+      const srcDoc = buildSrcDoc(variant ? variant.html : template.html, template.css);
+
+      for (let i = 0; i < rows.length; i++) {
+        const row = rows[i];
+        const file = names.get(fileKey(variant, i))!;
+        const entry: ManifestEntry = {
+          file,
+          status: "ok",
+          rowIndex: i,
+          // 与页面的清单相同：Excel 中的数字 id 也记录为字符串
+          id: row.id == null || row.id === "" ? undefined : String(row.id),
+          size: variant?.size,
+          scale: options.scale,
+          warnings: renamed.has(fileKey(variant, i)) ? [`与「${renamed.get(fileKey(variant, i))}」重名，已改名`] : [],
+        };
+
+        // 清单记录和渲染使用同一份计算后的数据
+        const { data: rowData, errors: expressionErrors } = resolveRowData(row, variant ? variant.fields : template.fields);
+        entry.values = summarizeValues(rowData);
+        if (expressionErrors.length > 0) {
+          entry.expressionErrors = expressionErrors;
+          expressionErrors.forEach((err) => {
+            entry.warnings.push(`${err.field} 计算失败，${err.message}`);
+            print(`! ${file}: ${err.field} 计算失败，${err.message}`);
+          });
+        }
+
+        try {
+          const html = renderRowHtml(srcDoc, rowData, i);
+          const { png, textFit, missingImages } = await screenshotHtml(browser, html, variant, options, browserScript);
+          if (missingImages.length > 0) {
+            entry.missingImages = missingImages;
+          }
+          if (!png) {
+            const blocking = missingImages.filter(f => f.policy === "block");
+            throw new Error(`图片加载失败，未导出：${describeImageFailures(blocking)}`);
+          }
+          if (missingImages.length > 0) {
+            missingImages.forEach((failure) => {
+              entry.warnings.push(`图片加载失败，已${MISSING_IMAGE_POLICY_LABELS[failure.policy]}：${describeImageFailures([failure])}`);
+            });
+            print(`! ${file}: 图片加载失败 ${describeImageFailures(missingImages)}`);
+          }
+          const outPath = join(options.out, file);
+          mkdirSync(dirname(outPath), { recursive: true });
+          writeFileSync(outPath, png);
+          Object.assign(entry, readPngSize(png), { bytes: png.byteLength, sha256: await sha256Hex(png) });
+
+          const overflow = textFit.filter(r => r.overflow || r.truncated);
+          if (overflow.length > 0) {
+            entry.textOverflow = overflow;
+            entry.warnings.push(...textFitToIssues(i, overflow).map(issue => issue.message));
+            print(`! ${file}: 文字溢出 ${overflow.map(r => r.label || r.field).join("、")}`);
+          } else {
+            print(`✓ ${file}`);
+          }
+        } catch (err) {
+          entry.status = "failed";
+          entry.error = err instanceof Error ? err.message : String(err);
+          print(`✗ ${file}: ${entry.error}`);
+        }
+
+        entries.push(entry);
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+
+  const failedCount = entries.filter((e) => e.status === "failed").length;
+  const manifest = createManifest(
+    entries,
+    {
+      name: basename(options.template),
+      sha256: await hashTemplate(template.variants.length > 1 ? template.variants.map(v => v.html) : [template.html], template.css),
+    },
+    options.data ? basename(options.data) : null
+  );
+  mkdirSync(options.out, { recursive: true });
+  writeFileSync(join(options.out, "manifest.json"), JSON.stringify(manifest, null, 2));
+  writeFileSync(join(options.out, "manifest.csv"), manifestToCsv(manifest));
+
+  print(`完成: ${entries.length - failedCount}/${entries.length} 张，输出目录 ${resolve(options.out)}`);
+  return failedCount > 0 ? 1 : 0;
+}
+
+/**
+ * 解析 --missing-image：不带字段的值为默认策略，<字段>=<policy> 为单个字段的策略
+ */
+function parseMissingImageOptions(values: string[]): { policies: MissingImagePolicies; defaultPolicy: MissingImagePolicy } {
+  const policies: MissingImagePolicies = {};
+  let defaultPolicy = DEFAULT_MISSING_IMAGE_POLICY;
+  values.forEach((value) => {
+    const separator = value.lastIndexOf("=");
+    const field = separator >= 0 ? value.slice(0, separator).trim() : "";
+    const policy = (separator >= 0 ? value.slice(separator + 1) : value).trim() as MissingImagePolicy;
+    if (!(policy in MISSING_IMAGE_POLICY_LABELS)) {
+      throw new Error(`--missing-image 不支持的策略: ${policy}（可选 block / placeholder / hide）`);
+    }
+    if (field) {
+      policies[field] = policy;
+    } else {
+      defaultPolicy = policy;
+    }
+  });
+  return { policies, defaultPolicy };
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      template: { type: "string" },
+      data: { type: "string" },
+      sheet: { type: "string", multiple: true },
+      "header-row": { type: "string" },
+      dictionary: { type: "string" },
+      mapping: { type: "string" },
+      out: { type: "string", default: "dist" },
+      scale: { type: "string", default: "1" },
+      timeout: { type: "string", default: "30000" },
+      chrome: { type: "string" },
+      name: { type: "string" },
+      "ascii-names": { type: "boolean", default: false },
+      "missing-image": { type: "string", multiple: true },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command] = positionals;
+  if (values.help || command !== "render" || !values.template) {
+    print(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  // 解析流水线的调试日志很多，命令行默认只输出进度（警告仍然输出）
+  setDebugLogging(!!values.verbose);
+
+  const { policies: missingImagePolicies, defaultPolicy: missingImageDefault } = parseMissingImageOptions(
+    values["missing-image"] || []
+  );
+
+  return render({
+    template: values.template,
+    data: values.data,
+    sheets: values.sheet || [],
+    headerRow: values["header-row"] ? Math.max(1, Number(values["header-row"]) || 1) : undefined,
+    dictionary: values.dictionary,
+    mapping: values.mapping,
+    out: values.out!,
+    scale: Number(values.scale) || 1,
+    timeout: Number(values.timeout) || 30000,
+    chrome: values.chrome || process.env.CHROME_PATH || undefined,
+    namePattern: values.name || undefined,
+    asciiNames: !!values["ascii-names"],
+    missingImagePolicies,
+    missingImageDefault,
+  });
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error("bannergen 失败:", err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+);
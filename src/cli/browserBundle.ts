@@ -0,0 +1,8 @@
+/**
+ * 命令行在 Chrome 中执行的浏览器脚本入口（由 bannergen.ts 用 esbuild 打包为 window.BannerBrowser）：
+ * jsdom 没有布局和 canvas，文字溢出检测、data-fit 适配、图片处理（抠图、裁边、构图）、图片加载检查和渲染就绪等待需要在浏览器中执行
+ */
+export { fitTextFields } from "../pages/BannerBatchPage/textFit";
+export { processTemplateImages } from "../pages/BannerBatchPage/imageProcessing";
+export { checkDocumentImages } from "../pages/BannerBatchPage/missingImages";
+export { waitForRenderReady, waitForLayoutStable } from "../pages/BannerBatchPage/renderReady";
@@ -0,0 +1,40 @@
+/**
+ * Node 环境下的浏览器全局对象（基于 jsdom）
+ */
+import { JSDOM } from "jsdom";
+
+/**
+ * 在 Node 中安装浏览器全局对象（DOMParser、FileReader、File、Node 等），
+ * 让 processZipFile、Excel 解析、dataApplier 这些浏览器端代码可以在命令行中直接复用
+ */
+export function installDomGlobals(): JSDOM {
+  const dom = new JSDOM("<!DOCTYPE html><html><body></body></html>");
+  const { window } = dom;
+
+  const globals: Record<string, unknown> = {
+    window,
+    document: window.document,
+    DOMParser: window.DOMParser,
+    FileReader: window.FileReader,
+    File: window.File,
+    Blob: window.Blob,
+    Node: window.Node,
+    HTMLElement: window.HTMLElement,
+    HTMLImageElement: window.HTMLImageElement,
+  };
+
+  Object.entries(globals).forEach(([key, value]) => {
+    Object.defineProperty(globalThis, key, { value, configurable: true, writable: true });
+  });
+
+  return dom;
+}
+
+/**
+ * 用 jsdom 文档冒充 iframe：dataApplier 只通过 contentDocument 访问 iframe 内容
+ */
+export function createDocumentFrame(html: string): { frame: HTMLIFrameElement; dom: JSDOM } {
+  const dom = new JSDOM(html);
+  const frame = { contentDocument: dom.window.document } as unknown as HTMLIFrameElement;
+  return { frame, dom };
+}
@@ -0,0 +1,187 @@
+import React, { useState } from "react";
+import {
+  AssetMatchKind,
+  AssetResolution,
+  AssetResolutionStatus,
+  ImageAsset,
+  getChosenAssetPath,
+  readDroppedFiles,
+} from "./assetLibrary";
+
+interface AssetLibraryPanelProps {
+  assets: ImageAsset[];
+  resolutions: AssetResolution[] | null;  // 未匹配过时为 null
+  choices: Record<string, string>;
+  canMatch: boolean;
+  isApplying: boolean;
+  onAddFiles: (files: Array<{ file: File; path: string }>) => void;
+  onClear: () => void;
+  onMatch: () => void;
+  onChoose: (key: string, assetPath: string) => void;
+  onApply: () => void;
+}
+
+const MATCH_KIND_LABELS: Record<AssetMatchKind, string> = {
+  exact: "文件名",
+  sku: "SKU",
+  fuzzy: "名称相似",
+};
+
+const STATUS_LABELS: Record<AssetResolutionStatus, string> = {
+  matched: "已匹配",
+  ambiguous: "待确认",
+  unmatched: "未找到",
+};
+
+// 待确认、未找到的排在前面
+const STATUS_ORDER: Record<AssetResolutionStatus, number> = { ambiguous: 0, unmatched: 1, matched: 2 };
+
+const formatTargets = (resolution: AssetResolution): string => {
+  const rows = Array.from(new Set(resolution.targets.map(t => t.rowIndex + 1)));
+  return `第 ${rows.slice(0, 5).join("、")}${rows.length > 5 ? " 等" : ""} 行`;
+};
+
+/**
+ * 图片素材库：拖入/选择图片文件夹，把数据中的图片引用匹配到素材并逐条确认
+ */
+export const AssetLibraryPanel: React.FC<AssetLibraryPanelProps> = ({
+  assets,
+  resolutions,
+  choices,
+  canMatch,
+  isApplying,
+  onAddFiles,
+  onClear,
+  onMatch,
+  onChoose,
+  onApply,
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [showMatched, setShowMatched] = useState(false);
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    onAddFiles(await readDroppedFiles(e.dataTransfer));
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).map(file => ({ file, path: file.webkitRelativePath || file.name }));
+    e.target.value = "";
+    if (files.length > 0) onAddFiles(files);
+  };
+
+  const folderCount = new Set(assets.map(a => a.folder).filter(Boolean)).size;
+  const counts = (resolutions || []).reduce<Record<AssetResolutionStatus, number>>(
+    (acc, r) => ({ ...acc, [r.status]: acc[r.status] + 1 }),
+    { matched: 0, ambiguous: 0, unmatched: 0 }
+  );
+  const visible = (resolutions || [])
+    .filter(r => showMatched || r.status !== "matched" || r.candidates[0]?.kind === "fuzzy")
+    .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]);
+  const chosenCount = (resolutions || []).filter(r => getChosenAssetPath(r, choices)).length;
+
+  return (
+    <div className="asset-library">
+      <div
+        className={`asset-library-dropzone ${isDragging ? "dragging" : ""}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
+        <span>拖入图片文件夹，或</span>
+        <label className="btn btn-secondary btn-tiny">
+          选择文件夹
+          <input
+            type="file"
+            className="file-input"
+            // webkitdirectory 不在 React 的类型定义中
+            {...({ webkitdirectory: "", directory: "" } as Record<string, string>)}
+            multiple
+            onChange={handleInputChange}
+          />
+        </label>
+        <label className="btn btn-secondary btn-tiny">
+          选择图片
+          <input type="file" className="file-input" accept="image/*" multiple onChange={handleInputChange} />
+        </label>
+      </div>
+
+      {assets.length > 0 && (
+        <div className="field-mapping-toolbar">
+          <span className="field-mapping-summary">
+            已索引 {assets.length} 张图片{folderCount > 0 && `（${folderCount} 个文件夹）`}
+          </span>
+          <button className="btn btn-secondary btn-tiny" onClick={onClear}>
+            清空
+          </button>
+        </div>
+      )}
+
+      <button className="btn btn-secondary btn-small" onClick={onMatch} disabled={!canMatch || assets.length === 0}>
+        匹配数据中的图片
+      </button>
+
+      {resolutions && (
+        resolutions.length === 0 ? (
+          <p className="asset-library-hint">数据中没有需要匹配的图片引用（图片字段都已是可加载的图片）</p>
+        ) : (
+          <>
+            <div className="field-mapping-toolbar">
+              <span className="field-mapping-summary">
+                {resolutions.length} 个引用：已匹配 {counts.matched}，待确认 {counts.ambiguous}，未找到 {counts.unmatched}
+              </span>
+              <label className="asset-library-toggle">
+                <input type="checkbox" checked={showMatched} onChange={(e) => setShowMatched(e.target.checked)} />
+                显示全部
+              </label>
+            </div>
+
+            <ul className="field-mapping-list">
+              {visible.map((r) => {
+                const chosenPath = getChosenAssetPath(r, choices);
+                const chosen = r.candidates.find(c => c.asset.path === chosenPath);
+                return (
+                  <li key={r.key} className={`field-mapping-item asset-resolution ${r.status}`}>
+                    <div className="field-mapping-name">
+                      <strong title={r.reference}>{r.reference}</strong>
+                      <span className="field-mapping-key">{formatTargets(r)}</span>
+                    </div>
+                    <div className="asset-resolution-body">
+                      {chosen ? (
+                        <img className="asset-resolution-thumb" src={chosen.asset.url} alt={chosen.asset.fileName} />
+                      ) : (
+                        <span className="asset-resolution-thumb empty">{STATUS_LABELS[r.status]}</span>
+                      )}
+                      <select
+                        className="field-mapping-select"
+                        value={chosenPath}
+                        onChange={(e) => onChoose(r.key, e.target.value)}
+                        disabled={r.candidates.length === 0}
+                      >
+                        <option value="">{r.candidates.length === 0 ? "素材库中没有相近的图片" : "不替换"}</option>
+                        {r.candidates.map((c) => (
+                          <option key={c.asset.path} value={c.asset.path}>
+                            {c.asset.path}（{MATCH_KIND_LABELS[c.kind]}
+                            {c.kind === "fuzzy" ? ` ${Math.round(c.score * 100)}%` : ""}）
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <button className="btn btn-primary btn-small" onClick={onApply} disabled={chosenCount === 0 || isApplying}>
+              {isApplying ? "正在读取图片..." : `应用 ${chosenCount} 个匹配`}
+            </button>
+          </>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,49 @@
 import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from "react";
-import JSZip from "jszip";
+import type { WorkBook } from "xlsx";
 import { parseJsonFile } from "../../utils/fileHelpers";
-import { exportNodeToPngDataUrl } from "../../utils/htmlExport";
-import { BannerData, BannerRenderData } from "../../types";
-import { TemplateField } from "./types";
+import { exportNodeToBlob, getOutputPixelSize, ExportResult, EXPORT_FORMATS } from "../../utils/htmlExport";
+import { BannerData } from "../../types";
+import { TemplateField, TemplateVariant } from "./types";
 import { buildSrcDoc, extractCssFromHtml } from "./htmlUtils";
 import { processZipFile } from "./zipHandler";
 import { handleHtmlUpload as handleHtmlUploadUtil, handleCssUpload as handleCssUploadUtil } from "./fileHandlers";
-import { applyJsonDataToIframe as applyJsonDataToIframeUtil, applyJsonDataToMultiIframe as applyJsonDataToMultiIframeUtil, updatePriceFields } from "./dataApplier";
-import { parseFirstSheet, ParsedSheet, getFirstVisibleSheetName, sheetToVisibleRawRows, sheetToVisibleJson } from "../../utils/excelParser";
-import { detectOfferSheet, detectSheetKindByPricePattern } from "../../utils/offerDetector";
-import { parseRowPerSkuSheet, ExcelRowData } from "../../utils/offerRowPerSkuParser";
-import { parseMultiRowProducts } from "../../utils/multiRowProductParser";
-import { parseRowPerSkuProducts } from "../../utils/rowPerSkuProductParser";
-import { ProductBlock } from "../../types";
+import { applyJsonDataToIframe as applyJsonDataToIframeUtil, applyJsonDataToMultiIframe as applyJsonDataToMultiIframeUtil, resolveRowData } from "./dataApplier";
+import { findPriceElements, getPriceFieldNames, readPriceFieldValue, updatePriceField } from "./priceFormat";
+import { readWorkbook } from "../../utils/excelParser";
+import { summarizeWorkbookSheets, importWorkbookSheet, mergeSheetImports, previewSheetRows, SheetSummary, SHEET_SOURCE_COLUMN } from "../../utils/excelImport";
+import { ColumnDictionary, DEFAULT_COLUMN_DICTIONARY, loadColumnDictionary, saveColumnDictionary, normalizeColumnDictionary } from "../../utils/columnDictionary";
+import { FieldMapping, FieldMappingError, autoMapFields, applyFieldMapping, loadFieldMapping, saveFieldMapping } from "./fieldMapping";
+import { FieldMappingPanel } from "./FieldMappingPanel";
+import { SheetPicker } from "./SheetPicker";
+import { HeaderRowPicker } from "./HeaderRowPicker";
+import { ColumnDictionaryPanel } from "./ColumnDictionaryPanel";
+import { validateBannerRows } from "./validation";
+import { ValidationReport } from "./ValidationReport";
+import { fitTextFields, textFitToIssues, TextFitResult } from "./textFit";
+import { ExportSettings, loadExportSettings, saveExportSettings, toExportOptions, resolveOutputSize } from "./exportSettings";
+import { ExportSettingsPanel } from "./ExportSettingsPanel";
+import { BannerProject, PROJECT_FILE_EXTENSION, PROJECT_FORMAT_VERSION, createProjectFile, readProjectFile, isProjectEmpty } from "./projectFile";
+import { saveAutosave, loadAutosave, clearAutosave } from "./projectStorage";
+import { RowsState, duplicateRow, removeRow, applyFieldToAllRows, setFieldValue } from "./rowOperations";
+import { useEditHistory } from "./hooks/useEditHistory";
+import { HistoryPanel } from "./HistoryPanel";
+import {
+  ImageAsset, AssetResolution, buildAssetLibrary, mergeAssetLibraries, releaseAssetLibrary, resolveAssetReferences,
+  getChosenAssetPath, applyAssetResolutions, readAssetAsDataUrl, loadAssetChoices, saveAssetChoices,
+} from "./assetLibrary";
+import { AssetLibraryPanel } from "./AssetLibraryPanel";
+import { processTemplateImages, getSourceImageSrc } from "./imageProcessing";
+import { waitForRenderReady, waitForLayoutStable, createRenderDeadline, withinDeadline } from "./renderReady";
+import { BatchProgress, RenderJob, RenderJobResult, createBatchProgress, createRenderJobs, runRenderPool } from "./renderPool";
+import { assignFileNames, formatTimestamp } from "./fileNaming";
+import { BatchProgressPanel } from "./BatchProgressPanel";
+import { ManifestEntry, createManifest, hashTemplate, manifestToCsv, sha256Hex, summarizeValues } from "./manifest";
+import { createFolderOutput, createZipOutput, isFolderOutputSupported, pickOutputFolder } from "./batchOutput";
+import {
+  ImageFailure, MissingImagePolicies, checkDocumentImages, isExportBlocked, describeImageFailures, imageFailuresToIssues,
+  loadMissingImagePolicies, saveMissingImagePolicies, MISSING_IMAGE_POLICY_LABELS,
+} from "./missingImages";
+import { MissingImagePanel } from "./MissingImagePanel";
 import "./BannerBatchPage.css";
 
 export const BannerBatchPage: React.FC = () => {
@@ -32,6 +62,8 @@ export const BannerBatchPage: React.FC = () => {
   const [jsonData, setJsonData] = useState<BannerData[]>([]);
   const [currentIndex, setCurrentIndex] = useState<number>(0);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  // 最近一批生成的进度（生成结束后保留，用于查看失败的数据和重试）
+  const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
   // 保存每个数据索引的编辑值：{ [index]: { [fieldName]: value } }
   const [editedValues, setEditedValues] = useState<Record<number, Record<string, string>>>({});
   
@@ -47,7 +79,51 @@ export const BannerBatchPage: React.FC = () => {
     css: string;
     fields: TemplateField[];
     fileName: string;
+    imageMap?: Record<string, string>;  // ZIP 模板中的图片映射（用于解析 Excel 中的图片文件名）
+    variants?: TemplateVariant[];       // 多尺寸模板集（ZIP 中包含多个 HTML 时）
   } | null>(null);
+  // 多尺寸模板集中当前预览的尺寸
+  const [activeVariantIndex, setActiveVariantIndex] = useState<number>(0);
+
+  // Excel 导入结果（等待字段映射后生成 jsonData）
+  const [excelImport, setExcelImport] = useState<{
+    fileName: string;
+    headers: string[];
+    rows: Record<string, any>[];
+  } | null>(null);
+  // 包含多个 sheet 的 Excel（等待选择要导入的 sheet）
+  const [excelWorkbook, setExcelWorkbook] = useState<{
+    fileName: string;
+    workbook: WorkBook;
+    sheets: SheetSummary[];
+  } | null>(null);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  // 手动指定的表头行（sheet 名 → 可见行索引），以及正在调整表头行的 sheet
+  const [headerRowOverrides, setHeaderRowOverrides] = useState<Record<string, number>>({});
+  const [headerPickerSheet, setHeaderPickerSheet] = useState<string>("");
+  // 识别表头用的列名字典（保存到 localStorage）
+  const [columnDictionary, setColumnDictionary] = useState<ColumnDictionary>(() => loadColumnDictionary());
+  // Excel 列 → 模板字段的映射（按模板文件名保存到 localStorage）
+  const [fieldMapping, setFieldMapping] = useState<FieldMapping>({});
+  // 数据校验有错误时拦截了批量生成（显示"仍然生成"按钮）
+  const [generationBlocked, setGenerationBlocked] = useState<boolean>(false);
+  // 每条数据渲染后的文字溢出检测结果（预览、2×2 预览、批量生成时更新）
+  const [textFitResults, setTextFitResults] = useState<Record<number, TextFitResult[]>>({});
+  const [isCheckingTextFit, setIsCheckingTextFit] = useState<boolean>(false);
+  // 每条数据渲染后加载失败的图片（预览、批量生成时更新），以及各图片字段的缺图策略（按模板保存到 localStorage）
+  const [imageFailures, setImageFailures] = useState<Record<number, ImageFailure[]>>({});
+  const [missingImagePolicies, setMissingImagePolicies] = useState<MissingImagePolicies>({});
+  // 批量导出设置（格式、质量、大小上限），保存到 localStorage
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(() => loadExportSettings());
+  // 启动时在 IndexedDB 中发现的上次会话（等待用户选择恢复或忽略）
+  const [pendingAutosave, setPendingAutosave] = useState<BannerProject | null>(null);
+  // 图片素材库（拖入的图片文件夹）、数据中图片引用的匹配结果和用户的选择（选择保存到 localStorage）
+  const [assetLibrary, setAssetLibrary] = useState<ImageAsset[]>([]);
+  const [assetResolutions, setAssetResolutions] = useState<AssetResolution[] | null>(null);
+  const [assetChoices, setAssetChoices] = useState<Record<string, string>>(() => loadAssetChoices());
+  const [isApplyingAssets, setIsApplyingAssets] = useState<boolean>(false);
+  // 打开项目时恢复的字段映射（避免被"初始化字段映射"的 effect 覆盖）
+  const restoredFieldMappingRef = useRef<FieldMapping | null>(null);
   
   // 获取当前活动的索引（单图用 currentIndex，多图用 selectedBannerIndex）
   const getActiveIndex = useCallback(() => {
@@ -66,8 +142,11 @@ export const BannerBatchPage: React.FC = () => {
   const jsonInputRef = useRef<HTMLInputElement>(null);
   const zipInputRef = useRef<HTMLInputElement>(null);
   const excelInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
   // 导出专用的 iframe ref（始终存在，隐藏）
   const iframeRef = useRef<HTMLIFrameElement>(null);
+  // 取消批量生成
+  const generationAbortRef = useRef<AbortController | null>(null);
   // 单图预览用的 iframe ref
   const previewIframeRef = useRef<HTMLIFrameElement>(null);
   // 多图模式的4个iframe ref
@@ -168,6 +247,7 @@ export const BannerBatchPage: React.FC = () => {
         setJsonData([]);
         setCurrentIndex(0);
         setSelectedBannerIndex(null);
+        history.reset();
         setSuccess(result.successMessage);
         if (htmlInputRef.current) {
           htmlInputRef.current.value = "";
@@ -243,7 +323,10 @@ export const BannerBatchPage: React.FC = () => {
         css: result.css,
         fields: result.fields,
         fileName: file.name,
+        imageMap: result.imageMap,
+        variants: result.variants,
       });
+      setActiveVariantIndex(0);
       
       // ✅ 清除旧的 JSON 数据，避免新模板使用旧数据
       if (result.jsonData.length > 0) {
@@ -256,6 +339,7 @@ export const BannerBatchPage: React.FC = () => {
         setCurrentIndex(0);
         setSelectedBannerIndex(null);
       }
+      history.reset();
       
       setSuccess(result.successMessage);
     } catch (err) {
@@ -280,290 +364,405 @@ export const BannerBatchPage: React.FC = () => {
     setSuccess("");
 
     try {
-      // 1. 解析 Excel 文件（初步解析，用于扫描表头）
-      const parsedSheet = await parseFirstSheet(file);
-      console.log("解析的 Excel sheet:", parsedSheet);
-      console.log("Sheet 名称:", parsedSheet.sheetName);
-      console.log("原始行数据（前10行）:", parsedSheet.rawRows);
-
-      // 2. 检测是否为 offer 表（会扫描前10行）
-      // 注意：detectOfferSheet 要求有 brief 列，但新的 detectSheetKindByPricePattern 只需要价格列
-      // 所以即使 detectOfferSheet 返回 UNKNOWN，我们仍然可以尝试用 detectSheetKindByPricePattern
-      const detection = detectOfferSheet(parsedSheet);
-      console.log("检测结果:", detection);
-      console.log("找到的表头行号:", detection.headerRowIndex);
-
-      // 如果 detectOfferSheet 返回 UNKNOWN，我们仍然可以继续，因为 detectSheetKindByPricePattern 只需要价格列
-      // 但我们需要先确保表头行被正确识别（用于后续重新解析）
-      let headerRowIndex = detection.headerRowIndex;
-      if (headerRowIndex === undefined) {
-        // 如果 detectOfferSheet 没找到表头，尝试从 parsedSheet 获取
-        headerRowIndex = parsedSheet.headerRowIndex || 0;
-        console.log("使用默认表头行号:", headerRowIndex);
-      }
-
-      // 3. 重新解析数据，确保字段名匹配（即使表头行是第一行，也要确保字段名正确）
-      // 因为 sheetToVisibleJson 可能生成 __EMPTY_ 这样的字段名，而不是实际的表头名
-      let finalParsedSheet = parsedSheet;
-      // 如果表头行不是第一行，或者我们需要确保字段名匹配，就重新解析
-      if (headerRowIndex !== undefined && (headerRowIndex !== 0 || true)) { // 暂时总是重新解析以确保字段名匹配
-        // 重新解析，从找到的表头行开始
-        const XLSX = await import("xlsx");
-        const reader = new FileReader();
-        const reparsePromise = new Promise<ParsedSheet>((resolve, reject) => {
-          reader.onload = (e) => {
-            try {
-              const data = new Uint8Array(e.target?.result as ArrayBuffer);
-              const workbook = XLSX.read(data, { type: "array" });
-              
-              // 使用新的工具函数获取第一个可见的 sheet
-              const targetSheetName = getFirstVisibleSheetName(workbook);
-              if (!targetSheetName) {
-                throw new Error("No visible sheet found in workbook");
-              }
-              const sheet = workbook.Sheets[targetSheetName];
-
-              // 获取所有原始行（不限制行数，确保获取完整数据）
-              const allRawRowsForHeader = XLSX.utils.sheet_to_json<any[]>(sheet, {
-                defval: "",
-                header: 1,
-              }) as any[][];
-              
-              // 找到表头行在原始 sheet 中的实际行号
-              let actualHeaderRowIndex = 0;
-              let visibleRowCount = 0;
-              for (let i = 0; i < allRawRowsForHeader.length; i++) {
-                const rowMeta = sheet["!rows"]?.[i];
-                const isHidden = rowMeta && rowMeta.hidden;
-                if (!isHidden) {
-                  if (visibleRowCount === headerRowIndex) {
-                    actualHeaderRowIndex = i;
-                    break;
-                  }
-                  visibleRowCount++;
-                }
-              }
-              
-              // 获取表头行的完整内容（从原始行中获取，确保包含所有列）
-              const headerRow = allRawRowsForHeader[actualHeaderRowIndex];
-              const headerRowValues = headerRow ? headerRow.map((cell: any) => String(cell || "").trim()) : [];
-              console.log("表头行的内容（完整）:", headerRowValues);
-              console.log("表头行的列数:", headerRowValues.length);
-
-              console.log("重新解析：表头行在可见行中的索引:", headerRowIndex, "在原始 sheet 中的行号:", actualHeaderRowIndex);
-
-              // 手动映射：获取所有原始行数据（和表头行使用同一个数据源，确保列数一致）
-              const allRawRowsForData = allRawRowsForHeader;
-              
-              // 从表头行的下一行开始获取数据行，只处理可见的行
-              const dataStartRow = actualHeaderRowIndex + 1;
-              const mappedJson = allRawRowsForData
-                .map((row, rowIndex) => ({ row, rowIndex }))
-                .filter(({ row, rowIndex }) => {
-                  // 只处理表头行之后的行
-                  if (rowIndex <= actualHeaderRowIndex) return false;
-                  // 过滤隐藏行
-                  const rowMeta = sheet["!rows"]?.[rowIndex];
-                  const isHidden = rowMeta && rowMeta.hidden;
-                  return !isHidden;
-                })
-                .map(({ row, rowIndex }) => {
-                  // 手动映射字段名
-                  // 确保使用表头行的所有列，即使数据行的列数不同
-                  const mappedRow: Record<string, any> = {};
-                  
-                  // 处理重复字段名：
-                  // 1. 第一次遍历：收集所有字段的值（按列索引顺序）
-                  const fieldValuesByCol: Array<{ headerName: string; value: any; colIdx: number }> = [];
-                  
-                  for (let colIdx = 0; colIdx < headerRowValues.length; colIdx++) {
-                    const headerName = headerRowValues[colIdx];
-                    if (headerName) {  // 只映射有名称的列
-                      // 确保 colIdx 在 row 数组范围内
-                      const cellValue = colIdx < row.length ? row[colIdx] : undefined;
-                      
-                      // 检查值是否为空
-                      const hasValue = cellValue !== null && cellValue !== undefined && cellValue !== "" && String(cellValue).trim() !== "";
-                      
-                      fieldValuesByCol.push({ headerName, value: cellValue, colIdx });
-                      
-                      // 调试第一行数据
-                      if (rowIndex === actualHeaderRowIndex + 1 && colIdx < 20) {
-                        console.log(`  列 ${colIdx} (${headerName}):`, cellValue, hasValue ? '(有值)' : '(空值)');
-                      }
-                    }
-                  }
-                  
-                  // 2. 第二次遍历：处理重复字段名
-                  // 统计每个字段名出现的次数和位置
-                  const fieldNameCount = new Map<string, number>();
-                  const fieldNameIndices = new Map<string, number[]>();
-                  
-                  fieldValuesByCol.forEach(({ headerName, colIdx }) => {
-                    const count = fieldNameCount.get(headerName) || 0;
-                    fieldNameCount.set(headerName, count + 1);
-                    
-                    if (!fieldNameIndices.has(headerName)) {
-                      fieldNameIndices.set(headerName, []);
-                    }
-                    fieldNameIndices.get(headerName)!.push(colIdx);
-                  });
-                  
-                  // 3. 第三次遍历：生成最终字段名并添加有值的字段
-                  fieldValuesByCol.forEach(({ headerName, value, colIdx }) => {
-                    // 检查值是否为空
-                    const hasValue = value !== null && value !== undefined && value !== "" && String(value).trim() !== "";
-                    
-                    if (!hasValue) {
-                      return; // 跳过空值
-                    }
-                    
-                    // 确定最终字段名
-                    let finalFieldName = headerName;
-                    const count = fieldNameCount.get(headerName)!;
-                    
-                    if (count > 1) {
-                      // 有重复字段名，需要添加序号
-                      const indices = fieldNameIndices.get(headerName)!;
-                      const position = indices.indexOf(colIdx);
-                      
-                      // 检查其他同名字段是否有值
-                      const otherValues = indices
-                        .filter(idx => idx !== colIdx)
-                        .map(idx => {
-                          const item = fieldValuesByCol.find(f => f.colIdx === idx && f.headerName === headerName);
-                          return item ? item.value : null;
-                        })
-                        .filter(v => v !== null && v !== undefined && v !== "" && String(v).trim() !== "");
-                      
-                      // 如果其他同名字段也有值，添加序号
-                      if (otherValues.length > 0) {
-                        finalFieldName = `${headerName}${position + 1}`;
-                      }
-                      // 如果其他同名字段都没有值，使用原始字段名（不加序号）
-                    }
-                    
-                    mappedRow[finalFieldName] = value; // 保留原始类型
-                  });
-                  
-                  if (rowIndex === actualHeaderRowIndex + 1) {
-                    // 只打印第一行数据的调试信息
-                    console.log("第一行数据映射 - 表头字段数:", headerRowValues.filter(h => h).length);
-                    console.log("第一行数据映射 - 数据行列数:", row.length);
-                    console.log("第一行数据映射 - 映射后字段数:", Object.keys(mappedRow).length);
-                    console.log("第一行数据映射 - 所有字段名:", Object.keys(mappedRow));
-                    console.log("第一行数据映射 - 是否包含'主图brief':", '主图brief' in mappedRow);
-                    console.log("第一行数据映射 - 是否包含'主图brief1':", '主图brief1' in mappedRow);
-                    if ('主图brief' in mappedRow) {
-                      console.log("第一行数据映射 - '主图brief'的值:", mappedRow['主图brief']);
-                    }
-                    if ('主图brief1' in mappedRow) {
-                      console.log("第一行数据映射 - '主图brief1'的值:", mappedRow['主图brief1']);
-                    }
-                  }
-                  return mappedRow;
-                });
-              
-              console.log("重新解析：可见数据行数:", mappedJson.length);
-              console.log("重新解析后的数据（前3行）:", mappedJson.slice(0, 3));
-              if (mappedJson.length > 0) {
-                const firstRowKeys = Object.keys(mappedJson[0]);
-                console.log("第一行的字段名（数量）:", firstRowKeys.length);
-                console.log("第一行的所有字段名:", firstRowKeys);
-                console.log("表头行的字段名（数量）:", headerRowValues.filter(h => h).length);
-                console.log("表头行的所有字段名:", headerRowValues.filter(h => h));
-              }
-              
-              resolve({
-                sheetName: targetSheetName,
-                headers: headerRowValues,
-                headerRowIndex: actualHeaderRowIndex, // 保存原始行号
-                rows: mappedJson,
-                rawRows: parsedSheet.rawRows,  // 保留原始扫描用的 rawRows
-              });
-            } catch (err) {
-              reject(err);
-            }
-          };
-          reader.onerror = reject;
-          reader.readAsArrayBuffer(file);
-        });
-        finalParsedSheet = await reparsePromise;
-        console.log("重新解析后的数据（从第", headerRowIndex! + 1, "行开始）:", finalParsedSheet);
+      // 列出所有 sheet 并检测类型
+      const workbook = await readWorkbook(file);
+      const sheets = summarizeWorkbookSheets(workbook, columnDictionary);
+      const visibleSheets = sheets.filter(s => !s.hidden);
+      if (visibleSheets.length === 0) {
+        throw new Error("No visible sheet found in workbook");
       }
 
-      // 4. 判断 sheet 类型：多行一个产品 vs 一行一个产品
-      const sheetKind = detectSheetKindByPricePattern(finalParsedSheet);
-      console.log("Sheet 类型检测结果:", sheetKind);
+      // 保留 workbook，识别失败时可以手动选择表头行或修改列名字典后重新识别
+      setExcelWorkbook({ fileName: file.name, workbook, sheets });
+      setHeaderRowOverrides({});
 
-      // 5. 根据类型解析为 ProductBlock[]
-      let products: ProductBlock[] = [];
-      
-      if (sheetKind === "MULTIROW_PRODUCT") {
-        products = parseMultiRowProducts(finalParsedSheet);
-        console.log("多行产品解析结果:", products);
-        console.log("产品数量:", products.length);
-        if (products.length > 0) {
-          console.log("第一个产品包含的行数:", products[0].rows.length);
-        }
-      } else if (sheetKind === "ROW_PER_SKU") {
-        products = parseRowPerSkuProducts(finalParsedSheet);
-        console.log("单行产品解析结果:", products);
-        console.log("产品数量:", products.length);
+      if (visibleSheets.length === 1) {
+        // 只有一个可见 sheet：直接导入
+        const sheetName = visibleSheets[0].sheetName;
+        setSelectedSheets([sheetName]);
+        setHeaderPickerSheet(sheetName);
+        importExcelSheets(file.name, workbook, [sheetName], {}, columnDictionary);
       } else {
-        setError("未识别为可用的 Excel 结构（MULTIROW_PRODUCT 或 ROW_PER_SKU），请检查表头字段。");
-        return;
+        // 多个 sheet：默认勾选第一个可识别的可见 sheet，等待用户选择
+        const firstImportable = visibleSheets.find(s => s.sheetKind !== "UNKNOWN");
+        setSelectedSheets(firstImportable ? [firstImportable.sheetName] : []);
+        setHeaderPickerSheet((firstImportable || visibleSheets[0]).sheetName);
+        setSuccess(`${file.name} 包含 ${sheets.length} 个 sheet，请在右侧选择要导入的 sheet`);
       }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Excel 文件处理失败";
+      setError(message);
+      console.error("Excel 处理错误:", err);
+    }
 
-      if (products.length === 0) {
-        const rowCount = finalParsedSheet.rows.length;
-        setError(`未能从 Excel 中提取到有效产品数据。总行数: ${rowCount}。请检查数据行或表头识别是否正确。`);
-        return;
-      }
+    // 清空 input
+    if (excelInputRef.current) {
+      excelInputRef.current.value = "";
+    }
+  };
 
-      // 6. 显示成功消息和预览（前3条）
-      const headerInfo = headerRowIndex !== undefined && headerRowIndex > 0 
-        ? `（表头在第${headerRowIndex + 1}行）`
+  // 导入 Excel 中选定的 sheet（解析为产品列表，多个 sheet 合并为一份数据）
+  const importExcelSheets = (
+    fileName: string,
+    workbook: WorkBook,
+    sheetNames: string[],
+    headerRows: Record<string, number>,
+    dictionary: ColumnDictionary
+  ) => {
+    const merged = mergeSheetImports(sheetNames.map(name =>
+      importWorkbookSheet(workbook, name, { headerRowIndex: headerRows[name], dictionary })
+    ));
+
+    // 显示成功消息
+    if (merged.sheets.length === 1) {
+      const [result] = merged.sheets;
+      const headerInfo = result.headerRowIndex > 0 
+        ? `（表头在第${result.headerRowIndex + 1}行）`
         : "";
-      const kindText = sheetKind === "MULTIROW_PRODUCT" ? "多行产品" : "单行产品";
-      setSuccess(`成功解析 ${products.length} 个产品（${kindText}模式${headerInfo}）`);
-      console.log("前3个产品预览:", products.slice(0, 3));
+      const kindText = result.sheetKind === "MULTIROW_PRODUCT" ? "多行产品" : "单行产品";
+      setSuccess(`成功解析 ${result.products.length} 个产品（${kindText}模式${headerInfo}），请在右侧完成字段映射`);
+    } else {
+      setSuccess(`成功从 ${merged.sheets.length} 个 sheet 解析 ${merged.rows.length} 个产品（${SHEET_SOURCE_COLUMN} 列为来源 sheet），请在右侧完成字段映射`);
+    }
 
-      // 7. 自动下载 JSON 文件
-      try {
-        const jsonString = JSON.stringify(products, null, 2); // 格式化 JSON，缩进2空格
-        const blob = new Blob([jsonString], { type: 'application/json;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        
-        // 生成文件名：使用原文件名 + 时间戳
-        const originalFileName = file.name.replace(/\.[^/.]+$/, ""); // 去掉扩展名
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5); // 格式：2024-01-01T12-00-00
-        link.download = `${originalFileName}_OfferProducts_${timestamp}.json`;
-        
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-        
-        console.log("JSON 文件已下载:", link.download);
-      } catch (downloadErr) {
-        console.warn("下载 JSON 文件失败:", downloadErr);
-        // 下载失败不影响主流程，只记录警告
-      }
+    // 保存解析结果，等待字段映射（每个产品取主行作为映射数据源）
+    setExcelImport({
+      fileName,
+      headers: merged.headers,
+      rows: merged.rows,
+    });
+  };
+
+  // 导入 sheet 选择中勾选的 sheet
+  const handleImportSelectedSheets = () => {
+    if (!excelWorkbook || selectedSheets.length === 0) return;
+    setError("");
+    setSuccess("");
+    try {
+      importExcelSheets(excelWorkbook.fileName, excelWorkbook.workbook, selectedSheets, headerRowOverrides, columnDictionary);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Excel 文件处理失败";
+      setError(message);
+      console.error("Excel 处理错误:", err);
+    }
+  };
 
-      // TODO: 后续 Brief 可以将 products 转换为 BannerData[] 并应用到模板
+  // 表头行或列名字典变化后重新识别当前 Excel（已选择 sheet 时同时重新导入）
+  const reanalyzeExcelWorkbook = (headerRows: Record<string, number>, dictionary: ColumnDictionary) => {
+    if (!excelWorkbook) return;
+    setError("");
+    setSuccess("");
 
+    const sheets = summarizeWorkbookSheets(excelWorkbook.workbook, dictionary, headerRows);
+    setExcelWorkbook({ ...excelWorkbook, sheets });
+    if (selectedSheets.length === 0) {
+      setSuccess("已重新识别 sheet 类型，请选择要导入的 sheet");
+      return;
+    }
+
+    try {
+      importExcelSheets(excelWorkbook.fileName, excelWorkbook.workbook, selectedSheets, headerRows, dictionary);
     } catch (err) {
       const message = err instanceof Error ? err.message : "Excel 文件处理失败";
       setError(message);
       console.error("Excel 处理错误:", err);
     }
+  };
+
+  // 手动指定表头行
+  const handleSelectHeaderRow = (sheetName: string, rowIndex: number) => {
+    const headerRows = { ...headerRowOverrides, [sheetName]: rowIndex };
+    setHeaderRowOverrides(headerRows);
+    reanalyzeExcelWorkbook(headerRows, columnDictionary);
+  };
+
+  // 恢复自动检测表头行
+  const handleResetHeaderRow = (sheetName: string) => {
+    const { [sheetName]: _removed, ...headerRows } = headerRowOverrides;
+    setHeaderRowOverrides(headerRows);
+    reanalyzeExcelWorkbook(headerRows, columnDictionary);
+  };
+
+  // 修改列名字典（同时保存）
+  const handleColumnDictionaryChange = (dictionary: ColumnDictionary) => {
+    setColumnDictionary(dictionary);
+    saveColumnDictionary(dictionary);
+  };
+
+  // 导出列名字典为 JSON（可以在其他电脑导入，或用于命令行 --dictionary）
+  const handleExportColumnDictionary = () => {
+    const blob = new Blob([JSON.stringify(columnDictionary, null, 2)], { type: "application/json" });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = "column-dictionary.json";
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(a.href);
+  };
+
+  // 导入列名字典
+  const handleImportColumnDictionary = async (file: File) => {
+    setError("");
+    setSuccess("");
+    try {
+      const dictionary = normalizeColumnDictionary(JSON.parse(await file.text()));
+      handleColumnDictionaryChange(dictionary);
+      setSuccess(`已导入列名字典 ${file.name}，点击"按字典重新识别"应用到当前 Excel`);
+    } catch (err) {
+      const message = err instanceof SyntaxError
+        ? "列名字典文件不是有效的 JSON"
+        : err instanceof Error ? err.message : "列名字典导入失败";
+      setError(message);
+    }
+  };
+
+  // 加入素材库（相同路径的图片替换旧的）
+  const handleAddAssets = (files: Array<{ file: File; path: string }>) => {
+    const added = buildAssetLibrary(files);
+    if (added.length === 0) {
+      setError("没有找到图片文件（支持 PNG / JPG / GIF / WebP / AVIF / BMP / SVG）");
+      return;
+    }
+    setAssetLibrary(current => mergeAssetLibraries(current, added));
+    setAssetResolutions(null);
+    setError("");
+    setSuccess(`已加入 ${added.length} 张图片到素材库`);
+  };
+
+  const handleClearAssets = () => {
+    releaseAssetLibrary(assetLibrary);
+    setAssetLibrary([]);
+    setAssetResolutions(null);
+  };
+
+  // 匹配当前数据中所有图片字段的引用
+  const handleMatchAssets = () => {
+    setAssetResolutions(resolveAssetReferences(jsonData, assetLibrary));
+  };
+
+  const handleChooseAsset = (key: string, assetPath: string) => {
+    const next = { ...assetChoices, [key]: assetPath };
+    setAssetChoices(next);
+    saveAssetChoices(next);
+  };
+
+  // 应用匹配：把采用的素材读取为 Data URL 写入数据（保存项目后仍然可用，可撤销）
+  const handleApplyAssets = async () => {
+    if (!assetResolutions) return;
+    setIsApplyingAssets(true);
+    try {
+      const paths = Array.from(new Set(assetResolutions.map(r => getChosenAssetPath(r, assetChoices)).filter(Boolean)));
+      const urls: Record<string, string> = {};
+      for (const path of paths) {
+        const asset = assetLibrary.find(a => a.path === path);
+        if (asset) urls[path] = await readAssetAsDataUrl(asset);
+      }
+      const data = applyAssetResolutions(jsonData, assetResolutions, assetChoices, urls);
+      history.commit(
+        { kind: "bulk", label: "应用图片素材匹配" },
+        () => ({ jsonData: data, editedValues })
+      );
+      setAssetResolutions(resolveAssetReferences(data, assetLibrary));
+      setError("");
+      setSuccess(`已替换 ${paths.length} 张素材图片`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "应用图片素材失败");
+    } finally {
+      setIsApplyingAssets(false);
+    }
+  };
+
+  // 离开页面时释放素材库的 Object URL
+  const assetLibraryRef = useRef<ImageAsset[]>([]);
+  assetLibraryRef.current = assetLibrary;
+  useEffect(() => () => releaseAssetLibrary(assetLibraryRef.current), []);
+
+  // 当前调整表头行的 sheet 开头几行
+  const headerPreviewRows = useMemo(
+    () => excelWorkbook && headerPickerSheet ? previewSheetRows(excelWorkbook.workbook, headerPickerSheet, 10) : [],
+    [excelWorkbook, headerPickerSheet]
+  );
+  const headerPickerSummary = excelWorkbook?.sheets.find(s => s.sheetName === headerPickerSheet);
+
+  // Excel 导入或模板变化时，初始化字段映射（优先使用该模板保存过的映射）
+  useEffect(() => {
+    if (!excelImport || templateFields.length === 0) return;
+    if (restoredFieldMappingRef.current) {
+      setFieldMapping(restoredFieldMappingRef.current);
+      restoredFieldMappingRef.current = null;
+      return;
+    }
+    const saved = templateAssets ? loadFieldMapping(templateAssets.fileName) : null;
+    setFieldMapping(saved || autoMapFields(templateFields, excelImport.headers));
+  }, [excelImport, templateFields, templateAssets]);
+
+  // 修改字段映射（同时按模板保存）
+  const handleFieldMappingChange = (mapping: FieldMapping) => {
+    setFieldMapping(mapping);
+    if (templateAssets) {
+      saveFieldMapping(templateAssets.fileName, mapping);
+    }
+  };
+
+  // 自动匹配字段映射
+  const handleAutoMapFields = () => {
+    if (!excelImport) return;
+    handleFieldMappingChange(autoMapFields(templateFields, excelImport.headers));
+  };
+
+  // 应用字段映射：直接把 Excel 行转换为 jsonData
+  const handleApplyFieldMapping = () => {
+    if (!excelImport) return;
+
+    const mappingErrors: FieldMappingError[] = [];
+    const data = applyFieldMapping(excelImport.rows, fieldMapping, templateAssets?.imageMap, (err) => mappingErrors.push(err));
+    history.commit(
+      { kind: "bulk", label: "应用 Excel 字段映射" },
+      () => ({ jsonData: data, editedValues: {} })
+    );
+    setCurrentIndex(0);
+    setSelectedBannerIndex(isMultiView ? 0 : null);
+    setSuccess(`已按字段映射从 ${excelImport.fileName} 生成 ${data.length} 条数据`);
+
+    // 表达式出错的字段不会写入数据，按行列出（最多显示 5 条）
+    if (mappingErrors.length > 0) {
+      const labelOf = (name: string) => templateFields.find(f => f.name === name)?.label || name;
+      const details = mappingErrors
+        .slice(0, 5)
+        .map(err => `第 ${err.rowIndex + 1} 行「${labelOf(err.field)}」：${err.message}`)
+        .join("；");
+      setError(`${mappingErrors.length} 处表达式计算失败（对应字段未填充）：${details}${mappingErrors.length > 5 ? " …" : ""}`);
+    } else {
+      setError("");
+    }
+  };
+
+  // 当前会话 → 项目数据（用于保存项目文件和自动保存）
+  const buildProject = useCallback((): BannerProject => ({
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    name: (templateAssets?.fileName || htmlFileName || "banner").replace(/\.(zip|html?)$/i, ""),
+    htmlContent,
+    cssContent,
+    htmlFileName,
+    cssFileName,
+    templateFields,
+    templateAssets,
+    activeVariantIndex,
+    jsonData,
+    editedValues,
+    currentIndex,
+    excelImport,
+    fieldMapping,
+    exportSettings,
+  }), [
+    htmlContent, cssContent, htmlFileName, cssFileName, templateFields, templateAssets,
+    activeVariantIndex, jsonData, editedValues, currentIndex, excelImport, fieldMapping, exportSettings,
+  ]);
+
+  // 项目数据 → 当前会话
+  const restoreProject = (project: BannerProject) => {
+    restoredFieldMappingRef.current = project.excelImport ? project.fieldMapping : null;
+    setHtmlContent(project.htmlContent);
+    setCssContent(project.cssContent);
+    setHtmlFileName(project.htmlFileName);
+    setCssFileName(project.cssFileName);
+    setTemplateFields(project.templateFields);
+    setTemplateAssets(project.templateAssets);
+    setActiveVariantIndex(project.activeVariantIndex);
+    setJsonData(project.jsonData);
+    setEditedValues(project.editedValues);
+    history.reset();
+    setExcelImport(project.excelImport);
+    setExcelWorkbook(null);
+    setFieldMapping(project.fieldMapping);
+    setExportSettings(project.exportSettings);
+
+    const index = Math.min(project.currentIndex, Math.max(0, project.jsonData.length - 1));
+    setCurrentIndex(index);
+    setSelectedBannerIndex(isMultiView ? index : null);
+    setSelectedField(null);
+    setSelectedFieldValue("");
+  };
+
+  // 启动时检查是否有自动保存的会话
+  useEffect(() => {
+    loadAutosave().then((project) => {
+      if (project && !isProjectEmpty(project)) {
+        setPendingAutosave(project);
+      }
+    });
+  }, []);
+
+  // 会话变化后自动保存到 IndexedDB（防抖）
+  // 等待用户决定是否恢复上次会话期间不保存，避免覆盖它；批量生成期间 currentIndex 频繁变化，也不保存
+  useEffect(() => {
+    if (pendingAutosave || isGenerating) return;
+    const project = buildProject();
+    if (isProjectEmpty(project)) return;
+
+    const timer = setTimeout(() => saveAutosave(project), 1000);
+    return () => clearTimeout(timer);
+  }, [buildProject, pendingAutosave, isGenerating]);
+
+  const handleRestoreAutosave = () => {
+    if (!pendingAutosave) return;
+    restoreProject(pendingAutosave);
+    setPendingAutosave(null);
+    setError("");
+    setSuccess(`已恢复上次的会话（${new Date(pendingAutosave.savedAt).toLocaleString()}）`);
+  };
+
+  const handleDiscardAutosave = () => {
+    setPendingAutosave(null);
+    clearAutosave();
+  };
+
+  // 保存项目：下载 .bannerproj 文件
+  const handleSaveProject = async () => {
+    try {
+      const project = buildProject();
+      const blob = await createProjectFile(project);
+
+      const a = document.createElement("a");
+      a.href = URL.createObjectURL(blob);
+      a.download = `${project.name}${PROJECT_FILE_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(a.href);
+
+      setError("");
+      setSuccess(`项目已保存为 ${a.download}`);
+    } catch (err) {
+      setError("保存项目失败，请查看控制台");
+      console.error("保存项目错误:", err);
+    }
+  };
+
+  // 打开项目：恢复 .bannerproj 中保存的会话
+  const handleOpenProject = async (file: File | null) => {
+    if (!file) return;
+
+    setError("");
+    setSuccess("");
+
+    try {
+      const project = await readProjectFile(file);
+      restoreProject(project);
+      setPendingAutosave(null);
+      const rowCount = project.jsonData.filter(row => Object.keys(row).length > 0).length;
+      setSuccess(`已打开项目 ${file.name}（${rowCount} 条数据）`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "项目文件处理失败";
+      setError(message);
+      console.error("打开项目错误:", err);
+    }
 
     // 清空 input
-    if (excelInputRef.current) {
-      excelInputRef.current.value = "";
+    if (projectInputRef.current) {
+      projectInputRef.current.value = "";
     }
   };
 
@@ -608,36 +807,16 @@ export const BannerBatchPage: React.FC = () => {
       if (!iframeDoc) return;
 
       // 特殊处理价格字段
-      if (fieldName === 'sec_price_int' || fieldName === 'sec_price_decimal') {
-        const priceEl = iframeDoc.querySelector('[data-field-int]') as HTMLElement;
-        if (priceEl) {
-          const priceInt2 = priceEl.querySelector('.price-int-2') as HTMLElement;
-          const priceInt3 = priceEl.querySelector('.price-int-3') as HTMLElement;
-          const priceDecimal2 = priceEl.querySelector('.price-decimal-2') as HTMLElement;
-          const priceDecimal3 = priceEl.querySelector('.price-decimal-3') as HTMLElement;
-          
-          let intValue = '';
-          let decValue = '';
-          
-          if (priceInt2 || priceInt3 || priceDecimal2 || priceDecimal3) {
-            intValue = (priceInt2?.textContent || priceInt3?.textContent || '').trim();
-            decValue = (priceDecimal2?.textContent || priceDecimal3?.textContent || '').trim();
-          } else {
-            const signNode = priceEl.querySelector('.sign');
-            const decimalNode = priceEl.querySelector('.decimal');
-            intValue = signNode?.nextSibling?.nodeValue?.trim() || '';
-            decValue = decimalNode?.textContent?.trim() || '';
-          }
-          
-          setSelectedFieldValue(fieldName === 'sec_price_int' ? intValue : decValue);
-        }
+      const priceValue = readPriceFieldValue(iframeDoc, fieldName);
+      if (priceValue !== undefined) {
+        setSelectedFieldValue(priceValue);
       } else {
         // 普通字段处理
         const element = iframeDoc.querySelector(`[data-field="${fieldName}"]`) as HTMLElement;
         if (element) {
           let value = "";
           if (element.tagName === "IMG") {
-            value = (element as HTMLImageElement).src || "";
+            value = getSourceImageSrc(element as HTMLImageElement) || "";
           } else {
             value = element.textContent?.trim() || element.innerText?.trim() || "";
           }
@@ -711,45 +890,19 @@ export const BannerBatchPage: React.FC = () => {
       const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
       if (!iframeDoc) return;
 
-      // 特殊处理价格字段
-      if (fieldName === 'sec_price_int' || fieldName === 'sec_price_decimal') {
-        const priceEl = iframeDoc.querySelector('[data-field-int]') as HTMLElement;
-        if (priceEl) {
-          priceEl.classList.add("field-highlight");
-          
-          // 优先查找新的价格结构：.price-int-2, .price-int-3 和 .price-decimal-2, .price-decimal-3
-          const priceInt2 = priceEl.querySelector('.price-int-2') as HTMLElement;
-          const priceInt3 = priceEl.querySelector('.price-int-3') as HTMLElement;
-          const priceDecimal2 = priceEl.querySelector('.price-decimal-2') as HTMLElement;
-          const priceDecimal3 = priceEl.querySelector('.price-decimal-3') as HTMLElement;
-
-          let intValue = '';
-          let decValue = '';
-
-          if (priceInt2 || priceInt3 || priceDecimal2 || priceDecimal3) {
-            // 使用新的价格结构
-            intValue = (priceInt2?.textContent || priceInt3?.textContent || '').trim();
-            decValue = (priceDecimal2?.textContent || priceDecimal3?.textContent || '').trim();
-          } else {
-            // 回退到旧逻辑：sign 后的文本节点 + .decimal span
-          const signNode = priceEl.querySelector('.sign');
-          const decimalNode = priceEl.querySelector('.decimal');
-            intValue = signNode?.nextSibling?.nodeValue || '';
-            decValue = decimalNode?.textContent || '';
-          }
-          
-          setSelectedFieldValue(fieldName === 'sec_price_int' ? intValue : decValue);
-          
-          // 只在单图模式下滚动，多图模式下 iframe 是缩放的，滚动会导致布局问题
-          if (!isMultiView) {
+      // 特殊处理价格字段（可能有多个价格元素绑定同一字段）
+      const priceElements = findPriceElements(iframeDoc, fieldName);
+      if (priceElements.length > 0) {
+        priceElements.forEach((el) => el.classList.add("field-highlight"));
+        setSelectedFieldValue(readPriceFieldValue(iframeDoc, fieldName) || "");
+
+        // 只在单图模式下滚动，多图模式下 iframe 是缩放的，滚动会导致布局问题
+        if (!isMultiView) {
           try {
-              priceEl.scrollIntoView({ behavior: "smooth", block: "nearest" });
+            priceElements[0].scrollIntoView({ behavior: "smooth", block: "nearest" });
           } catch (e) {
             // 忽略错误
-            }
           }
-        } else {
-          setSelectedFieldValue("未找到对应元素");
         }
       } else {
         // 普通字段处理
@@ -761,7 +914,7 @@ export const BannerBatchPage: React.FC = () => {
           // 获取元素的内容
           let value = "";
           if (element.tagName === "IMG") {
-            value = (element as HTMLImageElement).src || "";
+            value = getSourceImageSrc(element as HTMLImageElement) || "";
           } else {
             value = element.textContent?.trim() || element.innerText?.trim() || "";
           }
@@ -814,56 +967,25 @@ export const BannerBatchPage: React.FC = () => {
     }
   };
 
-  // 更新价格字段（特殊处理，因为价格结构特殊）
-  // 统一价格系统：根据整数位数自动切换 class，确保 DOM 结构统一
-  // updatePriceFields 已移至 dataApplier.ts，直接使用导入的函数
+  // 价格字段的格式化和渲染见 priceFormat.ts
 
   // 辅助函数：更新文档中的字段值
   const updateFieldInDocument = useCallback((iframeDoc: Document, fieldName: string, newValue: string, isPreview: boolean = false, isSelectedIframe: boolean = false) => {
-    // 特殊处理价格字段
-    if (fieldName === 'sec_price_int' || fieldName === 'sec_price_decimal') {
-      const priceEl = iframeDoc.querySelector('[data-field-int]') as HTMLElement;
-      if (priceEl) {
-        // 预览模式下且是选中的 iframe 才高亮
-        if (isPreview && isSelectedIframe) {
-          if (!priceEl.classList.contains("field-highlight")) {
-            const previousHighlighted = iframeDoc.querySelector(".field-highlight");
-            if (previousHighlighted) {
-              previousHighlighted.classList.remove("field-highlight");
-            }
-            priceEl.classList.add("field-highlight");
-          }
-        } else if (isPreview && !isSelectedIframe) {
-          // 如果不是选中的 iframe，清除高亮
-          priceEl.classList.remove("field-highlight");
-        }
-
-        // 获取当前价格值（用于确定需要更新的值）
-        const priceInt2 = priceEl.querySelector('.price-int-2') as HTMLElement;
-        const priceInt3 = priceEl.querySelector('.price-int-3') as HTMLElement;
-        const priceDecimal2 = priceEl.querySelector('.price-decimal-2') as HTMLElement;
-        const priceDecimal3 = priceEl.querySelector('.price-decimal-3') as HTMLElement;
-
-        let currentIntValue = (priceInt2?.textContent || priceInt3?.textContent || '').trim();
-        let currentDecValue = (priceDecimal2?.textContent || priceDecimal3?.textContent || '').trim();
-        
-        // 如果没有找到新结构，尝试从旧结构读取
-        if (!currentIntValue && !currentDecValue) {
-          const signNode = priceEl.querySelector('.sign');
-          const decimalNode = priceEl.querySelector('.decimal');
-          currentIntValue = signNode?.nextSibling?.nodeValue?.trim() || '';
-          currentDecValue = decimalNode?.textContent?.trim() || '';
+    // 特殊处理价格字段（按模板属性格式化，同一字段的所有价格元素一起更新）
+    const priceElements = findPriceElements(iframeDoc, fieldName);
+    if (priceElements.length > 0) {
+      // 预览模式下且是选中的 iframe 才高亮
+      if (isPreview && isSelectedIframe) {
+        if (!priceElements[0].classList.contains("field-highlight")) {
+          iframeDoc.querySelectorAll(".field-highlight").forEach((el) => el.classList.remove("field-highlight"));
+          priceElements.forEach((el) => el.classList.add("field-highlight"));
         }
-
-        // 确定要更新的值
-        let finalIntValue = fieldName === 'sec_price_int' ? newValue : currentIntValue;
-        let finalDecValue = fieldName === 'sec_price_decimal' 
-          ? (newValue.startsWith('.') ? newValue : '.' + newValue)
-          : currentDecValue;
-
-        // 使用 updatePriceFields 统一处理（会自动切换 class 和创建缺失的 span）
-        updatePriceFields(iframeDoc, finalIntValue, finalDecValue.replace(/^\./, ''));
+      } else if (isPreview && !isSelectedIframe) {
+        // 如果不是选中的 iframe，清除高亮
+        priceElements.forEach((el) => el.classList.remove("field-highlight"));
       }
+
+      updatePriceField(iframeDoc, fieldName, newValue);
     } else {
       // 普通字段处理
       const element = iframeDoc.querySelector(`[data-field="${fieldName}"]`) as HTMLElement;
@@ -892,7 +1014,63 @@ export const BannerBatchPage: React.FC = () => {
         }
       }
     }
-  }, [updatePriceFields]);
+  }, []);
+
+  // 模板中各字段的原始值（撤销编辑后，数据里没有该字段时恢复为模板原值）
+  const templateDefaults = useMemo(() => {
+    const defaults: Record<string, string> = {};
+    if (!htmlContent) return defaults;
+    const doc = new DOMParser().parseFromString(htmlContent, "text/html");
+    doc.querySelectorAll<HTMLElement>("[data-field]").forEach((el) => {
+      const name = el.getAttribute("data-field");
+      if (!name || name in defaults) return;
+      defaults[name] = el.tagName === "IMG" ? el.getAttribute("src") || "" : el.textContent?.trim() || "";
+    });
+    getPriceFieldNames(doc).forEach((name) => {
+      if (!(name in defaults)) defaults[name] = readPriceFieldValue(doc, name) || "";
+    });
+    return defaults;
+  }, [htmlContent]);
+
+  // 撤销/重做：把历史快照写回页面状态
+  const applyRowsState = useCallback((state: RowsState) => {
+    const activeIndex = getActiveIndex();
+
+    // 数据应用只会覆盖数据中存在的字段，被撤销的编辑需要手动恢复为模板原值
+    const visibleIndexes = isMultiView ? [0, 1, 2, 3].map(offset => currentIndex + offset) : [currentIndex];
+    visibleIndexes.forEach((dataIndex, offset) => {
+      const removedFields = Object.keys(editedValues[dataIndex] || {}).filter(field =>
+        state.editedValues[dataIndex]?.[field] === undefined &&
+        state.jsonData[dataIndex]?.[field] === undefined &&
+        templateDefaults[field] !== undefined
+      );
+      if (removedFields.length === 0) return;
+
+      const iframes = [isMultiView ? multiIframeRefs.current[offset] : previewIframeRef.current];
+      if (dataIndex === activeIndex) {
+        iframes.push(iframeRef.current);
+      }
+      iframes.forEach(iframe => {
+        const doc = iframe?.contentDocument || iframe?.contentWindow?.document;
+        if (!doc) return;
+        removedFields.forEach(field => updateFieldInDocument(doc, field, templateDefaults[field]));
+      });
+    });
+
+    setJsonData(state.jsonData);
+    setEditedValues(state.editedValues);
+
+    // 删除行后当前索引可能越界
+    const lastIndex = Math.max(0, state.jsonData.length - 1);
+    if (currentIndex > lastIndex) {
+      setCurrentIndex(lastIndex);
+    }
+    if (selectedBannerIndex !== null && selectedBannerIndex > lastIndex) {
+      setSelectedBannerIndex(lastIndex);
+    }
+  }, [getActiveIndex, isMultiView, currentIndex, selectedBannerIndex, editedValues, templateDefaults, updateFieldInDocument]);
+
+  const history = useEditHistory({ jsonData, editedValues }, applyRowsState);
 
   // 更新 iframe 中字段的值（根据 activeIndex 更新对应的 iframe）
   const updateFieldValue = useCallback((fieldName: string, newValue: string) => {
@@ -929,22 +1107,14 @@ export const BannerBatchPage: React.FC = () => {
           updateFieldInDocument(iframeDoc, fieldName, newValue, true, isSelectedIframe);
           
           // 更新显示值（从目标 iframe 读取）
-          if (fieldName === 'sec_price_int' || fieldName === 'sec_price_decimal') {
-            const priceEl = iframeDoc.querySelector('[data-field-int]') as HTMLElement;
-            if (priceEl) {
-              const priceInt2 = priceEl.querySelector('.price-int-2') as HTMLElement;
-              const priceInt3 = priceEl.querySelector('.price-int-3') as HTMLElement;
-              const priceDecimal2 = priceEl.querySelector('.price-decimal-2') as HTMLElement;
-              const priceDecimal3 = priceEl.querySelector('.price-decimal-3') as HTMLElement;
-              const intValue = (priceInt2?.textContent || priceInt3?.textContent || '').trim();
-              const decValue = (priceDecimal2?.textContent || priceDecimal3?.textContent || '').trim();
-              setSelectedFieldValue(fieldName === 'sec_price_int' ? intValue : decValue);
-            }
+          const priceValue = readPriceFieldValue(iframeDoc, fieldName);
+          if (priceValue !== undefined) {
+            setSelectedFieldValue(priceValue);
           } else {
             const element = iframeDoc.querySelector(`[data-field="${fieldName}"]`) as HTMLElement;
             if (element) {
               if (element.tagName === "IMG") {
-                setSelectedFieldValue((element as HTMLImageElement).src || "");
+                setSelectedFieldValue(getSourceImageSrc(element as HTMLImageElement) || "");
               } else {
                 setSelectedFieldValue(element.textContent?.trim() || "");
               }
@@ -969,15 +1139,63 @@ export const BannerBatchPage: React.FC = () => {
       }
     }
       
-    // 保存编辑的值到 editedValues（使用 activeIndex）
-    setEditedValues(prev => ({
-      ...prev,
-      [activeIndex]: {
-        ...prev[activeIndex],
-        [fieldName]: newValue
+    // 保存编辑的值到 editedValues（使用 activeIndex），同时记录到修改历史
+    const label = templateFields.find(f => f.name === fieldName)?.label || fieldName;
+    history.commit(
+      { kind: "edit", label: `修改「${label}」`, rowIndex: activeIndex, field: fieldName },
+      state => setFieldValue(state, activeIndex, fieldName, newValue)
+    );
+  }, [isMultiView, currentIndex, getActiveIndex, updateFieldInDocument, selectedBannerIndex, clearAllFieldHighlights, templateFields, history.commit]);
+
+  // 把当前字段的值应用到所有数据行
+  const handleApplyFieldToAllRows = (fieldName: string) => {
+    const label = templateFields.find(f => f.name === fieldName)?.label || fieldName;
+    history.commit(
+      { kind: "bulk", label: `「${label}」应用到所有行`, field: fieldName },
+      state => applyFieldToAllRows(state, fieldName, selectedFieldValue)
+    );
+    setSuccess(`已将「${label}」应用到所有数据行`);
+  };
+
+  // 复制当前行（插入到当前行后面，并切换到复制出的行）
+  const handleDuplicateRow = () => {
+    const activeIndex = getActiveIndex();
+    if (!jsonData[activeIndex]) return;
+
+    history.commit(
+      { kind: "addRow", label: "复制数据行", rowIndex: activeIndex },
+      state => duplicateRow(state, activeIndex)
+    );
+    const newIndex = activeIndex + 1;
+    if (isMultiView) {
+      if (newIndex >= currentIndex + 4) {
+        setCurrentIndex(newIndex - 3);
       }
-    }));
-  }, [isMultiView, currentIndex, getActiveIndex, updateFieldInDocument, selectedBannerIndex, clearAllFieldHighlights]);
+      setSelectedBannerIndex(newIndex);
+    } else {
+      setCurrentIndex(newIndex);
+    }
+  };
+
+  // 删除当前行（可以撤销）
+  const handleRemoveRow = () => {
+    const activeIndex = getActiveIndex();
+    if (!jsonData[activeIndex]) return;
+
+    history.commit(
+      { kind: "removeRow", label: "删除数据行", rowIndex: activeIndex },
+      state => removeRow(state, activeIndex)
+    );
+    setSuccess(`已删除第 ${activeIndex + 1} 条数据（可撤销）`);
+  };
+
+  // 切换多尺寸模板集中预览的尺寸（数据和编辑值保持不变）
+  const handleSelectVariant = (index: number) => {
+    const variant = templateAssets?.variants?.[index];
+    if (!variant) return;
+    setActiveVariantIndex(index);
+    setHtmlContent(variant.html);
+  };
 
   // 清除 CSS
   const handleClearCss = () => {
@@ -997,6 +1215,7 @@ export const BannerBatchPage: React.FC = () => {
     try {
       const parsed = await parseJsonFile(file);
       setJsonData(parsed);
+      history.reset();
       setCurrentIndex(0);
       setSelectedBannerIndex(isMultiView ? 0 : null);
       setSuccess(`成功加载 ${parsed.length} 条数据`);
@@ -1015,11 +1234,62 @@ export const BannerBatchPage: React.FC = () => {
     }
   };
 
+  // 记录某条数据的文字溢出结果（结果没变化时不触发重新渲染）
+  const recordTextFit = useCallback((index: number, results: TextFitResult[]) => {
+    setTextFitResults(prev => {
+      if (JSON.stringify(prev[index] || []) === JSON.stringify(results)) return prev;
+      return { ...prev, [index]: results };
+    });
+  }, []);
+
+  // 记录某条数据加载失败的图片
+  const recordImageFailures = useCallback((index: number, failures: ImageFailure[]) => {
+    setImageFailures(prev => {
+      if (JSON.stringify(prev[index] || []) === JSON.stringify(failures)) return prev;
+      return { ...prev, [index]: failures };
+    });
+  }, []);
+
+  // 数据或模板变化后，之前的溢出检测和缺图结果不再有效
+  useEffect(() => {
+    setTextFitResults({});
+    setImageFailures({});
+  }, [jsonData, htmlContent, cssContent]);
+
+  // 模板变化后，上一批的进度和失败任务不再对应
+  useEffect(() => {
+    setBatchProgress(null);
+  }, [htmlContent, cssContent]);
+
+  // 模板变化时读取该模板保存过的缺图策略
+  useEffect(() => {
+    setMissingImagePolicies(templateAssets ? loadMissingImagePolicies(templateAssets.fileName) : {});
+  }, [templateAssets]);
+
+  const handleMissingImagePoliciesChange = (policies: MissingImagePolicies) => {
+    setMissingImagePolicies(policies);
+    if (templateAssets) {
+      saveMissingImagePolicies(templateAssets.fileName, policies);
+    }
+  };
+
+  // 预览时在后台处理模板图片（data-remove-bg / data-trim / data-fit），完成后自动替换，再检查加载失败的图片并按策略处理；
+  // 导出时在 exportCurrentFrame 中等待
+  const prepareFrameImages = useCallback((iframe: HTMLIFrameElement, index: number) => {
+    const doc = iframe.contentDocument || iframe.contentWindow?.document;
+    if (!doc) return;
+    processTemplateImages(doc)
+      .then(() => checkDocumentImages(doc, missingImagePolicies))
+      .then(failures => recordImageFailures(index, failures))
+      .catch(e => console.warn("图片处理失败:", e));
+  }, [missingImagePolicies, recordImageFailures]);
+
   // applyJsonDataToMultiIframe 已移至 dataApplier.ts，使用导入的函数
   const applyJsonDataToMultiIframeWrapper = useCallback((iframe: HTMLIFrameElement, data: BannerData, index: number) => {
     if (!iframe || !htmlContent) return;
-    applyJsonDataToMultiIframeUtil(iframe, data, index, editedValues);
-  }, [htmlContent, editedValues]);
+    recordTextFit(index, applyJsonDataToMultiIframeUtil(iframe, data, index, editedValues));
+    prepareFrameImages(iframe, index);
+  }, [htmlContent, editedValues, recordTextFit, prepareFrameImages]);
 
   // applyJsonDataToIframe 已移至 dataApplier.ts，使用导入的函数
   // 同时应用到预览和导出 iframe
@@ -1028,14 +1298,15 @@ export const BannerBatchPage: React.FC = () => {
     
     // 应用到导出 iframe（用于批量生成）
     if (iframeRef.current) {
-      applyJsonDataToIframeUtil(iframeRef.current, data, index, editedValues);
+      recordTextFit(index, applyJsonDataToIframeUtil(iframeRef.current, data, index, editedValues));
     }
     
     // 应用到预览 iframe（用于单图预览）
     if (previewIframeRef.current) {
-      applyJsonDataToIframeUtil(previewIframeRef.current, data, index, editedValues);
+      recordTextFit(index, applyJsonDataToIframeUtil(previewIframeRef.current, data, index, editedValues));
+      prepareFrameImages(previewIframeRef.current, index);
     }
-  }, [htmlContent, editedValues]);
+  }, [htmlContent, editedValues, recordTextFit, prepareFrameImages]);
 
   // 多图模式：更新4个iframe的数据
   useEffect(() => {
@@ -1173,23 +1444,128 @@ export const BannerBatchPage: React.FC = () => {
     }
   };
 
-  // 清除导出 iframe 中的所有 highlight（用于批量生成）
-  const clearExportIframeHighlights = () => {
-    if (iframeRef.current) {
-      try {
-        const iframeDoc = iframeRef.current.contentDocument || iframeRef.current.contentWindow?.document;
-        if (iframeDoc) {
-          const highlighted = iframeDoc.querySelectorAll(".field-highlight");
-          highlighted.forEach((el) => el.classList.remove("field-highlight"));
-        }
-      } catch (e) {
-        // 忽略错误
+  // 批量生成前的数据校验（手动编辑的值会一起校验）
+  const validationIssues = useMemo(
+    () => validateBannerRows(
+      jsonData,
+      templateAssets?.fields || templateFields,
+      editedValues,
+      templateAssets?.imageMap
+    ),
+    [jsonData, templateFields, editedValues, templateAssets]
+  );
+  const validationErrorCount = validationIssues.filter(i => i.severity === "error").length;
+
+  // 校验报告：数据校验 + 已渲染数据的文字溢出和缺图提示（只提示，不拦截生成；缺图按策略在导出时处理）
+  const reportIssues = useMemo(() => {
+    const textFitIssues = Object.entries(textFitResults)
+      .flatMap(([index, results]) => textFitToIssues(Number(index), results));
+    const imageIssues = Object.entries(imageFailures)
+      .flatMap(([index, failures]) => imageFailuresToIssues(Number(index), failures));
+    return [...validationIssues, ...textFitIssues, ...imageIssues].sort((a, b) => a.rowIndex - b.rowIndex);
+  }, [validationIssues, textFitResults, imageFailures]);
+
+  // 在导出 iframe 中逐条应用数据，检测所有数据的文字溢出（不导出图片）
+  const handleCheckTextFit = async () => {
+    const iframeDoc = iframeRef.current?.contentDocument;
+    if (!iframeRef.current || !iframeDoc) return;
+
+    setIsCheckingTextFit(true);
+    try {
+      await waitForIframeFonts(iframeDoc);
+      const results: Record<number, TextFitResult[]> = {};
+      jsonData.forEach((row, i) => {
+        if (i === 0 && Object.keys(row).length === 0) return;
+        results[i] = applyJsonDataToIframeUtil(iframeRef.current!, row, i, editedValues);
+      });
+      setTextFitResults(results);
+
+      const overflowRows = Object.values(results)
+        .filter(r => r.some(item => item.overflow || item.truncated)).length;
+      if (overflowRows > 0) {
+        setError(`${overflowRows} 条数据存在文字溢出，详见"数据校验"`);
+      } else {
+        setSuccess("所有数据的文字都在文本框内");
       }
+    } finally {
+      // 导出 iframe 恢复为当前预览的数据
+      const activeIndex = getActiveIndex();
+      if (jsonData[activeIndex] && Object.keys(jsonData[activeIndex]).length > 0) {
+        applyJsonDataToIframeUtil(iframeRef.current, jsonData[activeIndex], activeIndex, editedValues);
+      }
+      setIsCheckingTextFit(false);
+    }
+  };
+
+  // 数据修改后重新校验，之前的拦截状态失效
+  useEffect(() => {
+    setGenerationBlocked(false);
+  }, [validationIssues]);
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    saveExportSettings(settings);
+  };
+
+  // 从校验报告跳转到某一条数据
+  const handleJumpToRow = (rowIndex: number) => {
+    if (isMultiView) {
+      // 多图模式：让目标数据出现在当前 4 张中，并选中它
+      setCurrentIndex(Math.min(rowIndex, Math.max(0, jsonData.length - 4)));
+      setSelectedBannerIndex(rowIndex);
+    } else {
+      setCurrentIndex(rowIndex);
     }
   };
 
+  // 批量生成的任务列表和每个输出文件的路径（生成和"导出设置"中的命名预览共用）
+  // 路径按 "{任务 key}@{倍率}" 索引，重名时追加 _2、_3
+  const planBatchFiles = (date: Date) => {
+    // 多尺寸模板集：每个尺寸渲染所有数据，默认输出到以尺寸命名的目录
+    const variants = templateAssets?.variants && templateAssets.variants.length > 1
+      ? templateAssets.variants
+      : [null];
+    const jobs = createRenderJobs(variants, jsonData, exportSettings.includeTemplateImage);
+    // 第一个空对象是纯模板，默认命名中的序号从纯模板之后开始
+    const firstRowIsTemplate = jsonData.length > 0 && Object.keys(jsonData[0]).length === 0;
+    const templateName = (templateAssets?.fileName || htmlFileName || "banner").replace(/\.(zip|html?)$/i, "");
+    const extension = EXPORT_FORMATS[exportSettings.format].extension;
+
+    const items = jobs.flatMap(job => exportSettings.scales.map(scale => ({
+      key: `${job.key}@${scale}`,
+      context: {
+        data: job.rowIndex !== null ? { ...jsonData[job.rowIndex], ...(editedValues[job.rowIndex] || {}) } : null,
+        rowIndex: job.rowIndex,
+        sequence: job.rowIndex === null ? 1 : job.rowIndex + (firstRowIsTemplate ? 1 : 2),
+        size: (job.variant ?? templateAssets?.variants?.[0])?.size || "",
+        templateName,
+        date,
+        scale,
+        extension,
+      },
+    })));
+    const { names, collisions, renamed } = assignFileNames(items, {
+      pattern: exportSettings.fileNamePattern,
+      asciiOnly: exportSettings.fileNameAsciiOnly,
+      multiSize: variants[0] !== null,
+    });
+    return { variants, jobs, names, collisions, renamed, templateName };
+  };
+
+  // 导出设置中的文件名示例（前两条数据）和重名提示
+  const fileNamePreview = useMemo(() => {
+    if (!htmlContent || jsonData.length === 0) return undefined;
+    const { jobs, names, collisions } = planBatchFiles(new Date());
+    const examples = jobs
+      .filter(job => job.rowIndex !== null)
+      .slice(0, 2)
+      .map(job => names.get(`${job.key}@${exportSettings.scales[0]}`) || "");
+    return { examples, collisions };
+  }, [htmlContent, jsonData, editedValues, templateAssets, htmlFileName, exportSettings]);
+
   // 批量生成所有 Banner（打包成 ZIP）
-  const handleGenerateAll = async () => {
+  // force：忽略数据校验错误仍然生成；retryKeys：只重新生成上一批中失败的任务
+  const handleGenerateAll = async (force = false, retryKeys?: string[]) => {
     // 检查模板是否已加载：检查 htmlContent 和导出 iframe
     const hasTemplate = !!(htmlContent && iframeRef.current);
     
@@ -1198,194 +1574,320 @@ export const BannerBatchPage: React.FC = () => {
       return;
     }
 
+    // 数据校验有错误时先拦截，让用户修正或确认后再生成
+    if (!force && validationErrorCount > 0) {
+      setGenerationBlocked(true);
+      setSuccess("");
+      setError(`数据校验发现 ${validationErrorCount} 个错误，请在"数据校验"中修正，或选择仍然生成`);
+      return;
+    }
+
+    // 写入文件夹时先选择文件夹（浏览器要求在点击事件中调用，需放在其他 await 之前）
+    let outputFolder: FileSystemDirectoryHandle | null = null;
+    if (exportSettings.output === "folder" && isFolderOutputSupported()) {
+      try {
+        outputFolder = await pickOutputFolder();
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "无法打开文件夹");
+        return;
+      }
+      if (!outputFolder) return;
+    }
+
+    setGenerationBlocked(false);
     setIsGenerating(true);
     setError("");
     setSuccess("");
 
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+
     try {
-      const zip = new JSZip();
       let successCount = 0;
-      let bannerIndex = 0; // 用于文件名的序号，从1开始
-
-      // 生成时间戳（年月日时分，如 202511300120）
+      // 导出失败的数据（序号从1开始，多尺寸时带尺寸），生成结束后统一提示
+      const failedItems: string[] = [];
+      // 超过文件大小上限的文件
+      const oversizedFiles: string[] = [];
+      // 浏览器不能编码所选格式、改为实际格式（PNG）导出的文件数
+      let formatFallbackCount = 0;
+      // 因缺图（策略为"阻止导出"）跳过的数据
+      const missingImageItems: string[] = [];
+      // 清单中的每个文件（任务 key@倍率 → 记录），生成结束后按任务顺序写入 manifest.json / manifest.csv
+      const manifestEntries = new Map<string, ManifestEntry>();
+
+      // 生成时间戳（年月日时分，如 202511300120），用于 ZIP 名称和文件命名
       const now = new Date();
-      const year = now.getFullYear();
-      const month = String(now.getMonth() + 1).padStart(2, '0');
-      const day = String(now.getDate()).padStart(2, '0');
-      const hour = String(now.getHours()).padStart(2, '0');
-      const minute = String(now.getMinutes()).padStart(2, '0');
-      const timestamp = `${year}${month}${day}${hour}${minute}`;
-
-      // 1. 首先生成HTML模板（纯模板，不应用JSON数据）
-      // 检查第一个是否是空对象（纯模板）
-      const hasTemplateAsFirst = jsonData.length > 0 && Object.keys(jsonData[0]).length === 0;
-      
-      // 如果第一个不是空对象，或者没有JSON数据，需要生成模板
-      if (!hasTemplateAsFirst || jsonData.length === 0) {
-        // 重置导出 iframe 到原始 HTML 内容（不应用JSON数据）
-        if (iframeRef.current && htmlContent) {
-          iframeRef.current.srcdoc = buildSrcDoc(htmlContent, cssContent);
-        }
-        
-        // 等待 iframe 加载完成
-        await new Promise((resolve) => setTimeout(resolve, 500));
+      const timestamp = formatTimestamp(now);
+
+      // 任务列表和所有文件的路径（重试时沿用整批的命名，只渲染失败的任务）
+      const { variants, jobs: allJobs, names, collisions, renamed, templateName } = planBatchFiles(now);
+      const jobs = retryKeys ? allJobs.filter(job => retryKeys.includes(job.key)) : allJobs;
+
+      // 输出目标：写入文件夹，或 ZIP 下载（按设置分卷；重试时只包含重新生成的文件）
+      const output = outputFolder
+        ? createFolderOutput(outputFolder)
+        : createZipOutput(retryKeys ? `banners_${timestamp}_retry` : `banners_${timestamp}`, exportSettings.zipChunkSizeMB);
+
+      // 将 iframe 当前的内容按导出设置导出为图片，每个倍率导出一张
+      // rowIndex：导出数据行时传入，字体加载后重新做一次文字适配并记录溢出结果
+      // 有图片加载失败且策略为"阻止导出"时返回空数组（不导出，记录到 missingImageItems）
+      // warnings：收集写入清单的警告（缺图按策略处理、文字溢出）
+      const exportFrame = async (
+        iframe: HTMLIFrameElement,
+        variant: TemplateVariant | null,
+        rowIndex?: number,
+        warnings: string[] = []
+      ): Promise<{ scale: number; result: ExportResult; width: number; height: number }[] | null> => {
+        const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
+        if (!iframeDoc) return null;
 
-        const iframe = iframeRef.current;
-        if (iframe) {
-          const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
-          if (iframeDoc) {
-            // 等待字体加载完成
-            await waitForIframeFonts(iframeDoc);
-            
-            // 清除所有 highlight，确保导出的图片没有高亮印记
-            clearExportIframeHighlights();
-            
-            const container = iframeDoc.querySelector('.container') as HTMLElement;
-            const exportElement = container || iframeDoc.body;
-            if (exportElement) {
-              try {
-                const dataUrl = await exportNodeToPngDataUrl(exportElement, { fontEmbedCSS: cssContent });
-                const response = await fetch(dataUrl);
-                const blob = await response.blob();
-                
-                // 第一个文件命名为 template_时间戳.png
-                const fileName = `template_${timestamp}.png`;
-                zip.file(fileName, blob);
-                successCount++;
-                bannerIndex++;
-              } catch (err) {
-                console.error(`导出模板失败:`, err);
-              }
-            }
-          }
-        }
-      } else {
-        // 第一个是空对象，使用当前iframe状态（已经是纯模板）
-        setCurrentIndex(0);
-        
-        // 等待 iframe 加载完成（如果还没加载）
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        // 就绪等待、图片处理、缺图检查和重新等待布局共用单张渲染超时（超时会抛出错误并指明卡住的步骤）
+        const deadline = createRenderDeadline();
 
-        const iframe = iframeRef.current;
-        if (iframe) {
-          const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
-          if (iframeDoc) {
-            // 等待字体加载完成
-            await waitForIframeFonts(iframeDoc);
-            
-            // 清除所有 highlight，确保导出的图片没有高亮印记
-            clearExportIframeHighlights();
-            
-            const container = iframeDoc.querySelector('.container') as HTMLElement;
-            const exportElement = container || iframeDoc.body;
-            if (exportElement) {
-              try {
-                const dataUrl = await exportNodeToPngDataUrl(exportElement, { fontEmbedCSS: cssContent });
-                const response = await fetch(dataUrl);
-                const blob = await response.blob();
-                
-                // 第一个文件命名为 template_时间戳.png
-                const fileName = `template_${timestamp}.png`;
-                zip.file(fileName, blob);
-                successCount++;
-                bannerIndex++;
-              } catch (err) {
-                console.error(`导出模板失败:`, err);
-              }
-            }
-          }
-        }
-      }
+        // 等待图片解码、字体加载和布局稳定，再处理图片（抠图、裁边、构图）
+        await waitForRenderReady(iframeDoc, { deadline });
+        await withinDeadline(deadline, processTemplateImages(iframeDoc), "处理图片");
 
-      // 2. 然后生成所有JSON数据项
-      for (let i = 0; i < jsonData.length; i++) {
-        // 跳过第一个空对象（已经在上面处理了）
-        if (i === 0 && Object.keys(jsonData[i]).length === 0) {
-          continue;
+        // 检查加载失败的图片，按各字段的策略替换为占位图、隐藏或阻止导出
+        const failures = await withinDeadline(deadline, checkDocumentImages(iframeDoc, missingImagePolicies), "检查图片");
+        if (rowIndex !== undefined) {
+          recordImageFailures(rowIndex, failures);
         }
-        
-        bannerIndex++; // 实际生成的文件序号从1开始（模板已占第1个）
-        setCurrentIndex(i);
-        
-        // 应用数据（包括编辑的值）
-        applyJsonDataToIframe(jsonData[i], i);
-        
-        // 等待数据应用和渲染
-        await new Promise((resolve) => setTimeout(resolve, 300));
-
-        const iframe = iframeRef.current;
-        if (!iframe) continue;
-
-        const iframeDoc = iframe.contentDocument || iframe.contentWindow?.document;
-        if (!iframeDoc) continue;
+        if (isExportBlocked(failures)) {
+          const name = rowIndex !== undefined ? `#${rowIndex + 1}` : "模板";
+          missingImageItems.push(`${name}${variant ? `（${variant.size}）` : ""}：${describeImageFailures(failures.filter(f => f.policy === "block"))}`);
+          return [];
+        }
+        failures.forEach((failure) => {
+          warnings.push(`图片加载失败，已${MISSING_IMAGE_POLICY_LABELS[failure.policy]}：${describeImageFailures([failure])}`);
+        });
 
-        // 等待字体加载完成
-        await waitForIframeFonts(iframeDoc);
+        // 字体加载后文字尺寸可能变化，重新检测溢出
+        if (rowIndex !== undefined) {
+          const textFit = fitTextFields(iframeDoc);
+          recordTextFit(rowIndex, textFit);
+          warnings.push(...textFitToIssues(rowIndex, textFit).map(issue => issue.message));
+        }
 
-        // 清除所有 highlight，确保导出的图片没有高亮印记
-        clearExportIframeHighlights();
+        // 图片替换和文字适配后等布局重新稳定
+        await withinDeadline(deadline, waitForLayoutStable(iframeDoc), "等待布局稳定");
 
         // 优先导出 .container 元素，如果没有则使用 body
         const container = iframeDoc.querySelector('.container') as HTMLElement;
         const exportElement = container || iframeDoc.body;
-        if (!exportElement) continue;
-
-        const row = jsonData[i];
-        
-        // 如果有 id，使用 id_时间戳，否则使用 banner_序号_时间戳（序号从1开始）
-        const fileName = row.id 
-          ? `${row.id}_${timestamp}.png`
-          : `banner_${bannerIndex}_${timestamp}.png`;
-
-        try {
-          // 导出为 Data URL
-          const dataUrl = await exportNodeToPngDataUrl(exportElement, { fontEmbedCSS: cssContent });
-          
-          // 将 Data URL 转换为 Blob
-          const response = await fetch(dataUrl);
-          const blob = await response.blob();
-          
-          // 添加到 ZIP
-          zip.file(fileName, blob);
+        if (!exportElement) return null;
+
+        // 输出尺寸由模板/导出设置决定，与运行的设备无关
+        const outputSize = resolveOutputSize(exportSettings, variant ?? templateAssets?.variants?.[0]);
+        const outputs: { scale: number; result: ExportResult; width: number; height: number }[] = [];
+        for (const scale of exportSettings.scales) {
+          const options = toExportOptions(exportSettings, cssContent, outputSize, scale);
+          const result = await exportNodeToBlob(exportElement, options);
+          outputs.push({ scale, result, ...getOutputPixelSize(exportElement, options) });
+        }
+        return outputs;
+      };
+
+      // 任务最终使用的数据（计算 data-expr 字段并合并编辑值，与命令行相同），渲染和清单共用同一份
+      const resolvedRows = new Map<string, ReturnType<typeof resolveRowData>>();
+      const resolveJobData = (job: RenderJob, rowIndex: number) => {
+        let resolved = resolvedRows.get(job.key);
+        if (!resolved) {
+          const fields = job.variant?.fields ?? templateAssets?.fields ?? templateFields;
+          resolved = resolveRowData(jsonData[rowIndex], fields, editedValues[rowIndex] || {});
+          resolvedRows.set(job.key, resolved);
+        }
+        return resolved;
+      };
+
+      // 任务在清单中的公共信息：数据行、id、尺寸、最终使用的字段值
+      const manifestBase = (job: RenderJob) => {
+        const values = job.rowIndex !== null ? resolveJobData(job, job.rowIndex).data : null;
+        return {
+          rowIndex: job.rowIndex,
+          ...(values?.id !== undefined && values.id !== "" && { id: String(values.id) }),
+          size: (job.variant ?? templateAssets?.variants?.[0])?.size || undefined,
+          ...(values && { values: summarizeValues(values) }),
+        };
+      };
+
+      // 按命名规则写入输出（每个倍率一个文件），记录超过大小上限的文件和清单
+      const addOutputs = async (
+        job: RenderJob,
+        outputs: { scale: number; result: ExportResult; width: number; height: number }[],
+        warnings: string[]
+      ) => {
+        for (const { scale, result, width, height } of outputs) {
+          const key = `${job.key}@${scale}`;
+          const fileWarnings = [...warnings];
+          let path = names.get(key)!;
+          if (result.format !== exportSettings.format) {
+            // 扩展名和文件内容一致（如 AVIF 回退为 PNG 时改为 .png）
+            const planned = EXPORT_FORMATS[exportSettings.format];
+            const actual = EXPORT_FORMATS[result.format];
+            path = path.replace(new RegExp(`\\.${planned.extension}$`), "") + `.${actual.extension}`;
+            fileWarnings.push(`浏览器不支持 ${planned.label} 编码，已导出为 ${actual.label}`);
+            formatFallbackCount++;
+          }
+          await output.addFile(path, result.blob);
           successCount++;
-        } catch (err) {
-          console.error(`导出第 ${i + 1} 条失败:`, err);
+          if (!result.withinSizeLimit) {
+            oversizedFiles.push(`${path}（${Math.ceil(result.blob.size / 1024)}KB）`);
+            fileWarnings.push(`超过 ${exportSettings.maxSizeKB}KB 上限`);
+          }
+          if (renamed.has(key)) {
+            fileWarnings.push(`与「${renamed.get(key)}」重名，已改名`);
+          }
+          manifestEntries.set(key, {
+            file: path,
+            status: "ok",
+            ...manifestBase(job),
+            scale,
+            width,
+            height,
+            bytes: result.blob.size,
+            sha256: await sha256Hex(result.blob),
+            warnings: fileWarnings,
+          });
         }
+      };
+
+      // 渲染一个任务：在池中的 iframe 上应用数据（纯模板不应用），导出并写入输出
+      const renderJob = async (job: RenderJob, iframe: HTMLIFrameElement): Promise<RenderJobResult> => {
+        const { variant, rowIndex } = job;
+
+        const warnings: string[] = [];
+        if (rowIndex !== null) {
+          // 应用计算后的数据（包括编辑的值），渲染就绪由 exportFrame 等待
+          const { data, errors } = resolveJobData(job, rowIndex);
+          errors.forEach(err => warnings.push(`${err.field} 计算失败，${err.message}`));
+          applyJsonDataToIframeUtil(iframe, data, rowIndex, editedValues, true);
+        }
+
+        const outputs = await exportFrame(iframe, variant, rowIndex ?? undefined, warnings);
+        if (!outputs) {
+          return { status: "failed", error: "未找到可导出的元素" };
+        }
+        if (outputs.length === 0) {
+          return { status: "skipped", error: "图片加载失败" };
+        }
+
+        await addOutputs(job, outputs, warnings);
+        return { status: "done" };
+      };
+
+      setBatchProgress(createBatchProgress(jobs));
+      await runRenderPool(
+        jobs,
+        {
+          concurrency: exportSettings.concurrency,
+          signal: controller.signal,
+          buildSrcDoc: (variant) => buildSrcDoc(variant ? variant.html : htmlContent, cssContent),
+          frameSize: (variant) => ({
+            width: variant?.width || iframeSize?.width || 750,
+            height: variant?.height || iframeSize?.height || 1125,
+          }),
+          onJobStatus: (job, status, error) => {
+            if (status === "failed") {
+              failedItems.push(error ? `${job.label}（${error}）` : job.label);
+            }
+            if (status === "failed" || status === "skipped") {
+              // 失败的任务只记录一条（预定的第一个倍率的路径）
+              const key = `${job.key}@${exportSettings.scales[0]}`;
+              manifestEntries.set(key, {
+                file: names.get(key) || job.label,
+                status,
+                ...manifestBase(job),
+                warnings: [],
+                ...(error && { error }),
+              });
+            }
+            setBatchProgress(prev => prev && {
+              ...prev,
+              statuses: { ...prev.statuses, [job.key]: { status, error } },
+            });
+          },
+        },
+        renderJob
+      );
+      setBatchProgress(prev => prev && { ...prev, finishedAt: Date.now() });
+
+      if (controller.signal.aborted) {
+        output.abort();
+        setError(`已取消生成，取消前完成 ${successCount} 张${outputFolder ? "（已写入文件夹）" : "，未打包的文件已丢弃"}`);
+        return;
       }
 
       if (successCount > 0) {
-        // 生成 ZIP 文件
-        const zipBlob = await zip.generateAsync({ type: "blob" });
-        
-        // 下载 ZIP 文件
-        const a = document.createElement("a");
-        a.href = URL.createObjectURL(zipBlob);
-        a.download = `banners_${timestamp}.zip`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(a.href);
-
-        // 计算实际生成的数量：1个模板 + JSON数据数量
-        const templateCount = 1; // 总是生成1个模板
-        const dataCount = jsonData.length > 0 && Object.keys(jsonData[0]).length === 0 
-          ? jsonData.length - 1  // 如果第一个是空对象，减去1
-          : jsonData.length;      // 否则使用全部数量
-        setSuccess(`成功生成 ${successCount} 张 Banner（${templateCount} 个模板 + ${dataCount} 个数据项），已打包为 ZIP 文件`);
-
-        // ✅ 生成完成后，把 currentIndex 复位，避免 2×2 预览全部指到最后一张
-        setCurrentIndex(0);
+        // 清单按任务顺序、倍率排列，和图片一起写入输出
+        const manifest = createManifest(
+          jobs.flatMap(job => exportSettings.scales
+            .map(scale => manifestEntries.get(`${job.key}@${scale}`))
+            .filter((entry): entry is ManifestEntry => !!entry)),
+          {
+            name: templateName,
+            sha256: await hashTemplate(variants[0] ? variants.map(v => v!.html) : [htmlContent], cssContent),
+          }
+        );
+        await output.addFile("manifest.json", JSON.stringify(manifest, null, 2));
+        await output.addFile("manifest.csv", manifestToCsv(manifest));
+
+        // 打包剩余的文件并下载（写入文件夹时已经逐个写入）
+        const { summary: outputSummary, failures: outputFailures } = await output.finish();
+
+        // 计算实际生成的数量：模板任务数（每个尺寸1个）+ 数据条数
+        const templateCount = jobs.filter(job => job.rowIndex === null).length;
+        const dataCount = new Set(jobs.filter(job => job.rowIndex !== null).map(job => job.rowIndex)).size;
+        const sizeInfo = variants[0] ? `，${variants.length} 个尺寸` : "";
+        const scaleInfo = exportSettings.scales.length > 1
+          ? `，${exportSettings.scales.map(scale => `${scale}x`).join(" / ")}`
+          : "";
+        setSuccess(`${retryKeys ? "重新" : "成功"}生成 ${successCount} 张 Banner（${templateCount} 个模板 + ${dataCount} 个数据项${sizeInfo}${scaleInfo}），${outputSummary}`);
+        const problems: string[] = [...outputFailures];
+        if (failedItems.length > 0) {
+          problems.push(`${failedItems.length} 张导出失败：${failedItems.join("、")}（详情见控制台）`);
+        }
+        if (formatFallbackCount > 0) {
+          problems.push(`当前浏览器不支持 ${EXPORT_FORMATS[exportSettings.format].label} 编码，${formatFallbackCount} 张已导出为 PNG`);
+        }
+        if (oversizedFiles.length > 0) {
+          problems.push(`${oversizedFiles.length} 张超过 ${exportSettings.maxSizeKB}KB 上限：${oversizedFiles.join("、")}`);
+        }
+        if (missingImageItems.length > 0) {
+          problems.push(`${missingImageItems.length} 条因图片加载失败未导出：${missingImageItems.join("；")}`);
+        }
+        if (collisions.length > 0 && !retryKeys) {
+          problems.push(`${collisions.length} 个文件重名，已追加 _2、_3 等序号：${collisions.join("、")}`);
+        }
+        if (problems.length > 0) {
+          setError(problems.join("；"));
+        }
       } else {
-        setError("没有成功生成任何 Banner");
+        output.abort();
+        const reasons: string[] = [];
+        if (failedItems.length > 0) {
+          reasons.push(`${failedItems.length} 张导出失败：${failedItems.join("、")}`);
+        }
+        if (missingImageItems.length > 0) {
+          reasons.push(`${missingImageItems.length} 条因图片加载失败未导出：${missingImageItems.join("；")}`);
+        }
+        setError(reasons.length > 0 ? `没有成功生成任何 Banner，${reasons.join("；")}` : "没有成功生成任何 Banner");
       }
     } catch (err) {
       setError("批量生成过程中出现错误，请查看控制台");
       console.error("批量生成错误:", err);
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  // 取消批量生成：不再开始新的任务，正在渲染的完成后停止
+  const handleCancelGenerate = () => {
+    generationAbortRef.current?.abort();
+    setBatchProgress(prev => prev && { ...prev, cancelled: true });
+  };
+
   // 调整 iframe 尺寸以匹配内容（使用预览 iframe）
   const adjustIframeSize = useCallback(() => {
     const iframe = previewIframeRef.current || iframeRef.current;
@@ -1800,6 +2302,23 @@ export const BannerBatchPage: React.FC = () => {
                     </button>
                   </div>
                 )}
+                {templateAssets?.variants && templateAssets.variants.length > 1 && (
+                  <div className="template-variants">
+                    <span className="template-variants-label">
+                      多尺寸模板集（批量生成会输出全部 {templateAssets.variants.length} 个尺寸）：
+                    </span>
+                    {templateAssets.variants.map((variant, idx) => (
+                      <button
+                        key={variant.name}
+                        className={`template-variant-btn ${idx === activeVariantIndex ? 'active' : ''}`}
+                        onClick={() => handleSelectVariant(idx)}
+                        title={variant.name}
+                      >
+                        {variant.size}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             ) : null}
           </div>
@@ -1835,6 +2354,46 @@ export const BannerBatchPage: React.FC = () => {
             </div>
           )}
 
+          {/* 项目保存 / 打开 */}
+          <div className="control-section">
+            <h3>项目</h3>
+            {pendingAutosave && (
+              <div className="project-autosave-prompt">
+                <div className="info-text">
+                  发现上次未完成的会话「{pendingAutosave.name || "未命名"}」
+                  （{new Date(pendingAutosave.savedAt).toLocaleString()}）
+                </div>
+                <div className="project-actions">
+                  <button className="btn btn-primary btn-small" onClick={handleRestoreAutosave}>
+                    恢复
+                  </button>
+                  <button className="btn btn-secondary btn-small" onClick={handleDiscardAutosave}>
+                    忽略
+                  </button>
+                </div>
+              </div>
+            )}
+            <div className="project-actions">
+              <button
+                className="btn btn-secondary btn-small"
+                onClick={handleSaveProject}
+                disabled={!htmlContent && jsonData.length === 0}
+              >
+                保存项目
+              </button>
+              <label className="template-upload-label">
+                <input
+                  ref={projectInputRef}
+                  type="file"
+                  accept={PROJECT_FILE_EXTENSION}
+                  onChange={(e) => handleOpenProject(e.target.files?.[0] || null)}
+                  className="template-file-input"
+                />
+                <span className="btn btn-secondary btn-small">打开项目</span>
+              </label>
+            </div>
+          </div>
+
           {/* 模板字段列表 */}
           <div className="control-section">
             <h3>本模板可编辑字段</h3>
@@ -1862,6 +2421,11 @@ export const BannerBatchPage: React.FC = () => {
                         <span style={{ marginLeft: 8, color: "#999", fontSize: 12 }}>
                           ({f.name})
                         </span>
+                        {f.expr && (
+                          <span style={{ marginLeft: 8, color: "#999", fontSize: 12 }} title={`计算字段：${f.expr}（手动编辑后以编辑值为准）`}>
+                            = {f.expr}
+                          </span>
+                        )}
                       </div>
                       {isSelected && (
                         <div className="template-field-editor">
@@ -1892,8 +2456,21 @@ export const BannerBatchPage: React.FC = () => {
                               }}
                               placeholder="输入文本内容"
                               onClick={(e) => e.stopPropagation()}
+                              data-history-input
                             />
                           )}
+                          {!isImageField && jsonData.length > 1 && (
+                            <button
+                              className="btn btn-secondary btn-tiny"
+                              style={{ marginTop: 6 }}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleApplyFieldToAllRows(f.name);
+                              }}
+                            >
+                              应用到所有行
+                            </button>
+                          )}
                         </div>
                       )}
                     </li>
@@ -1903,6 +2480,99 @@ export const BannerBatchPage: React.FC = () => {
             )}
           </div>
 
+          {/* Excel sheet 选择 */}
+          {excelWorkbook && excelWorkbook.sheets.length > 1 && (
+            <div className="control-section">
+              <h3>选择 Sheet（{excelWorkbook.fileName}）</h3>
+              <SheetPicker
+                sheets={excelWorkbook.sheets}
+                selected={selectedSheets}
+                onChange={setSelectedSheets}
+                onImport={handleImportSelectedSheets}
+              />
+            </div>
+          )}
+
+          {/* Excel 表头行 */}
+          {excelWorkbook && headerPickerSummary && (
+            <div className="control-section">
+              <h3>表头行</h3>
+              {excelWorkbook.sheets.length > 1 && (
+                <select
+                  className="field-mapping-select"
+                  value={headerPickerSheet}
+                  onChange={(e) => setHeaderPickerSheet(e.target.value)}
+                  style={{ marginBottom: 8 }}
+                >
+                  {excelWorkbook.sheets.map((sheet) => (
+                    <option key={sheet.sheetName} value={sheet.sheetName}>{sheet.sheetName}</option>
+                  ))}
+                </select>
+              )}
+              <HeaderRowPicker
+                rows={headerPreviewRows}
+                headerRowIndex={headerPickerSummary.headerRowIndex}
+                isManual={headerPickerSheet in headerRowOverrides}
+                onSelect={(rowIndex) => handleSelectHeaderRow(headerPickerSheet, rowIndex)}
+                onReset={() => handleResetHeaderRow(headerPickerSheet)}
+              />
+            </div>
+          )}
+
+          {/* Excel 列名字典 */}
+          {excelWorkbook && (
+            <div className="control-section">
+              <h3>列名字典</h3>
+              <ColumnDictionaryPanel
+                dictionary={columnDictionary}
+                onChange={handleColumnDictionaryChange}
+                onExport={handleExportColumnDictionary}
+                onImport={handleImportColumnDictionary}
+                onReset={() => handleColumnDictionaryChange(DEFAULT_COLUMN_DICTIONARY)}
+                onApply={() => reanalyzeExcelWorkbook(headerRowOverrides, columnDictionary)}
+              />
+            </div>
+          )}
+
+          {/* Excel 字段映射 */}
+          {excelImport && (
+            <div className="control-section">
+              <h3>Excel 字段映射</h3>
+              {templateFields.length === 0 ? (
+                <p style={{ color: "#999", fontSize: 12 }}>
+                  已解析 {excelImport.fileName}，请先上传模板再绑定字段
+                </p>
+              ) : (
+                <FieldMappingPanel
+                  fields={templateFields}
+                  headers={excelImport.headers}
+                  rows={excelImport.rows}
+                  mapping={fieldMapping}
+                  onChange={handleFieldMappingChange}
+                  onApply={handleApplyFieldMapping}
+                  onAutoMap={handleAutoMapFields}
+                />
+              )}
+            </div>
+          )}
+
+          {/* 图片素材库 */}
+          <div className="control-section">
+            <h3>图片素材库</h3>
+            <AssetLibraryPanel
+              assets={assetLibrary}
+              resolutions={assetResolutions}
+              choices={assetChoices}
+              canMatch={jsonData.length > 0}
+              isApplying={isApplyingAssets}
+              onAddFiles={handleAddAssets}
+              onClear={handleClearAssets}
+              onMatch={handleMatchAssets}
+              onChoose={handleChooseAsset}
+              onApply={handleApplyAssets}
+            />
+          </div>
+
           {/* JSON 数据上传 */}
           <div className="control-section">
             <h3>批量替换素材</h3>
@@ -1960,23 +2630,98 @@ export const BannerBatchPage: React.FC = () => {
                   {isMultiView ? '下4条' : '下一条'} →
                 </button>
               </div>
+              <div className="row-actions">
+                <button onClick={handleDuplicateRow} className="btn btn-secondary btn-tiny">
+                  复制当前行
+                </button>
+                <button
+                  onClick={handleRemoveRow}
+                  disabled={Object.keys(jsonData[getActiveIndex()] || {}).length === 0}
+                  className="btn btn-secondary btn-tiny"
+                >
+                  删除当前行
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* 修改历史 */}
+          {jsonData.length > 0 && (
+            <div className="control-section">
+              <h3>修改历史</h3>
+              <HistoryPanel
+                past={history.past}
+                future={history.future}
+                onUndo={history.undo}
+                onRedo={history.redo}
+                onGoTo={history.goTo}
+              />
+            </div>
+          )}
+
+          {/* 数据校验 */}
+          {jsonData.length > 0 && templateFields.length > 0 && (
+            <div className="control-section">
+              <h3>数据校验</h3>
+              <ValidationReport
+                issues={reportIssues}
+                rows={jsonData}
+                activeIndex={getActiveIndex()}
+                onJumpToRow={handleJumpToRow}
+                onGenerateAnyway={generationBlocked ? () => handleGenerateAll(true) : undefined}
+              />
+              <button
+                className="btn btn-secondary btn-small validation-check-btn"
+                onClick={handleCheckTextFit}
+                disabled={isCheckingTextFit || isGenerating}
+              >
+                {isCheckingTextFit ? "检查中..." : "检查所有数据的文字溢出"}
+              </button>
             </div>
           )}
 
+          {/* 缺图处理 */}
+          {templateFields.length > 0 && (
+            <div className="control-section">
+              <h3>缺图处理</h3>
+              <MissingImagePanel
+                fields={templateFields.filter(f => f.name.includes("_src") || f.repeat)}
+                policies={missingImagePolicies}
+                onChange={handleMissingImagePoliciesChange}
+                disabled={isGenerating}
+              />
+            </div>
+          )}
+
+          {/* 导出设置 */}
+          <div className="control-section">
+            <h3>导出设置</h3>
+            <ExportSettingsPanel
+              settings={exportSettings}
+              templateSize={templateAssets?.variants?.[activeVariantIndex]}
+              onChange={handleExportSettingsChange}
+              disabled={isGenerating}
+              fileNamePreview={fileNamePreview}
+            />
+          </div>
+
           {/* 批量生成 */}
           <div className="control-section">
             <h3>批量生成</h3>
             <button
-              onClick={handleGenerateAll}
+              onClick={() => handleGenerateAll()}
               disabled={isGenerating || jsonData.length === 0 || !templateAssets}
               className="btn btn-primary btn-generate"
             >
               {isGenerating ? "生成中..." : "一键生成所有 Banner"}
             </button>
-            {isGenerating && (
-              <div className="info-text">
-                正在生成，请稍候...（浏览器可能会提示下载多个文件）
-              </div>
+            {batchProgress && (
+              <BatchProgressPanel
+                progress={batchProgress}
+                isRunning={isGenerating}
+                onCancel={handleCancelGenerate}
+                onRetry={(keys) => handleGenerateAll(true, keys)}
+              />
             )}
           </div>
 
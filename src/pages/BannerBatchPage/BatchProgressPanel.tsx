@@ -0,0 +1,103 @@
+import React from "react";
+import {
+  BatchProgress,
+  RenderJobStatus,
+  countJobStatuses,
+  estimateRemainingMs,
+  getRetryableJobKeys,
+} from "./renderPool";
+
+interface BatchProgressPanelProps {
+  progress: BatchProgress;
+  isRunning: boolean;
+  onCancel: () => void;
+  onRetry: (keys: string[]) => void;
+}
+
+const STATUS_LABELS: Record<RenderJobStatus, string> = {
+  pending: "等待中",
+  rendering: "渲染中",
+  done: "已完成",
+  failed: "失败",
+  skipped: "缺图未导出",
+  cancelled: "已取消",
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)} 分 ${seconds % 60} 秒` : `${seconds} 秒`;
+};
+
+/**
+ * 批量生成进度：进度条、预计剩余时间、每条数据的状态，以及取消和重试失败的数据
+ */
+export const BatchProgressPanel: React.FC<BatchProgressPanelProps> = ({
+  progress,
+  isRunning,
+  onCancel,
+  onRetry,
+}) => {
+  const counts = countJobStatuses(progress);
+  const total = progress.jobs.length;
+  const finished = counts.done + counts.failed + counts.skipped;
+  const percent = total > 0 ? Math.round((finished / total) * 100) : 0;
+  const remainingMs = isRunning ? estimateRemainingMs(progress) : null;
+  const retryKeys = isRunning ? [] : getRetryableJobKeys(progress);
+  const problemJobs = progress.jobs.filter(job => ["failed", "skipped"].includes(progress.statuses[job.key]?.status));
+
+  return (
+    <div className="batch-progress">
+      <div className="batch-progress-bar">
+        <div className="batch-progress-fill" style={{ width: `${percent}%` }} />
+      </div>
+
+      <div className="field-mapping-toolbar">
+        <span className="field-mapping-summary">
+          {finished} / {total}（{percent}%）
+          {counts.failed > 0 && `，失败 ${counts.failed}`}
+          {counts.skipped > 0 && `，缺图 ${counts.skipped}`}
+          {counts.cancelled > 0 && `，已取消 ${counts.cancelled}`}
+          {remainingMs !== null && `，预计剩余 ${formatDuration(remainingMs)}`}
+          {!isRunning && progress.finishedAt && `，用时 ${formatDuration(progress.finishedAt - progress.startedAt)}`}
+        </span>
+        {isRunning ? (
+          <button className="btn btn-secondary btn-tiny" onClick={onCancel} disabled={progress.cancelled}>
+            {progress.cancelled ? "正在取消..." : "取消"}
+          </button>
+        ) : (
+          retryKeys.length > 0 && (
+            <button className="btn btn-secondary btn-tiny" onClick={() => onRetry(retryKeys)}>
+              重试失败的 {retryKeys.length} 条
+            </button>
+          )
+        )}
+      </div>
+
+      <div className="batch-progress-jobs">
+        {progress.jobs.map((job) => {
+          const { status, error } = progress.statuses[job.key] || { status: "pending" as RenderJobStatus };
+          return (
+            <span
+              key={job.key}
+              className={`batch-progress-job ${status}`}
+              title={`${job.label}：${STATUS_LABELS[status]}${error ? `，${error}` : ""}`}
+            />
+          );
+        })}
+      </div>
+
+      {problemJobs.length > 0 && (
+        <ul className="validation-list">
+          {problemJobs.map((job) => {
+            const { status, error } = progress.statuses[job.key];
+            return (
+              <li key={job.key} className={`validation-issue validation-issue-${status === "failed" ? "error" : "warning"}`}>
+                {job.label}：{STATUS_LABELS[status]}{error ? `，${error}` : ""}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
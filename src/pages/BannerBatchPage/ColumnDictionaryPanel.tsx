@@ -0,0 +1,91 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ColumnDictionary, ColumnRole, COLUMN_ROLE_LABELS } from "../../utils/columnDictionary";
+
+interface ColumnDictionaryPanelProps {
+  dictionary: ColumnDictionary;
+  onChange: (dictionary: ColumnDictionary) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onReset: () => void;
+  onApply: () => void;          // 按字典重新识别当前 Excel
+}
+
+const ROLES = Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[];
+
+const toDrafts = (dictionary: ColumnDictionary): Record<ColumnRole, string> =>
+  ROLES.reduce((drafts, role) => ({ ...drafts, [role]: dictionary[role].join("\n") }), {} as Record<ColumnRole, string>);
+
+// 每行一个列名，也可以用逗号分隔
+const parseNames = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\n,，]/).map(name => name.trim()).filter(Boolean)));
+
+/**
+ * 列名字典：识别表头时各类列可以使用的列名
+ * 输入框失去焦点时保存（编辑过程中允许空行）
+ */
+export const ColumnDictionaryPanel: React.FC<ColumnDictionaryPanelProps> = ({
+  dictionary,
+  onChange,
+  onExport,
+  onImport,
+  onReset,
+  onApply,
+}) => {
+  const [drafts, setDrafts] = useState(() => toDrafts(dictionary));
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setDrafts(toDrafts(dictionary));
+  }, [dictionary]);
+
+  const commit = (role: ColumnRole) => {
+    const names = parseNames(drafts[role]);
+    if (names.join("\n") !== dictionary[role].join("\n")) {
+      onChange({ ...dictionary, [role]: names });
+    }
+  };
+
+  return (
+    <div className="column-dictionary">
+      {ROLES.map((role) => (
+        <label key={role} className="column-dictionary-row">
+          <span>{COLUMN_ROLE_LABELS[role]}</span>
+          <textarea
+            className="column-dictionary-input"
+            rows={3}
+            value={drafts[role]}
+            placeholder="每行一个列名"
+            onChange={(e) => setDrafts({ ...drafts, [role]: e.target.value })}
+            onBlur={() => commit(role)}
+          />
+        </label>
+      ))}
+
+      <div className="field-mapping-toolbar">
+        <button className="btn btn-primary btn-tiny" onClick={onApply}>
+          按字典重新识别
+        </button>
+        <button className="btn btn-secondary btn-tiny" onClick={onExport}>
+          导出
+        </button>
+        <button className="btn btn-secondary btn-tiny" onClick={() => importInputRef.current?.click()}>
+          导入
+        </button>
+        <button className="btn btn-secondary btn-tiny" onClick={onReset}>
+          恢复默认
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+    </div>
+  );
+};
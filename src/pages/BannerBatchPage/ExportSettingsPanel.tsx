@@ -0,0 +1,239 @@
+import React, { useMemo } from "react";
+import { EXPORT_FORMATS, ExportFormat, isExportFormatSupported } from "../../utils/htmlExport";
+import { AVAILABLE_SCALES, ExportSettings, MAX_RENDER_CONCURRENCY, OutputTarget, resolveOutputSize } from "./exportSettings";
+import { AUTO_ZIP_CHUNK_SIZE_MB, isFolderOutputSupported } from "./batchOutput";
+import { TemplateVariant } from "./types";
+
+interface ExportSettingsPanelProps {
+  settings: ExportSettings;
+  templateSize?: TemplateVariant;   // 当前模板（尺寸）声明的宽高，用于提示默认输出尺寸
+  onChange: (settings: ExportSettings) => void;
+  disabled?: boolean;
+  fileNamePreview?: { examples: string[]; collisions: string[] };  // 按当前数据生成的文件名示例和重名的文件
+}
+
+/**
+ * 导出设置：图片格式、质量、文件大小上限、输出尺寸、倍率、并行渲染数、输出方式和文件命名
+ */
+export const ExportSettingsPanel: React.FC<ExportSettingsPanelProps> = ({
+  settings,
+  templateSize,
+  onChange,
+  disabled,
+  fileNamePreview,
+}) => {
+  // 只列出当前浏览器能编码的格式（AVIF 需要较新的浏览器）
+  const formats = useMemo(
+    () => (Object.keys(EXPORT_FORMATS) as ExportFormat[]).filter(isExportFormatSupported),
+    []
+  );
+  const formatInfo = EXPORT_FORMATS[settings.format];
+  const folderSupported = useMemo(isFolderOutputSupported, []);
+
+  const update = (patch: Partial<ExportSettings>) => onChange({ ...settings, ...patch });
+
+  const toggleScale = (scale: number) => {
+    const scales = settings.scales.includes(scale)
+      ? settings.scales.filter(s => s !== scale)
+      : [...settings.scales, scale].sort((a, b) => a - b);
+    // 至少保留一个倍率
+    if (scales.length > 0) update({ scales });
+  };
+
+  const parseSize = (value: string): number | null =>
+    value ? Math.max(1, Math.round(Number(value))) : null;
+
+  const outputSize = resolveOutputSize(settings, templateSize);
+
+  return (
+    <div className="export-settings">
+      <label className="export-settings-row">
+        <span>格式</span>
+        <select
+          className="field-mapping-select"
+          value={settings.format}
+          disabled={disabled}
+          onChange={(e) => update({ format: e.target.value as ExportFormat })}
+        >
+          {formats.map((f) => (
+            <option key={f} value={f}>{EXPORT_FORMATS[f].label}</option>
+          ))}
+        </select>
+      </label>
+
+      {formatInfo.lossy && (
+        <label className="export-settings-row">
+          <span>质量 {Math.round(settings.quality * 100)}</span>
+          <input
+            type="range"
+            min={10}
+            max={100}
+            value={Math.round(settings.quality * 100)}
+            disabled={disabled}
+            onChange={(e) => update({ quality: Number(e.target.value) / 100 })}
+          />
+        </label>
+      )}
+
+      <label className="export-settings-row">
+        <span>大小上限</span>
+        <input
+          type="number"
+          className="field-value-input export-settings-size"
+          min={1}
+          placeholder="不限制"
+          value={settings.maxSizeKB ?? ""}
+          disabled={disabled}
+          onChange={(e) => update({ maxSizeKB: e.target.value ? Math.max(1, Number(e.target.value)) : null })}
+        />
+        <span>KB</span>
+      </label>
+
+      <label className="export-settings-row">
+        <span>输出尺寸</span>
+        <input
+          type="number"
+          className="field-value-input export-settings-size"
+          min={1}
+          placeholder={templateSize?.width ? String(templateSize.width) : "宽"}
+          value={settings.width ?? ""}
+          disabled={disabled}
+          onChange={(e) => update({ width: parseSize(e.target.value) })}
+        />
+        <span>×</span>
+        <input
+          type="number"
+          className="field-value-input export-settings-size"
+          min={1}
+          placeholder={templateSize?.height ? String(templateSize.height) : "高"}
+          value={settings.height ?? ""}
+          disabled={disabled}
+          onChange={(e) => update({ height: parseSize(e.target.value) })}
+        />
+      </label>
+
+      <div className="export-settings-row">
+        <span>倍率</span>
+        {AVAILABLE_SCALES.map((scale) => (
+          <label key={scale} className="export-settings-scale">
+            <input
+              type="checkbox"
+              checked={settings.scales.includes(scale)}
+              disabled={disabled}
+              onChange={() => toggleScale(scale)}
+            />
+            {scale}x
+          </label>
+        ))}
+      </div>
+
+      <label className="export-settings-row">
+        <span>并行渲染</span>
+        <select
+          className="field-mapping-select"
+          value={settings.concurrency}
+          disabled={disabled}
+          onChange={(e) => update({ concurrency: Number(e.target.value) })}
+        >
+          {Array.from({ length: MAX_RENDER_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+            <option key={n} value={n}>{n} 个</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="export-settings-row">
+        <span>输出方式</span>
+        <select
+          className="field-mapping-select"
+          value={folderSupported ? settings.output : "zip"}
+          disabled={disabled}
+          onChange={(e) => update({ output: e.target.value as OutputTarget })}
+        >
+          <option value="zip">下载 ZIP</option>
+          <option value="folder" disabled={!folderSupported}>
+            写入文件夹{folderSupported ? "" : "（当前浏览器不支持）"}
+          </option>
+        </select>
+      </label>
+
+      {(settings.output === "zip" || !folderSupported) && (
+        <label className="export-settings-row">
+          <span>ZIP 分卷</span>
+          <input
+            type="number"
+            className="field-value-input export-settings-size"
+            min={1}
+            placeholder={`自动（${AUTO_ZIP_CHUNK_SIZE_MB}）`}
+            value={settings.zipChunkSizeMB ?? ""}
+            disabled={disabled}
+            onChange={(e) => update({ zipChunkSizeMB: e.target.value ? Math.max(1, Number(e.target.value)) : null })}
+          />
+          <span>MB</span>
+        </label>
+      )}
+
+      <label className="export-settings-row">
+        <span>文件命名</span>
+        <input
+          type="text"
+          className="field-value-input"
+          placeholder="默认：{id}_{时间戳}"
+          value={settings.fileNamePattern}
+          disabled={disabled}
+          onChange={(e) => update({ fileNamePattern: e.target.value })}
+        />
+      </label>
+      <div className="field-mapping-summary">
+        可用 {"{字段名}"}、{"{a|b}"}（取第一个有值的字段）、{"{row}"}、{"{size}"}、{"{template}"}、{"{date}"}、{"{time}"}、{"{ext}"}，"/" 分隔文件夹，如 {"{brand}/{sku|id}_{size}.{ext}"}
+      </div>
+
+      <div className="export-settings-row">
+        <label className="export-settings-scale">
+          <input
+            type="checkbox"
+            checked={settings.fileNameAsciiOnly}
+            disabled={disabled}
+            onChange={(e) => update({ fileNameAsciiOnly: e.target.checked })}
+          />
+          文件名去掉中文
+        </label>
+        <label className="export-settings-scale">
+          <input
+            type="checkbox"
+            checked={settings.includeTemplateImage}
+            disabled={disabled}
+            onChange={(e) => update({ includeTemplateImage: e.target.checked })}
+          />
+          导出纯模板图片
+        </label>
+      </div>
+
+      {fileNamePreview && fileNamePreview.examples.length > 0 && (
+        <div className="field-mapping-summary">
+          示例：{fileNamePreview.examples.join("、")}
+          {fileNamePreview.collisions.length > 0 && (
+            <span className="export-settings-warning">
+              {" "}（{fileNamePreview.collisions.length} 个文件重名，生成时追加 _2、_3：{fileNamePreview.collisions.slice(0, 3).join("、")}
+              {fileNamePreview.collisions.length > 3 ? " 等" : ""}）
+            </span>
+          )}
+        </div>
+      )}
+
+      <div className="field-mapping-summary">
+        {outputSize.width && outputSize.height
+          ? `输出像素：${settings.scales.map(scale => `${outputSize.width! * scale}×${outputSize.height! * scale}`).join("、")}`
+          : "未声明尺寸，按模板实际渲染尺寸 × 倍率输出"}
+        {settings.scales.length > 1 && "（多倍率时文件名追加 @2x / @3x）"}
+      </div>
+
+      {settings.maxSizeKB && (
+        <div className="field-mapping-summary">
+          {formatInfo.lossy
+            ? "超过上限时会自动降低质量，直到文件不超过上限"
+            : "PNG 为无损格式，无法通过降低质量压缩；超过上限的文件会在生成后提示"}
+        </div>
+      )}
+    </div>
+  );
+};
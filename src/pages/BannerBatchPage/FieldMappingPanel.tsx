@@ -0,0 +1,159 @@
+import React from "react";
+import { TemplateField } from "./types";
+import { FieldBinding, FieldMapping, evaluateBinding } from "./fieldMapping";
+import { checkExpression } from "./expression";
+
+interface FieldMappingPanelProps {
+  fields: TemplateField[];
+  headers: string[];
+  rows: Record<string, any>[];
+  mapping: FieldMapping;
+  onChange: (mapping: FieldMapping) => void;
+  onApply: () => void;
+  onAutoMap: () => void;
+}
+
+// select 中"公式"/"表达式"选项的值（避免与列名冲突）
+const FORMULA_OPTION = "__formula__";
+const EXPRESSION_OPTION = "__expression__";
+
+const bindingOption = (binding: FieldBinding): string => {
+  if (binding.type === "column") return binding.column;
+  return binding.type === "formula" ? FORMULA_OPTION : EXPRESSION_OPTION;
+};
+
+/**
+ * Excel 列 → 模板字段映射编辑器
+ */
+export const FieldMappingPanel: React.FC<FieldMappingPanelProps> = ({
+  fields,
+  headers,
+  rows,
+  mapping,
+  onChange,
+  onApply,
+  onAutoMap,
+}) => {
+  const validHeaders = headers.filter(h => h);
+  const sampleRow = rows[0] || {};
+
+  const updateBinding = (fieldName: string, binding: FieldBinding | null) => {
+    const next = { ...mapping };
+    if (binding) {
+      next[fieldName] = binding;
+    } else {
+      delete next[fieldName];
+    }
+    onChange(next);
+  };
+
+  const handleSelectChange = (fieldName: string, value: string) => {
+    if (!value) {
+      updateBinding(fieldName, null);
+    } else if (value === FORMULA_OPTION) {
+      // 切换到公式时，用当前绑定的列作为初始公式
+      const current = mapping[fieldName];
+      const formula = current?.type === "column" ? `{${current.column}}` : "";
+      updateBinding(fieldName, { type: "formula", formula });
+    } else if (value === EXPRESSION_OPTION) {
+      const current = mapping[fieldName];
+      const expression = current?.type === "column" ? `{${current.column}}` : "";
+      updateBinding(fieldName, { type: "expression", expression });
+    } else {
+      updateBinding(fieldName, { type: "column", column: value });
+    }
+  };
+
+  const getPreviewValue = (binding: FieldBinding | undefined): { value: string; error?: string } => {
+    if (!binding) return { value: "" };
+    if (binding.type === "expression") {
+      const syntaxError = checkExpression(binding.expression);
+      if (syntaxError) return { value: "", error: syntaxError };
+    }
+    try {
+      const value = evaluateBinding(binding, sampleRow);
+      return { value: value === null || value === undefined ? "" : String(value) };
+    } catch (e) {
+      return { value: "", error: e instanceof Error ? e.message : String(e) };
+    }
+  };
+
+  const boundCount = Object.keys(mapping).length;
+
+  return (
+    <div className="field-mapping-panel">
+      <div className="field-mapping-toolbar">
+        <span className="field-mapping-summary">
+          已绑定 {boundCount}/{fields.length} 个字段，共 {rows.length} 行数据
+        </span>
+        <button className="btn btn-secondary btn-tiny" onClick={onAutoMap}>
+          自动匹配
+        </button>
+      </div>
+
+      <ul className="field-mapping-list">
+        {fields.map((f) => {
+          const binding = mapping[f.name];
+          const selectValue = binding ? bindingOption(binding) : "";
+          const { value: previewValue, error: previewError } = getPreviewValue(binding);
+
+          return (
+            <li key={f.name} className="field-mapping-item">
+              <div className="field-mapping-name">
+                <strong>{f.label || f.name}</strong>
+                <span className="field-mapping-key">({f.name})</span>
+              </div>
+              <select
+                className="field-mapping-select"
+                value={selectValue}
+                onChange={(e) => handleSelectChange(f.name, e.target.value)}
+              >
+                <option value="">不绑定（保留模板内容）</option>
+                {validHeaders.map((h) => (
+                  <option key={h} value={h}>{h}</option>
+                ))}
+                <option value={FORMULA_OPTION}>公式（组合多列）</option>
+                <option value={EXPRESSION_OPTION}>表达式（计算）</option>
+              </select>
+              {binding?.type === "formula" && (
+                <input
+                  type="text"
+                  className="field-value-input field-mapping-formula"
+                  value={binding.formula}
+                  placeholder="例如：{品牌} {商品名称}"
+                  onChange={(e) => updateBinding(f.name, { type: "formula", formula: e.target.value })}
+                />
+              )}
+              {binding?.type === "expression" && (
+                <input
+                  type="text"
+                  className="field-value-input field-mapping-formula"
+                  value={binding.expression}
+                  placeholder="例如：round(({JD前台价} - {单促价1}) / {JD前台价} * 100)"
+                  onChange={(e) => updateBinding(f.name, { type: "expression", expression: e.target.value })}
+                />
+              )}
+              {binding && (previewError ? (
+                <div className="field-mapping-preview field-mapping-error" title={previewError}>
+                  首行计算失败：{previewError}
+                </div>
+              ) : (
+                <div className="field-mapping-preview" title={previewValue}>
+                  首行预览：{previewValue || <em>（空）</em>}
+                </div>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+
+      <button
+        className="btn btn-primary btn-small"
+        onClick={onApply}
+        disabled={boundCount === 0 || rows.length === 0}
+      >
+        应用映射，生成 {rows.length} 条数据
+      </button>
+    </div>
+  );
+};
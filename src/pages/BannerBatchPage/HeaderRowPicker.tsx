@@ -0,0 +1,63 @@
+import React from "react";
+
+interface HeaderRowPickerProps {
+  rows: string[][];             // sheet 开头的可见行
+  headerRowIndex: number;       // 当前使用的表头行（可见行索引）
+  isManual: boolean;            // 是否为手动指定
+  onSelect: (rowIndex: number) => void;
+  onReset: () => void;
+}
+
+// 预览中最多显示的列数
+const MAX_PREVIEW_COLUMNS = 8;
+
+/**
+ * 手动选择表头行：显示 sheet 开头的几行，点击某一行把它作为表头
+ */
+export const HeaderRowPicker: React.FC<HeaderRowPickerProps> = ({
+  rows,
+  headerRowIndex,
+  isManual,
+  onSelect,
+  onReset,
+}) => {
+  if (rows.length === 0) {
+    return <p style={{ color: "#999", fontSize: 12 }}>该 sheet 没有可见行</p>;
+  }
+
+  return (
+    <div className="header-row-picker">
+      <div className="field-mapping-toolbar">
+        <span className="field-mapping-summary">
+          当前表头：第 {headerRowIndex + 1} 行（{isManual ? "手动指定" : "自动检测"}）
+        </span>
+        {isManual && (
+          <button className="btn btn-secondary btn-tiny" onClick={onReset}>
+            恢复自动检测
+          </button>
+        )}
+      </div>
+
+      <div className="header-row-table-wrapper">
+        <table className="header-row-table">
+          <tbody>
+            {rows.map((row, rowIndex) => (
+              <tr
+                key={rowIndex}
+                className={rowIndex === headerRowIndex ? "selected" : ""}
+                onClick={() => onSelect(rowIndex)}
+                title="点击设为表头行"
+              >
+                <th>{rowIndex + 1}</th>
+                {row.slice(0, MAX_PREVIEW_COLUMNS).map((cell, colIndex) => (
+                  <td key={colIndex}>{cell}</td>
+                ))}
+                {row.length > MAX_PREVIEW_COLUMNS && <td>…</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
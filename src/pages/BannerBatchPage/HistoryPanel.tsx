@@ -0,0 +1,62 @@
+import React from "react";
+import { HistoryEntry } from "./hooks/useEditHistory";
+
+interface HistoryPanelProps {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  onUndo: () => void;
+  onRedo: () => void;
+  onGoTo: (entryId: number) => void;
+}
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+/**
+ * 修改历史：最近的修改在最上面，已撤销的步骤显示为灰色，点击任意一步可回到该步之后的状态
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  past,
+  future,
+  onUndo,
+  onRedo,
+  onGoTo,
+}) => {
+  const renderEntry = (entry: HistoryEntry, undone: boolean, isCurrent: boolean) => (
+    <li
+      key={entry.id}
+      className={`history-item ${undone ? "undone" : ""} ${isCurrent ? "current" : ""}`}
+      onClick={() => onGoTo(entry.id)}
+      title="回到这一步之后的状态"
+    >
+      <span className="history-label">
+        {entry.rowIndex !== undefined && <span className="history-row">#{entry.rowIndex + 1}</span>}
+        {entry.label}
+      </span>
+      <span className="history-time">{formatTime(entry.timestamp)}</span>
+    </li>
+  );
+
+  return (
+    <div className="history-panel">
+      <div className="field-mapping-toolbar">
+        <button className="btn btn-secondary btn-tiny" onClick={onUndo} disabled={past.length === 0}>
+          ↶ 撤销
+        </button>
+        <button className="btn btn-secondary btn-tiny" onClick={onRedo} disabled={future.length === 0}>
+          ↷ 重做
+        </button>
+        <span className="field-mapping-summary">Ctrl+Z / Ctrl+Shift+Z</span>
+      </div>
+
+      {past.length === 0 && future.length === 0 ? (
+        <p style={{ color: "#999", fontSize: 12 }}>暂无修改</p>
+      ) : (
+        <ul className="history-list">
+          {[...future].reverse().map(entry => renderEntry(entry, true, false))}
+          {[...past].reverse().map((entry, idx) => renderEntry(entry, false, idx === 0))}
+        </ul>
+      )}
+    </div>
+  );
+};
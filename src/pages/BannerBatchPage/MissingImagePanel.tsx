@@ -0,0 +1,58 @@
+import React from "react";
+import { TemplateField } from "./types";
+import {
+  DEFAULT_MISSING_IMAGE_POLICY,
+  MISSING_IMAGE_POLICY_LABELS,
+  MissingImagePolicies,
+  MissingImagePolicy,
+} from "./missingImages";
+
+interface MissingImagePanelProps {
+  fields: TemplateField[];          // 模板中的图片字段
+  policies: MissingImagePolicies;
+  onChange: (policies: MissingImagePolicies) => void;
+  disabled?: boolean;
+}
+
+// 模板自带的图片（没有绑定字段，如 logo、背景）使用空字段名
+const TEMPLATE_IMAGE_KEY = "";
+
+/**
+ * 缺图处理：按图片字段选择图片加载失败时的处理方式
+ */
+export const MissingImagePanel: React.FC<MissingImagePanelProps> = ({
+  fields,
+  policies,
+  onChange,
+  disabled,
+}) => {
+  const rows = [
+    ...fields.map(f => ({ key: f.name, label: f.label || f.name })),
+    { key: TEMPLATE_IMAGE_KEY, label: "模板自带图片" },
+  ];
+
+  const update = (key: string, policy: MissingImagePolicy) => onChange({ ...policies, [key]: policy });
+
+  return (
+    <div className="export-settings">
+      {rows.map(({ key, label }) => (
+        <label key={key || "__template__"} className="export-settings-row">
+          <span title={key}>{label}</span>
+          <select
+            className="field-mapping-select"
+            value={policies[key] || DEFAULT_MISSING_IMAGE_POLICY}
+            disabled={disabled}
+            onChange={(e) => update(key, e.target.value as MissingImagePolicy)}
+          >
+            {(Object.keys(MISSING_IMAGE_POLICY_LABELS) as MissingImagePolicy[]).map((policy) => (
+              <option key={policy} value={policy}>{MISSING_IMAGE_POLICY_LABELS[policy]}</option>
+            ))}
+          </select>
+        </label>
+      ))}
+      <p className="asset-library-hint">
+        图片加载失败时：阻止导出会跳过该行并在生成后列出；占位图和隐藏会照常导出，并在数据校验中提示
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React from "react";
+import { SheetSummary, SHEET_SOURCE_COLUMN } from "../../utils/excelImport";
+import { SheetKind } from "../../utils/offerDetector";
+
+interface SheetPickerProps {
+  sheets: SheetSummary[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  onImport: () => void;
+}
+
+const SHEET_KIND_LABELS: Record<SheetKind, string> = {
+  MULTIROW_PRODUCT: "多行产品",
+  ROW_PER_SKU: "单行产品",
+  UNKNOWN: "无法识别",
+};
+
+/**
+ * Excel sheet 选择：列出所有 sheet 的类型和行数，可勾选多个合并导入
+ */
+export const SheetPicker: React.FC<SheetPickerProps> = ({
+  sheets,
+  selected,
+  onChange,
+  onImport,
+}) => {
+  const toggle = (sheetName: string) => {
+    onChange(
+      selected.includes(sheetName)
+        ? selected.filter(name => name !== sheetName)
+        : sheets.map(s => s.sheetName).filter(name => name === sheetName || selected.includes(name))
+    );
+  };
+
+  const importable = sheets.filter(s => s.sheetKind !== "UNKNOWN");
+
+  return (
+    <div className="sheet-picker">
+      <div className="field-mapping-toolbar">
+        <button
+          className="btn btn-secondary btn-tiny"
+          onClick={() => onChange(importable.filter(s => !s.hidden).map(s => s.sheetName))}
+        >
+          全选可识别
+        </button>
+        <button className="btn btn-secondary btn-tiny" onClick={() => onChange([])}>
+          清空
+        </button>
+        <span className="field-mapping-summary">已选 {selected.length}/{sheets.length}</span>
+      </div>
+
+      <ul className="sheet-picker-list">
+        {sheets.map((sheet) => {
+          const unknown = sheet.sheetKind === "UNKNOWN";
+          return (
+            <li key={sheet.sheetName} className={`sheet-picker-item ${unknown ? "unknown" : ""}`}>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(sheet.sheetName)}
+                  disabled={unknown}
+                  onChange={() => toggle(sheet.sheetName)}
+                />
+                <span className="sheet-picker-name">{sheet.sheetName}</span>
+                {sheet.hidden && <span className="sheet-picker-tag">隐藏</span>}
+              </label>
+              <span className="sheet-picker-meta">
+                {SHEET_KIND_LABELS[sheet.sheetKind]} · {sheet.rowCount} 行
+                {!unknown && ` · ${sheet.productCount} 个产品`}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button
+        className="btn btn-primary btn-small"
+        onClick={onImport}
+        disabled={selected.length === 0}
+      >
+        导入所选 sheet
+      </button>
+      {selected.length > 1 && (
+        <p style={{ color: "#999", fontSize: 12, margin: 0 }}>
+          多个 sheet 会合并为一份数据，并添加 {SHEET_SOURCE_COLUMN} 列记录来源 sheet
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from "react";
+import { BannerData } from "../../types";
+import { ValidationIssue, groupIssuesByRow } from "./validation";
+
+interface ValidationReportProps {
+  issues: ValidationIssue[];
+  rows: BannerData[];
+  activeIndex: number;
+  onJumpToRow: (rowIndex: number) => void;
+  onGenerateAnyway?: () => void;   // 有错误时仍然生成（只在生成被拦截后显示）
+}
+
+/**
+ * 批量生成前的数据校验报告：按行列出问题，点击可跳转到对应数据的预览
+ */
+export const ValidationReport: React.FC<ValidationReportProps> = ({
+  issues,
+  rows,
+  activeIndex,
+  onJumpToRow,
+  onGenerateAnyway,
+}) => {
+  const errorCount = issues.filter(i => i.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+  const groups = groupIssuesByRow(issues);
+
+  if (issues.length === 0) {
+    return <div className="info-text"><strong>✓ 所有数据校验通过</strong></div>;
+  }
+
+  return (
+    <div className="validation-report">
+      <div className="validation-summary">
+        {errorCount > 0 && <span className="validation-badge validation-badge-error">{errorCount} 个错误</span>}
+        {warningCount > 0 && <span className="validation-badge validation-badge-warning">{warningCount} 个提示</span>}
+        <span className="field-mapping-summary">涉及 {groups.size} 条数据</span>
+      </div>
+
+      <ul className="validation-list">
+        {Array.from(groups.entries()).map(([rowIndex, rowIssues]) => {
+          const row = rows[rowIndex];
+          const rowLabel = row?.id ? `#${rowIndex + 1}（${row.id}）` : `#${rowIndex + 1}`;
+
+          return (
+            <li
+              key={rowIndex}
+              className={`validation-row ${rowIndex === activeIndex ? "active" : ""}`}
+            >
+              <div className="validation-row-header">
+                <strong>第 {rowLabel} 条</strong>
+                <button className="btn btn-secondary btn-tiny" onClick={() => onJumpToRow(rowIndex)}>
+                  定位
+                </button>
+              </div>
+              {rowIssues.map((issue, idx) => (
+                <div key={idx} className={`validation-issue validation-issue-${issue.severity}`}>
+                  {issue.severity === "error" ? "✗" : "!"} {issue.message}
+                </div>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+
+      {errorCount > 0 && onGenerateAnyway && (
+        <button className="btn btn-secondary btn-small" onClick={onGenerateAnyway}>
+          忽略错误，仍然生成
+        </button>
+      )}
+    </div>
+  );
+};
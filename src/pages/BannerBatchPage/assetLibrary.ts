@@ -0,0 +1,383 @@
+/**
+ * 图片素材库：拖入一个文件夹的产品图，按文件名、SKU 编码和文件夹建立索引，
+ * 把数据中图片字段的引用（文件名、SKU、商品名称等）解析为素材库中的图片
+ *
+ * 匹配顺序：
+ * 1. 精确：引用与文件路径或文件名（可不带扩展名）相同
+ * 2. SKU：引用或该行的 SKU/id 字段中的编码出现在文件名或文件夹名中
+ * 3. 模糊：名称相似度（字符二元组），用于"主图brief"中写商品名称的情况
+ *
+ * 同名文件、多个 SKU 命中或相似度不够高时需要在页面上确认（status 为 ambiguous）
+ */
+import { BannerData } from "../../types";
+
+export interface ImageAsset {
+  path: string;        // 相对路径（拖入文件夹时包含文件夹名），作为素材的唯一标识
+  fileName: string;    // 文件名
+  folder: string;      // 所在文件夹（相对路径），没有时为空字符串
+  name: string;        // 归一化后的文件名（不含扩展名），用于匹配
+  skuCodes: string[];  // 文件名和文件夹名中的 SKU 编码
+  file: File;
+  url: string;         // Object URL（用于缩略图预览）
+}
+
+export type AssetMatchKind = "exact" | "sku" | "fuzzy";
+
+export interface AssetCandidate {
+  asset: ImageAsset;
+  kind: AssetMatchKind;
+  score: number;       // 0-1，精确匹配为 1
+}
+
+export type AssetResolutionStatus = "matched" | "ambiguous" | "unmatched";
+
+// 一个引用的解析结果（相同引用 + 相同 SKU 的多行合并为一条）
+export interface AssetResolution {
+  key: string;                   // 引用 + 该行的 SKU 编码，用于合并和记住选择
+  reference: string;             // 数据中的原始值
+  targets: Array<{ rowIndex: number; field: string; itemIndex?: number }>;  // 使用该引用的位置（数组字段带下标）
+  candidates: AssetCandidate[];  // 按匹配程度排序，最多 MAX_CANDIDATES 个
+  status: AssetResolutionStatus;
+}
+
+export const IMAGE_FILE_PATTERN = /\.(png|jpe?g|gif|webp|avif|bmp|svg)$/i;
+
+const MAX_CANDIDATES = 5;
+// 模糊匹配：低于 FUZZY_MIN 不作为候选；最高分达到 FUZZY_ACCEPT 且明显高于第二名时自动采用
+const FUZZY_MIN = 0.4;
+const FUZZY_ACCEPT = 0.75;
+const FUZZY_MARGIN = 0.15;
+
+const STORAGE_KEY = "bannergen:assetChoices";
+
+/**
+ * 归一化名称：全角转半角、小写、去掉扩展名、空白和符号
+ */
+export const normalizeAssetName = (text: string): string =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(IMAGE_FILE_PATTERN, "")
+    .replace(/[\s_\-.,，。、·:：;；'"“”‘’()（）【】[\]{}<>《》/\\|+&]+/g, "");
+
+/**
+ * 提取 SKU 编码：6 位以上、至少包含 5 个数字的字母数字串（如 100012345678、SK2023001）
+ */
+export const extractSkuCodes = (text: string): string[] => {
+  const codes = text.normalize("NFKC").toUpperCase().match(/[A-Z0-9]{6,}/g) || [];
+  return Array.from(new Set(codes.filter(code => (code.match(/\d/g) || []).length >= 5)));
+};
+
+/**
+ * 该行中可能是 SKU 的字段（id、字段名含 sku / 编码）的编码
+ */
+const rowSkuCodes = (row: BannerData): string[] => {
+  const values = Object.entries(row)
+    .filter(([key, value]) => (key === "id" || /sku|编码/i.test(key)) && (typeof value === "string" || typeof value === "number"))
+    .map(([, value]) => String(value));
+  return Array.from(new Set(values.flatMap(extractSkuCodes)));
+};
+
+/**
+ * 建立素材索引（非图片文件会被忽略）
+ * @param files - 文件和相对路径（拖入文件夹时由 readDroppedFiles 提供，选择文件夹时为 webkitRelativePath）
+ */
+export const buildAssetLibrary = (files: Array<{ file: File; path: string }>): ImageAsset[] =>
+  files
+    .filter(({ file }) => IMAGE_FILE_PATTERN.test(file.name))
+    .map(({ file, path }) => {
+      const normalizedPath = path.replace(/^\/+/, "") || file.name;
+      const folder = normalizedPath.includes("/") ? normalizedPath.slice(0, normalizedPath.lastIndexOf("/")) : "";
+      return {
+        path: normalizedPath,
+        fileName: file.name,
+        folder,
+        name: normalizeAssetName(file.name),
+        skuCodes: extractSkuCodes(`${folder} ${file.name.replace(IMAGE_FILE_PATTERN, "")}`),
+        file,
+        url: URL.createObjectURL(file),
+      };
+    });
+
+/**
+ * 合并素材库（相同路径的文件以新加入的为准）
+ */
+export const mergeAssetLibraries = (current: ImageAsset[], added: ImageAsset[]): ImageAsset[] => {
+  const paths = new Set(added.map(a => a.path));
+  current.filter(a => paths.has(a.path)).forEach(a => URL.revokeObjectURL(a.url));
+  return [...current.filter(a => !paths.has(a.path)), ...added];
+};
+
+/**
+ * 释放素材库的 Object URL
+ */
+export const releaseAssetLibrary = (assets: ImageAsset[]): void => {
+  assets.forEach(a => URL.revokeObjectURL(a.url));
+};
+
+const bigrams = (text: string): string[] => {
+  if (text.length < 2) return text ? [text] : [];
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    result.push(text.slice(i, i + 2));
+  }
+  return result;
+};
+
+/**
+ * 名称相似度（0-1）：字符二元组的 Dice 系数；一方包含另一方时按长度比例给出较高的分数
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const shorter = a.length <= b.length ? a : b;
+  const longer = a.length <= b.length ? b : a;
+  const containment = shorter.length >= 2 && longer.includes(shorter) ? 0.6 + 0.4 * (shorter.length / longer.length) : 0;
+
+  const pairsA = bigrams(a);
+  const pairsB = bigrams(b);
+  const counts = new Map<string, number>();
+  pairsB.forEach(p => counts.set(p, (counts.get(p) || 0) + 1));
+  let overlap = 0;
+  pairsA.forEach((p) => {
+    const count = counts.get(p) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(p, count - 1);
+    }
+  });
+  const dice = (2 * overlap) / (pairsA.length + pairsB.length);
+
+  return Math.max(dice, containment);
+};
+
+/**
+ * 查找一个引用的候选素材，并判断能否自动采用
+ * @param skuHints - 该行的 SKU 编码（引用本身没有编码时使用）
+ */
+export const findAssetCandidates = (
+  reference: string,
+  assets: ImageAsset[],
+  skuHints: string[] = []
+): { candidates: AssetCandidate[]; status: AssetResolutionStatus } => {
+  const trimmed = reference.trim().replace(/^\.\//, "");
+  const lower = trimmed.toLowerCase();
+  const name = normalizeAssetName(trimmed.split("/").pop() || trimmed);
+
+  // 1. 精确匹配（路径、文件名、不含扩展名的文件名）
+  const exact = assets.filter(a =>
+    a.path.toLowerCase() === lower ||
+    a.path.toLowerCase().endsWith(`/${lower}`) ||
+    a.fileName.toLowerCase() === lower ||
+    (name && a.name === name)
+  );
+  if (exact.length > 0) {
+    return {
+      candidates: exact.slice(0, MAX_CANDIDATES).map(asset => ({ asset, kind: "exact", score: 1 })),
+      status: exact.length === 1 ? "matched" : "ambiguous",
+    };
+  }
+
+  // 2. SKU 匹配（引用中的编码优先，其次该行的 SKU 字段）
+  const ownCodes = extractSkuCodes(trimmed);
+  const codes = ownCodes.length > 0 ? ownCodes : skuHints;
+  const bySku = assets.filter(a => a.skuCodes.some(code => codes.includes(code)));
+  if (bySku.length > 0) {
+    const candidates = bySku
+      .map(asset => ({ asset, kind: "sku" as const, score: ownCodes.length > 0 ? 1 : 0.95 }))
+      // 多个 SKU 命中（如正面/侧面图）时名称更接近的排在前面
+      .sort((x, y) => nameSimilarity(name, y.asset.name) - nameSimilarity(name, x.asset.name))
+      .slice(0, MAX_CANDIDATES);
+    return { candidates, status: bySku.length === 1 ? "matched" : "ambiguous" };
+  }
+
+  // 3. 模糊匹配（同时比较"文件夹 + 文件名"，文件夹常按商品命名）
+  const fuzzy = assets
+    .map(asset => ({
+      asset,
+      kind: "fuzzy" as const,
+      score: Math.max(
+        nameSimilarity(name, asset.name),
+        nameSimilarity(name, normalizeAssetName(`${asset.folder}${asset.fileName}`))
+      ),
+    }))
+    .filter(c => c.score >= FUZZY_MIN)
+    .sort((x, y) => y.score - x.score)
+    .slice(0, MAX_CANDIDATES);
+
+  if (fuzzy.length === 0) return { candidates: [], status: "unmatched" };
+  const [best, second] = fuzzy;
+  const confident = best.score >= FUZZY_ACCEPT && (!second || best.score - second.score >= FUZZY_MARGIN);
+  return { candidates: fuzzy, status: confident ? "matched" : "ambiguous" };
+};
+
+/**
+ * 图片地址可以直接加载（不需要从素材库解析）
+ */
+const isLoadableUrl = (value: string): boolean => /^(data:|blob:|https?:\/\/|\/\/)/i.test(value);
+
+/**
+ * 解析所有数据行中图片字段（字段名含 _src）的引用，相同引用合并为一条
+ * 第一个空对象是纯模板占位，跳过
+ */
+export const resolveAssetReferences = (rows: BannerData[], assets: ImageAsset[]): AssetResolution[] => {
+  const resolutions = new Map<string, AssetResolution>();
+
+  rows.forEach((row, rowIndex) => {
+    if (rowIndex === 0 && Object.keys(row).length === 0) return;
+    const skuHints = rowSkuCodes(row);
+
+    Object.entries(row).forEach(([field, value]) => {
+      if (!field.includes("_src")) return;
+      const references = Array.isArray(value)
+        ? value.map((v, itemIndex) => ({ reference: String(v), itemIndex }))
+        : [{ reference: value === undefined ? "" : String(value), itemIndex: undefined }];
+
+      references.forEach(({ reference, itemIndex }) => {
+        if (!reference.trim() || isLoadableUrl(reference)) return;
+
+        // 引用本身带 SKU 时与行无关，否则同一引用在不同 SKU 的行中可能对应不同图片
+        const hints = extractSkuCodes(reference).length > 0 ? [] : skuHints;
+        const key = [reference.trim(), ...hints].join("\u0001");
+        const existing = resolutions.get(key);
+        if (existing) {
+          existing.targets.push({ rowIndex, field, itemIndex });
+          return;
+        }
+        resolutions.set(key, {
+          key,
+          reference: reference.trim(),
+          targets: [{ rowIndex, field, itemIndex }],
+          ...findAssetCandidates(reference, assets, hints),
+        });
+      });
+    });
+  });
+
+  return Array.from(resolutions.values());
+};
+
+/**
+ * 每个引用最终采用的素材路径：用户的选择优先，其次自动匹配（需要确认的引用默认不替换）
+ * 选择 "" 表示不替换
+ */
+export const getChosenAssetPath = (resolution: AssetResolution, choices: Record<string, string>): string => {
+  if (resolution.key in choices) {
+    const chosen = choices[resolution.key];
+    // 记住的素材已不在候选中（素材库变了）时回到自动匹配
+    if (chosen === "" || resolution.candidates.some(c => c.asset.path === chosen)) return chosen;
+  }
+  return resolution.status === "matched" ? resolution.candidates[0].asset.path : "";
+};
+
+/**
+ * 把采用的素材写入数据行（返回新数组，未变化的行保持原对象）
+ * @param urls - 素材路径 → 图片地址（Data URL，保存项目后仍然可用）
+ */
+export const applyAssetResolutions = (
+  rows: BannerData[],
+  resolutions: AssetResolution[],
+  choices: Record<string, string>,
+  urls: Record<string, string>
+): BannerData[] => {
+  const next = rows.slice();
+  const copied = new Set<number>();
+
+  resolutions.forEach((resolution) => {
+    const url = urls[getChosenAssetPath(resolution, choices)];
+    if (!url) return;
+
+    resolution.targets.forEach(({ rowIndex, field, itemIndex }) => {
+      if (!copied.has(rowIndex)) {
+        next[rowIndex] = { ...next[rowIndex] };
+        copied.add(rowIndex);
+      }
+      const row = next[rowIndex];
+      const value = row[field];
+      if (itemIndex !== undefined && Array.isArray(value)) {
+        const list = value.slice();
+        list[itemIndex] = url;
+        row[field] = list;
+      } else {
+        row[field] = url;
+      }
+    });
+  });
+
+  return next;
+};
+
+/**
+ * 读取素材为 Data URL
+ */
+export const readAssetAsDataUrl = (asset: ImageAsset): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(new Error(`读取图片失败：${asset.path}`));
+    reader.readAsDataURL(asset.file);
+  });
+
+/**
+ * 读取拖入的文件和文件夹（递归展开文件夹，保留相对路径）
+ */
+export const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<Array<{ file: File; path: string }>> => {
+  const result: Array<{ file: File; path: string }> = [];
+
+  const readEntry = async (entry: FileSystemEntry, parent: string): Promise<void> => {
+    const path = parent ? `${parent}/${entry.name}` : entry.name;
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      result.push({ file, path });
+      return;
+    }
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries 每次只返回一部分，读到空数组为止
+      for (;;) {
+        const entries = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (entries.length === 0) break;
+        for (const child of entries) {
+          await readEntry(child, path);
+        }
+      }
+    }
+  };
+
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }));
+  }
+  for (const entry of entries) {
+    await readEntry(entry, "");
+  }
+  return result;
+};
+
+/**
+ * 读取保存过的匹配选择（引用 → 素材路径）
+ */
+export const loadAssetChoices = (): Record<string, string> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  } catch (e) {
+    console.warn("读取图片匹配选择失败:", e);
+    return {};
+  }
+};
+
+/**
+ * 保存匹配选择，下次遇到相同引用时直接使用
+ */
+export const saveAssetChoices = (choices: Record<string, string>): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(choices));
+  } catch (e) {
+    console.warn("保存图片匹配选择失败:", e);
+  }
+};
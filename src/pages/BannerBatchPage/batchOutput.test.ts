@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import JSZip from "jszip";
+import { AUTO_ZIP_CHUNK_SIZE_MB, createZipOutput } from "./batchOutput";
+
+const downloads: string[] = [];
+
+beforeEach(() => {
+  downloads.length = 0;
+  URL.createObjectURL = vi.fn(() => "blob:zip");
+  URL.revokeObjectURL = vi.fn();
+  vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(function (this: HTMLAnchorElement) {
+    downloads.push(this.download);
+  });
+  vi.spyOn(JSZip.prototype, "generateAsync").mockResolvedValue(new Blob(["zip"]) as never);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const MB = 1024 * 1024;
+const file = (size: number) => "x".repeat(size);
+
+describe("createZipOutput", () => {
+  it("不超过自动分卷大小时打包为一个 ZIP", async () => {
+    const output = createZipOutput("banners", null);
+    await output.addFile("a.png", file(10));
+    await output.addFile("b.png", file(10));
+    expect(await output.finish()).toEqual({ summary: "已打包为 ZIP 文件", failures: [] });
+    expect(downloads).toEqual(["banners.zip"]);
+  });
+
+  it("没有设置分卷大小时超过自动分卷大小也会分卷", async () => {
+    const output = createZipOutput("banners", null);
+    await output.addFile("a.png", file(AUTO_ZIP_CHUNK_SIZE_MB * MB));
+    await output.addFile("b.png", file(10));
+    expect((await output.finish()).summary).toBe("已打包为 2 个 ZIP 文件");
+    expect(downloads).toEqual(["banners_part1.zip", "banners_part2.zip"]);
+  });
+
+  it("设置了分卷大小时按大小分卷", async () => {
+    const output = createZipOutput("banners", 1);
+    await output.addFile("a.png", file(MB));
+    await output.addFile("b.png", file(MB));
+    await output.addFile("c.png", file(10));
+    await output.finish();
+    expect(downloads).toEqual(["banners_part1.zip", "banners_part2.zip", "banners_part3.zip"]);
+  });
+
+  it("某一卷打包失败时后面的分卷照常下载，并说明失败的分卷", async () => {
+    vi.mocked(JSZip.prototype.generateAsync).mockRejectedValueOnce(new Error("内存不足"));
+    const output = createZipOutput("banners", 1);
+    await output.addFile("a.png", file(MB));
+    await output.addFile("b.png", file(MB));
+    const result = await output.finish();
+    expect(downloads).toEqual(["banners_part2.zip"]);
+    expect(result).toEqual({
+      summary: "已打包为 1 个 ZIP 文件",
+      failures: ["banners_part1.zip 打包失败（内存不足）"],
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * 批量生成的输出目标：ZIP 下载（可按大小分卷）或直接写入本地文件夹
+ *
+ * - ZIP：文件先加入当前分卷，累计大小超过分卷上限时立即打包下载并释放，内存占用不超过一个分卷；
+ *   没有设置分卷大小时超过 AUTO_ZIP_CHUNK_SIZE_MB 自动分卷，整批不超过时仍为一个 ZIP
+ * - 文件夹：使用 File System Access API（Chrome / Edge）逐个写入选择的文件夹，不在内存中保留图片
+ */
+import JSZip from "jszip";
+
+// 没有设置分卷大小时自动分卷的大小（MB）
+export const AUTO_ZIP_CHUNK_SIZE_MB = 200;
+
+export interface BatchOutputResult {
+  summary: string;      // 结果说明（如 "已打包为 ZIP 文件"）
+  failures: string[];   // 打包失败的分卷（其他分卷照常下载）
+}
+
+export interface BatchOutput {
+  // 写入一个文件，path 可以包含子目录（如 "750x400/a.png"）
+  addFile: (path: string, data: Blob | string) => Promise<void>;
+  // 写入剩余的文件
+  finish: () => Promise<BatchOutputResult>;
+  // 取消：丢弃还没有打包的文件（已下载的分卷 / 已写入的文件保留）
+  abort: () => void;
+}
+
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { mode?: "read" | "readwrite" }) => Promise<FileSystemDirectoryHandle>;
+};
+
+/**
+ * 当前浏览器是否支持直接写入文件夹
+ */
+export const isFolderOutputSupported = (): boolean =>
+  typeof window !== "undefined" && typeof (window as DirectoryPickerWindow).showDirectoryPicker === "function";
+
+/**
+ * 选择输出文件夹（需要在用户点击中调用）；用户取消时返回 null
+ */
+export async function pickOutputFolder(): Promise<FileSystemDirectoryHandle | null> {
+  const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+  if (!picker) {
+    throw new Error("当前浏览器不支持写入文件夹，请使用 Chrome 或 Edge，或改为 ZIP 下载");
+  }
+  try {
+    return await picker({ mode: "readwrite" });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "AbortError") return null;
+    throw e;
+  }
+}
+
+/**
+ * 下载 Blob
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const a = document.createElement("a");
+  a.href = URL.createObjectURL(blob);
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(a.href);
+}
+
+/**
+ * ZIP 输出：archiveName 不含扩展名；设置了 chunkSizeMB 时分卷命名为 {archiveName}_part1.zip ...
+ * chunkSizeMB 为空时按 AUTO_ZIP_CHUNK_SIZE_MB 自动分卷（只有一卷时命名为 {archiveName}.zip）
+ * 某一卷打包失败时记录下来，不影响后面的分卷
+ */
+export function createZipOutput(archiveName: string, chunkSizeMB: number | null): BatchOutput {
+  const chunkBytes = (chunkSizeMB ?? AUTO_ZIP_CHUNK_SIZE_MB) * 1024 * 1024;
+  let zip = new JSZip();
+  let pendingBytes = 0;
+  let pendingFiles = 0;
+  let partCount = 0;
+  const failures: string[] = [];
+  // 分卷打包是异步的，按顺序下载
+  let flushing: Promise<void> = Promise.resolve();
+
+  // last：最后一卷（finish 时），自动分卷且只有一卷时不加 _part1
+  const flush = (last: boolean) => {
+    if (pendingFiles === 0) return flushing;
+    const current = zip;
+    const part = ++partCount;
+    const fileName = chunkSizeMB || !last || part > 1 ? `${archiveName}_part${part}.zip` : `${archiveName}.zip`;
+    zip = new JSZip();
+    pendingBytes = 0;
+    pendingFiles = 0;
+    flushing = flushing.then(async () => {
+      try {
+        const blob = await current.generateAsync({ type: "blob" });
+        downloadBlob(blob, fileName);
+      } catch (e) {
+        failures.push(`${fileName} 打包失败（${e instanceof Error ? e.message : String(e)}）`);
+      }
+    });
+    return flushing;
+  };
+
+  return {
+    addFile: async (path, data) => {
+      zip.file(path, data);
+      pendingBytes += typeof data === "string" ? data.length : data.size;
+      pendingFiles++;
+      if (pendingBytes >= chunkBytes) {
+        await flush(false);
+      }
+    },
+    finish: async () => {
+      await flush(true);
+      const downloaded = partCount - failures.length;
+      const summary = downloaded === 0
+        ? "ZIP 打包失败"
+        : partCount > 1 ? `已打包为 ${downloaded} 个 ZIP 文件` : "已打包为 ZIP 文件";
+      return { summary, failures: [...failures] };
+    },
+    abort: () => {
+      zip = new JSZip();
+      pendingBytes = 0;
+      pendingFiles = 0;
+    },
+  };
+}
+
+/**
+ * 文件夹输出：逐个写入选择的文件夹（子目录按需创建）
+ */
+export function createFolderOutput(root: FileSystemDirectoryHandle): BatchOutput {
+  const directories = new Map<string, Promise<FileSystemDirectoryHandle>>();
+
+  const getDirectory = (segments: string[]): Promise<FileSystemDirectoryHandle> => {
+    if (segments.length === 0) return Promise.resolve(root);
+    const key = segments.join("/");
+    let handle = directories.get(key);
+    if (!handle) {
+      handle = getDirectory(segments.slice(0, -1))
+        .then(parent => parent.getDirectoryHandle(segments[segments.length - 1], { create: true }));
+      directories.set(key, handle);
+    }
+    return handle;
+  };
+
+  return {
+    addFile: async (path, data) => {
+      const segments = path.split("/").filter(Boolean);
+      const fileName = segments.pop();
+      if (!fileName) return;
+      const dir = await getDirectory(segments);
+      const fileHandle = await dir.getFileHandle(fileName, { create: true });
+      const writable = await fileHandle.createWritable();
+      try {
+        await writable.write(data);
+      } finally {
+        await writable.close();
+      }
+    },
+    finish: async () => ({ summary: `已保存到文件夹「${root.name}」`, failures: [] }),
+    abort: () => undefined,
+  };
+}
@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { BannerData } from "../../types";
+import { applyJsonDataToIframe, resolveRowData } from "./dataApplier";
+import { extractTemplateFields } from "./htmlUtils";
+import { summarizeValues } from "./manifest";
+
+const TEMPLATE = `
+  <div class="container">
+    <h1 data-field="title"></h1>
+    <span data-field="price"></span>
+    <span data-field="final_price" data-expr="price - coupon"></span>
+    <span data-field="label" data-expr='title + " 到手" + final_price'></span>
+  </div>`;
+
+const createFrame = () => {
+  const iframe = document.createElement("iframe");
+  document.body.appendChild(iframe);
+  iframe.contentDocument!.body.innerHTML = TEMPLATE;
+  return iframe;
+};
+
+const textOf = (iframe: HTMLIFrameElement) =>
+  Object.fromEntries(
+    Array.from(iframe.contentDocument!.querySelectorAll<HTMLElement>("[data-field]"))
+      .map(el => [el.dataset.field!, el.textContent])
+  );
+
+const row: BannerData = { id: "7", title: "面霜", price: "199", coupon: "40" };
+const fields = extractTemplateFields(createFrame().contentDocument!);
+
+describe("resolveRowData", () => {
+  it("计算 data-expr 字段并合并编辑值", () => {
+    const { data, errors } = resolveRowData(row, fields, { coupon: "50" });
+    expect(errors).toEqual([]);
+    expect(data).toMatchObject({ coupon: "50", final_price: "149", label: "面霜 到手149" });
+  });
+
+  it("清单记录的值与图片中渲染的值相同", () => {
+    const edits = { title: "精华" };
+    const { data } = resolveRowData(row, fields, edits);
+    const iframe = createFrame();
+    applyJsonDataToIframe(iframe, data, 0, { 0: edits }, true);
+
+    const values = summarizeValues(data);
+    Object.entries(textOf(iframe)).forEach(([field, text]) => expect(String(values[field])).toBe(text));
+  });
+
+  it("预先计算后渲染与预览时的渲染结果相同", () => {
+    const edits = { coupon: "20" };
+    const preview = createFrame();
+    applyJsonDataToIframe(preview, row, 0, { 0: edits });
+
+    const exported = createFrame();
+    applyJsonDataToIframe(exported, resolveRowData(row, fields, edits).data, 0, { 0: edits }, true);
+    expect(textOf(exported)).toEqual(textOf(preview));
+  });
+
+  it("页面（数据 + 编辑值）和命令行（编辑后的数据）记录相同的值", () => {
+    const edits = { price: "299" };
+    const page = resolveRowData(row, fields, edits).data;
+    const cli = resolveRowData({ ...row, ...edits }, fields).data;
+    expect(summarizeValues(page)).toEqual(summarizeValues(cli));
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * 批量导出设置（格式、质量、文件大小上限、输出尺寸、倍率、并行渲染数、输出方式和文件命名），保存在 localStorage 中
+ */
+import { ExportFormat, ExportOptions, isExportFormatSupported } from "../../utils/htmlExport";
+import { TemplateVariant } from "./types";
+
+// 输出方式：ZIP 下载，或直接写入本地文件夹
+export type OutputTarget = "zip" | "folder";
+
+export interface ExportSettings {
+  format: ExportFormat;
+  quality: number;          // 0-1，仅有损格式生效
+  maxSizeKB: number | null; // 文件大小上限（KB），为空表示不限制
+  width: number | null;     // 自定义输出宽度（CSS 像素），为空时使用模板尺寸
+  height: number | null;    // 自定义输出高度（CSS 像素），为空时使用模板尺寸
+  scales: number[];         // 输出倍率，可同时导出多个（如 [1, 2]）
+  concurrency: number;      // 同时渲染的 iframe 数量
+  output: OutputTarget;
+  zipChunkSizeMB: number | null;  // ZIP 分卷大小（MB），为空时超过 AUTO_ZIP_CHUNK_SIZE_MB 自动分卷
+  fileNamePattern: string;  // 文件命名规则（见 fileNaming.ts），为空时使用默认命名
+  fileNameAsciiOnly: boolean;     // 文件名去掉中文等非 ASCII 字符
+  includeTemplateImage: boolean;  // 是否导出不带数据的纯模板图片
+}
+
+export const AVAILABLE_SCALES = [1, 2, 3];
+
+export const MAX_RENDER_CONCURRENCY = 6;
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "png",
+  quality: 0.92,
+  maxSizeKB: null,
+  width: null,
+  height: null,
+  scales: [1],
+  concurrency: 3,
+  output: "zip",
+  zipChunkSizeMB: null,
+  fileNamePattern: "",
+  fileNameAsciiOnly: false,
+  includeTemplateImage: true,
+};
+
+const STORAGE_KEY = "bannergen:exportSettings";
+
+/**
+ * 读取上次使用的导出设置
+ */
+export function loadExportSettings(): ExportSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    let settings: ExportSettings = raw ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_EXPORT_SETTINGS;
+    // 保存的格式当前浏览器不能编码时（如在另一个浏览器中选择了 AVIF）改为 PNG，"导出设置"中也不会列出该格式
+    if (!isExportFormatSupported(settings.format)) {
+      settings = { ...settings, format: DEFAULT_EXPORT_SETTINGS.format };
+    }
+    // 至少保留一个倍率
+    return settings.scales.length > 0 ? settings : { ...settings, scales: DEFAULT_EXPORT_SETTINGS.scales };
+  } catch (e) {
+    console.warn("读取导出设置失败:", e);
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+}
+
+/**
+ * 保存导出设置
+ */
+export function saveExportSettings(settings: ExportSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("保存导出设置失败:", e);
+  }
+}
+
+/**
+ * 计算输出尺寸（CSS 像素）：导出设置中的自定义尺寸优先，其次是模板声明的尺寸（HTML 文件名中的 750x400）
+ * 都没有时返回空，由导出时按节点实际尺寸计算
+ */
+export function resolveOutputSize(
+  settings: ExportSettings,
+  variant?: TemplateVariant | null
+): { width?: number; height?: number } {
+  if (settings.width && settings.height) {
+    return { width: settings.width, height: settings.height };
+  }
+  if (variant?.width && variant?.height) {
+    return { width: variant.width, height: variant.height };
+  }
+  return {};
+}
+
+/**
+ * 倍率对应的文件名后缀：1x 不加后缀，其他为 @2x / @3x
+ */
+export function getScaleSuffix(scale: number): string {
+  return scale === 1 ? "" : `@${scale}x`;
+}
+
+/**
+ * 转换为 exportNodeToBlob 的选项
+ */
+export function toExportOptions(
+  settings: ExportSettings,
+  fontEmbedCSS?: string,
+  outputSize: { width?: number; height?: number } = {},
+  scale = 1
+): ExportOptions {
+  return {
+    fontEmbedCSS,
+    format: settings.format,
+    quality: settings.quality,
+    maxBytes: settings.maxSizeKB ? settings.maxSizeKB * 1024 : undefined,
+    width: outputSize.width,
+    height: outputSize.height,
+    pixelRatio: scale,
+  };
+}
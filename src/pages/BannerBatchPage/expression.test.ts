@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { applyComputedFields, evaluateCondition, evaluateExpression } from "./expression";
+
+describe("evaluateExpression", () => {
+  it("计算字段和函数", () => {
+    expect(evaluateExpression("price * 2", { price: "9.95" })).toBe("19.9");
+    expect(evaluateExpression("round(price, 1)", { price: "9.95" })).toBe("10");
+    expect(evaluateExpression('ifEmpty(tag, "新品")', { tag: "" })).toBe("新品");
+  });
+
+  it("不能通过原型链调用原生函数", () => {
+    ["constructor(1)", "toString()", "valueOf(1)", 'hasOwnProperty("x")'].forEach((source) => {
+      expect(() => evaluateExpression(source, {})).toThrow(/未知函数/);
+    });
+  });
+
+  it("不能把原型上的属性当作字段", () => {
+    ["constructor", "toString", "__proto__"].forEach((source) => {
+      expect(() => evaluateExpression(source, {})).toThrow(/未知字段/);
+    });
+  });
+
+  it("数据中确实有同名字段时正常读取", () => {
+    expect(evaluateExpression("constructor", { constructor: "abc" })).toBe("abc");
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("空字符串、0、false 为假", () => {
+    expect(evaluateCondition("coupon > 0 && gift", { coupon: "20", gift: "小样" })).toBe(true);
+    expect(evaluateCondition("gift", { gift: "" })).toBe(false);
+  });
+});
+
+describe("applyComputedFields", () => {
+  it("出错的字段按字段返回，不抛出", () => {
+    const { data, errors } = applyComputedFields({ price: "100" }, [
+      { name: "final", label: "到手价", expr: "price - 20" },
+      { name: "bad", label: "错误", expr: "toString()" },
+    ]);
+    expect(data.final).toBe("80");
+    expect(errors.map(e => e.field)).toEqual(["bad"]);
+  });
+});
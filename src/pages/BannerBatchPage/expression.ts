@@ -0,0 +1,493 @@
+/**
+ * 计算字段的表达式语言（不使用 eval，只支持下面列出的语法和函数）
+ *
+ * - 字段/列名直接写名字：orig、price、商品名称；名字中有空格或符号时用 {列名}：{JD前台价}
+ * - 数字、字符串（"..." 或 '...'）、true / false
+ * - 运算：+ - * / %、== != < <= > >=、&& || !、条件 a ? b : c
+ *   两边都是数字时 + 为相加，否则为拼接（"省" + (orig - price) + "元"）
+ * - 函数：round(x, 位数)、floor、ceil、abs、min、max、num、fixed(x, 位数)、len、
+ *   if(条件, 是, 否)、ifEmpty(x, 默认值)、date(x, "M.D")、dateRange(x, "M.D", "-")
+ *
+ * 表达式出错（字段不存在、不是数字、除数为 0 等）时抛出带中文说明的 Error，由调用方按行收集
+ */
+import { BannerData } from "../../types";
+import { TemplateField } from "./types";
+
+type ExprNode =
+  | { type: "literal"; value: ExprValue }
+  | { type: "field"; name: string }
+  | { type: "unary"; op: "-" | "!"; arg: ExprNode }
+  | { type: "binary"; op: string; left: ExprNode; right: ExprNode }
+  | { type: "conditional"; test: ExprNode; consequent: ExprNode; alternate: ExprNode }
+  | { type: "call"; name: string; args: ExprNode[] };
+
+export type ExprValue = string | number | boolean;
+
+// 表达式中可以读取的值（一行数据）
+export type ExprScope = Record<string, unknown>;
+
+/**
+ * 只认对象自身的属性：字段和函数查找都不能走原型链（否则 constructor、toString 等会解析为原生函数）
+ */
+export const hasOwnKey = (obj: object, key: string): boolean => Object.prototype.hasOwnProperty.call(obj, key);
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "name"; value: string }
+  | { type: "op"; value: string };
+
+const OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "!", "?", ":", "(", ")", ","];
+const NAME_START = /[A-Za-z_一-龥]/;
+const NAME_PART = /[A-Za-z0-9_一-龥]/;
+
+/**
+ * 拆分为 token
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = source.slice(i).match(/^(\d+(\.\d+)?|\.\d+)/);
+      if (!match) throw new Error(`无法识别的数字（第 ${i + 1} 个字符）`);
+      tokens.push({ type: "number", value: Number(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) throw new Error("字符串缺少结束引号");
+      tokens.push({ type: "string", value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    // {列名}：名字中可以有空格和符号
+    if (ch === "{") {
+      const end = source.indexOf("}", i + 1);
+      if (end === -1) throw new Error("{列名} 缺少结束的 }");
+      tokens.push({ type: "name", value: source.slice(i + 1, end).trim() });
+      i = end + 1;
+      continue;
+    }
+
+    if (NAME_START.test(ch)) {
+      let end = i + 1;
+      while (end < source.length && NAME_PART.test(source[end])) end++;
+      tokens.push({ type: "name", value: source.slice(i, end) });
+      i = end;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) throw new Error(`无法识别的字符「${ch}」`);
+    tokens.push({ type: "op", value: op });
+    i += op.length;
+  }
+
+  return tokens;
+};
+
+/**
+ * 递归下降解析
+ */
+const parse = (source: string): ExprNode => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peekOp = (...ops: string[]): string | null => {
+    const token = tokens[pos];
+    return token?.type === "op" && ops.includes(token.value) ? token.value : null;
+  };
+  const expectOp = (op: string) => {
+    if (!peekOp(op)) throw new Error(`缺少「${op}」`);
+    pos++;
+  };
+
+  const binaryLevel = (ops: string[], next: () => ExprNode) => (): ExprNode => {
+    let left = next();
+    let op: string | null;
+    while ((op = peekOp(...ops))) {
+      pos++;
+      left = { type: "binary", op, left, right: next() };
+    }
+    return left;
+  };
+
+  const parsePrimary = (): ExprNode => {
+    const token = tokens[pos];
+    if (!token) throw new Error("表达式不完整");
+    pos++;
+
+    if (token.type === "number" || token.type === "string") {
+      return { type: "literal", value: token.value };
+    }
+    if (token.type === "name") {
+      if (token.value === "true" || token.value === "false") {
+        return { type: "literal", value: token.value === "true" };
+      }
+      if (peekOp("(")) {
+        pos++;
+        const args: ExprNode[] = [];
+        if (!peekOp(")")) {
+          args.push(parseExpression());
+          while (peekOp(",")) {
+            pos++;
+            args.push(parseExpression());
+          }
+        }
+        expectOp(")");
+        return { type: "call", name: token.value, args };
+      }
+      return { type: "field", name: token.value };
+    }
+    if (token.value === "(") {
+      const inner = parseExpression();
+      expectOp(")");
+      return inner;
+    }
+    throw new Error(`意外的「${token.value}」`);
+  };
+
+  const parseUnary = (): ExprNode => {
+    const op = peekOp("-", "!");
+    if (op) {
+      pos++;
+      return { type: "unary", op: op as "-" | "!", arg: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseMul = binaryLevel(["*", "/", "%"], parseUnary);
+  const parseAdd = binaryLevel(["+", "-"], parseMul);
+  const parseCompare = binaryLevel(["<", "<=", ">", ">="], parseAdd);
+  const parseEquality = binaryLevel(["==", "!="], parseCompare);
+  const parseAnd = binaryLevel(["&&"], parseEquality);
+  const parseOr = binaryLevel(["||"], parseAnd);
+
+  function parseExpression(): ExprNode {
+    const test = parseOr();
+    if (!peekOp("?")) return test;
+    pos++;
+    const consequent = parseExpression();
+    expectOp(":");
+    return { type: "conditional", test, consequent, alternate: parseExpression() };
+  }
+
+  if (tokens.length === 0) throw new Error("表达式为空");
+  const ast = parseExpression();
+  if (pos < tokens.length) {
+    const rest = tokens[pos];
+    throw new Error(`意外的「${rest.value}」`);
+  }
+  return ast;
+};
+
+// 解析结果缓存（同一表达式会对每行数据求值）
+const astCache = new Map<string, ExprNode>();
+
+const getAst = (source: string): ExprNode => {
+  let ast = astCache.get(source);
+  if (!ast) {
+    ast = parse(source);
+    astCache.set(source, ast);
+  }
+  return ast;
+};
+
+/**
+ * 检查表达式语法，返回错误说明（没有错误时返回 null）
+ */
+export function checkExpression(source: string): string | null {
+  try {
+    getAst(source);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+/**
+ * 表达式中引用的字段名（语法错误时返回空数组）
+ */
+export function listExpressionFields(source: string): string[] {
+  const names = new Set<string>();
+  const visit = (node: ExprNode) => {
+    switch (node.type) {
+      case "field": names.add(node.name); break;
+      case "unary": visit(node.arg); break;
+      case "binary": visit(node.left); visit(node.right); break;
+      case "conditional": visit(node.test); visit(node.consequent); visit(node.alternate); break;
+      case "call": node.args.forEach(visit); break;
+    }
+  };
+  try {
+    visit(getAst(source));
+  } catch (e) {
+    return [];
+  }
+  return Array.from(names);
+}
+
+/**
+ * 尝试转为数字："199"、"¥1,299.5"、" 39.9 " → 数字；不是数字时返回 null
+ */
+const asNumber = (value: ExprValue): number | null => {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const text = value.trim().replace(/^[¥￥$]/, "").replace(/,/g, "");
+  return text !== "" && /^-?\d*\.?\d+$/.test(text) ? Number(text) : null;
+};
+
+const toNumber = (value: ExprValue): number => {
+  const n = asNumber(value);
+  if (n === null) throw new Error(`「${value}」不是数字`);
+  return n;
+};
+
+const toText = (value: ExprValue): string => {
+  if (typeof value === "number") return formatNumber(value);
+  return String(value);
+};
+
+const isTruthy = (value: ExprValue): boolean => {
+  if (typeof value === "string") return value.trim() !== "" && value !== "0" && value !== "false";
+  return Boolean(value);
+};
+
+// 去掉浮点误差（0.1 + 0.2 → 0.3）
+const formatNumber = (value: number): string => String(Number(value.toPrecision(12)));
+
+// Excel 日期序列号的起点（1899-12-30）
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+interface DateParts {
+  year?: number;
+  month: number;
+  day: number;
+}
+
+/**
+ * 从文本中找出所有日期："2024/11/11 00:00-2024.11.13"、"11月11日-11月13日"、Excel 日期序列号
+ */
+const findDates = (value: ExprValue): DateParts[] => {
+  if (typeof value === "number" || /^\d{5}(\.\d+)?$/.test(String(value).trim())) {
+    const date = new Date(EXCEL_EPOCH + Math.floor(Number(value)) * 86400000);
+    return [{ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }];
+  }
+
+  const text = String(value);
+  const dates: DateParts[] = [];
+  const pattern = /(?:(\d{4})[-/.年])?(\d{1,2})[-/.月](\d{1,2})日?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const month = Number(match[2]);
+    const day = Number(match[3]);
+    if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
+      dates.push({ year: match[1] ? Number(match[1]) : undefined, month, day });
+    } else {
+      // 不是日期（如时间 "00-2024"），从下一个字符继续找
+      pattern.lastIndex = match.index + 1;
+    }
+  }
+  return dates;
+};
+
+/**
+ * 按格式输出日期：YYYY 年、MM/M 月、DD/D 日
+ */
+const formatDate = ({ year, month, day }: DateParts, format: string): string =>
+  format.replace(/YYYY|MM|M|DD|D/g, (token) => {
+    switch (token) {
+      case "YYYY": return year !== undefined ? String(year) : "";
+      case "MM": return String(month).padStart(2, "0");
+      case "M": return String(month);
+      case "DD": return String(day).padStart(2, "0");
+      default: return String(day);
+    }
+  });
+
+const FUNCTIONS: Record<string, (args: ExprValue[]) => ExprValue> = {
+  round: ([x, digits = 0]) => {
+    const factor = Math.pow(10, toNumber(digits));
+    return Math.round(Number((toNumber(x) * factor).toPrecision(12))) / factor;
+  },
+  floor: ([x]) => Math.floor(toNumber(x)),
+  ceil: ([x]) => Math.ceil(toNumber(x)),
+  abs: ([x]) => Math.abs(toNumber(x)),
+  min: (args) => Math.min(...args.map(toNumber)),
+  max: (args) => Math.max(...args.map(toNumber)),
+  num: ([x]) => toNumber(x),
+  fixed: ([x, digits = 2]) => toNumber(x).toFixed(toNumber(digits)),
+  len: ([x]) => toText(x).length,
+  date: ([x, format = "M.D"]) => {
+    const [first] = findDates(x);
+    if (!first) throw new Error(`「${x}」中没有日期`);
+    return formatDate(first, toText(format));
+  },
+  dateRange: ([x, format = "M.D", separator = "-"]) => {
+    const dates = findDates(x);
+    if (dates.length === 0) throw new Error(`「${x}」中没有日期`);
+    const [start, end = start] = [dates[0], dates[dates.length - 1]];
+    return [formatDate(start, toText(format)), formatDate(end, toText(format))].join(toText(separator));
+  },
+};
+
+// 只对需要的参数求值的函数
+const LAZY_FUNCTIONS = new Set(["if", "ifEmpty"]);
+
+const evaluate = (node: ExprNode, scope: ExprScope): ExprValue => {
+  switch (node.type) {
+    case "literal":
+      return node.value;
+
+    case "field": {
+      if (!hasOwnKey(scope, node.name)) throw new Error(`未知字段「${node.name}」`);
+      const value = scope[node.name];
+      if (value === null || value === undefined) return "";
+      if (Array.isArray(value)) return value.join(",");
+      return typeof value === "number" || typeof value === "boolean" ? value : String(value);
+    }
+
+    case "unary": {
+      const arg = evaluate(node.arg, scope);
+      return node.op === "-" ? -toNumber(arg) : !isTruthy(arg);
+    }
+
+    case "conditional":
+      return isTruthy(evaluate(node.test, scope))
+        ? evaluate(node.consequent, scope)
+        : evaluate(node.alternate, scope);
+
+    case "binary": {
+      if (node.op === "&&") {
+        const left = evaluate(node.left, scope);
+        return isTruthy(left) ? evaluate(node.right, scope) : left;
+      }
+      if (node.op === "||") {
+        const left = evaluate(node.left, scope);
+        return isTruthy(left) ? left : evaluate(node.right, scope);
+      }
+
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      const leftNumber = asNumber(left);
+      const rightNumber = asNumber(right);
+      const bothNumbers = leftNumber !== null && rightNumber !== null;
+
+      switch (node.op) {
+        case "+":
+          return bothNumbers ? leftNumber! + rightNumber! : toText(left) + toText(right);
+        case "-":
+          return toNumber(left) - toNumber(right);
+        case "*":
+          return toNumber(left) * toNumber(right);
+        case "/":
+        case "%": {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new Error("除数为 0");
+          return node.op === "/" ? toNumber(left) / divisor : toNumber(left) % divisor;
+        }
+        case "==":
+          return bothNumbers ? leftNumber === rightNumber : toText(left) === toText(right);
+        case "!=":
+          return bothNumbers ? leftNumber !== rightNumber : toText(left) !== toText(right);
+        default: {
+          const a = toNumber(left);
+          const b = toNumber(right);
+          if (node.op === "<") return a < b;
+          if (node.op === "<=") return a <= b;
+          if (node.op === ">") return a > b;
+          return a >= b;
+        }
+      }
+    }
+
+    case "call": {
+      if (node.name === "if") {
+        if (node.args.length !== 3) throw new Error("if 需要 3 个参数：if(条件, 是, 否)");
+        return isTruthy(evaluate(node.args[0], scope))
+          ? evaluate(node.args[1], scope)
+          : evaluate(node.args[2], scope);
+      }
+      if (node.name === "ifEmpty") {
+        if (node.args.length !== 2) throw new Error("ifEmpty 需要 2 个参数：ifEmpty(值, 默认值)");
+        let value: ExprValue = "";
+        try {
+          value = evaluate(node.args[0], scope);
+        } catch (e) {
+          // 字段不存在时也使用默认值
+        }
+        return toText(value).trim() === "" ? evaluate(node.args[1], scope) : value;
+      }
+
+      const fn = hasOwnKey(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined;
+      if (!fn || LAZY_FUNCTIONS.has(node.name)) throw new Error(`未知函数「${node.name}」`);
+      return fn(node.args.map(arg => evaluate(arg, scope)));
+    }
+  }
+};
+
+/**
+ * 对一行数据求值表达式，结果转为文本（数字去掉浮点误差，布尔值为 "true" / "false"）
+ */
+export function evaluateExpression(source: string, scope: ExprScope): string {
+  const value = evaluate(getAst(source), scope);
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new Error("计算结果不是有效数字");
+  }
+  return toText(value);
+}
+
+/**
+ * 对一行数据求值条件表达式（用于 data-show-if 等），空字符串、0、"false" 为假
+ */
+export function evaluateCondition(source: string, scope: ExprScope): boolean {
+  return isTruthy(evaluate(getAst(source), scope));
+}
+
+export interface ComputedFieldError {
+  field: string;
+  expression: string;
+  message: string;
+}
+
+/**
+ * 按模板中的 data-expr 计算字段（在应用数据之前）
+ * - 表达式可以使用数据中的字段、手动编辑的值，以及前面已经计算出的字段
+ * - 手动编辑过的计算字段以编辑值为准，不再计算
+ * - 出错的字段保持原值（数据中没有时保留模板内容），错误按字段返回，不抛出
+ */
+export function applyComputedFields(
+  data: BannerData,
+  fields: TemplateField[],
+  edits: Record<string, string> = {}
+): { data: BannerData; errors: ComputedFieldError[] } {
+  const computed: BannerData = { ...data };
+  const errors: ComputedFieldError[] = [];
+
+  fields.forEach((field) => {
+    if (!field.expr || edits[field.name] !== undefined) return;
+    try {
+      computed[field.name] = evaluateExpression(field.expr, { ...computed, ...edits });
+    } catch (e) {
+      errors.push({
+        field: field.name,
+        expression: field.expr,
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  });
+
+  return { data: computed, errors };
+}
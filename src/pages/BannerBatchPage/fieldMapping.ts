@@ -0,0 +1,179 @@
+/**
+ * Excel 列 → 模板 data-field 映射逻辑
+ */
+import { BannerData } from "../../types";
+import { TemplateField } from "./types";
+import { resolveImagePath } from "./zipHandler";
+import { PRODUCT_STRUCTURE_FIELDS } from "../../utils/productItems";
+import { evaluateExpression } from "./expression";
+import { splitListValue } from "./repeatRegions";
+
+/**
+ * 单个字段的绑定方式：
+ * - column：直接取某一列的值
+ * - formula：用 {列名} 占位符组合多列，例如 "{品牌} {商品名称}"
+ * - expression：计算表达式，列名作为变量，例如 "round(({JD前台价} - {单促价1}) / {JD前台价} * 100)"（见 expression.ts）
+ */
+export type FieldBinding =
+  | { type: "column"; column: string }
+  | { type: "formula"; formula: string }
+  | { type: "expression"; expression: string };
+
+// 某一行的计算表达式出错
+export interface FieldMappingError {
+  rowIndex: number;
+  field: string;
+  message: string;
+}
+
+// 字段名 -> 绑定方式（未绑定的字段不出现在映射中）
+export type FieldMapping = Record<string, FieldBinding>;
+
+const STORAGE_KEY_PREFIX = "bannergen:fieldMapping:";
+
+/**
+ * 判断值是否为空（空字符串、null、undefined）
+ */
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === "";
+
+/**
+ * 按模板字段自动猜测映射：字段名或 data-label 与表头完全一致，或表头包含 data-label
+ */
+export function autoMapFields(fields: TemplateField[], headers: string[]): FieldMapping {
+  const mapping: FieldMapping = {};
+  const validHeaders = headers.filter(h => h);
+
+  fields.forEach((field) => {
+    const column =
+      validHeaders.find(h => h === field.name) ||
+      (field.label ? validHeaders.find(h => h === field.label) : undefined) ||
+      (field.label ? validHeaders.find(h => h.includes(field.label!)) : undefined);
+
+    if (column) {
+      mapping[field.name] = { type: "column", column };
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * 计算公式：把 {列名} 替换为该行对应列的值，找不到的列替换为空字符串
+ */
+export function evaluateFormula(formula: string, row: Record<string, any>): string {
+  return formula.replace(/\{([^{}]+)\}/g, (_, columnName: string) => {
+    const value = row[columnName.trim()];
+    return isEmptyValue(value) ? "" : String(value).trim();
+  });
+}
+
+/**
+ * 按绑定方式取一行的值（表达式出错时抛出 Error）
+ */
+export function evaluateBinding(binding: FieldBinding, row: Record<string, any>): unknown {
+  switch (binding.type) {
+    case "column":
+      return row[binding.column];
+    case "formula":
+      return evaluateFormula(binding.formula, row);
+    case "expression":
+      return evaluateExpression(binding.expression, row);
+  }
+}
+
+/**
+ * 按映射把一行 Excel 数据转换为 BannerData
+ * @param imageMap - 模板中的图片映射（来自 ZIP），用于把图片文件名解析为 Base64
+ * @param onError - 表达式出错时回调（该字段不写入数据），不传时忽略
+ */
+export function mapRowToBannerData(
+  row: Record<string, any>,
+  mapping: FieldMapping,
+  imageMap: Record<string, string> = {},
+  onError?: (field: string, message: string) => void
+): BannerData {
+  const data: BannerData = {};
+
+  const setField = (fieldName: string, rawValue: unknown) => {
+    if (isEmptyValue(rawValue)) return;
+
+    // 多行产品生成的图片数组（product_main_src / gift_products_src）逐张解析
+    if (Array.isArray(rawValue)) {
+      data[fieldName] = rawValue.map(v => resolveImagePath(String(v), imageMap) || String(v));
+      return;
+    }
+
+    // 保留数字类型（如 product_main_qty），字符串去掉首尾空白
+    const value = typeof rawValue === "number" ? rawValue : String(rawValue).trim();
+
+    // 图片列表（重复区域，用换行 / "|" / "；" 分隔多张图片）逐张解析
+    if (typeof value === "string" && fieldName.includes("_src") && /[\n|；]/.test(value)) {
+      data[fieldName] = splitListValue(value).map(v => resolveImagePath(v, imageMap) || v);
+      return;
+    }
+
+    // 图片字段：尝试用模板内的图片替换为 Base64
+    if (typeof value === "string" && fieldName.includes("_src")) {
+      data[fieldName] = resolveImagePath(value, imageMap) || value;
+      return;
+    }
+
+    data[fieldName] = value;
+  };
+
+  Object.entries(mapping).forEach(([fieldName, binding]) => {
+    try {
+      setField(fieldName, evaluateBinding(binding, row));
+    } catch (e) {
+      onError?.(fieldName, e instanceof Error ? e.message : String(e));
+    }
+  });
+
+  // 多行产品解析出的主品/赠品字段：映射中没有绑定时直接带入
+  PRODUCT_STRUCTURE_FIELDS.forEach(fieldName => {
+    if (!mapping[fieldName]) {
+      setField(fieldName, row[fieldName]);
+    }
+  });
+
+  return data;
+}
+
+/**
+ * 按映射批量转换 Excel 行，表达式出错的字段通过 onError 按行报告
+ */
+export function applyFieldMapping(
+  rows: Record<string, any>[],
+  mapping: FieldMapping,
+  imageMap: Record<string, string> = {},
+  onError?: (error: FieldMappingError) => void
+): BannerData[] {
+  return rows.map((row, rowIndex) =>
+    mapRowToBannerData(row, mapping, imageMap, (field, message) => onError?.({ rowIndex, field, message }))
+  );
+}
+
+/**
+ * 读取某个模板保存过的映射（按模板文件名区分）
+ */
+export function loadFieldMapping(templateKey: string): FieldMapping | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY_PREFIX + templateKey);
+    return raw ? (JSON.parse(raw) as FieldMapping) : null;
+  } catch (e) {
+    console.warn("读取字段映射失败:", e);
+    return null;
+  }
+}
+
+/**
+ * 保存某个模板的映射
+ */
+export function saveFieldMapping(templateKey: string, mapping: FieldMapping): void {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + templateKey, JSON.stringify(mapping));
+  } catch (e) {
+    console.warn("保存字段映射失败:", e);
+  }
+}
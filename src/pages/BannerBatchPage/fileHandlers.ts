@@ -2,7 +2,7 @@
  * 文件上传处理函数
  */
 import { TemplateField } from "./types";
-import { extractCssFromHtml } from "./htmlUtils";
+import { extractCssFromHtml, extractTemplateFields } from "./htmlUtils";
 
 /**
  * 处理 HTML 文件上传
@@ -29,28 +29,7 @@ export const handleHtmlUpload = async (
         const doc = parser.parseFromString(rawHtml, "text/html");
 
         // 2. 找出所有带 data-field 的元素
-        const fieldMap = new Map<string, TemplateField>();
-        doc.querySelectorAll<HTMLElement>("[data-field]").forEach((el) => {
-          const name = el.getAttribute("data-field");
-          if (!name) return;
-
-          if (!fieldMap.has(name)) {
-            const label = el.getAttribute("data-label") || undefined;
-            fieldMap.set(name, { name, label });
-          }
-        });
-
-        // 特殊处理价格字段（data-field-int 和 data-field-decimal）
-        doc.querySelectorAll<HTMLElement>("[data-field-int]").forEach((el) => {
-          const intName = el.getAttribute("data-field-int");
-          const decimalName = el.getAttribute("data-field-decimal");
-          if (intName && !fieldMap.has(intName)) {
-            fieldMap.set(intName, { name: intName, label: "到手价-整数部分" });
-          }
-          if (decimalName && !fieldMap.has(decimalName)) {
-            fieldMap.set(decimalName, { name: decimalName, label: "到手价-小数部分" });
-          }
-        });
+        const fields = extractTemplateFields(doc);
 
         // 3. 自动提取 HTML 中的 CSS
         const extractedCss = extractCssFromHtml(rawHtml);
@@ -58,8 +37,8 @@ export const handleHtmlUpload = async (
         
         // 构建成功消息
         let successMsg = `成功加载 HTML 模板: ${file.name}`;
-        if (fieldMap.size > 0) {
-          successMsg += `（检测到 ${fieldMap.size} 个可编辑字段）`;
+        if (fields.length > 0) {
+          successMsg += `（检测到 ${fields.length} 个可编辑字段）`;
         }
         
         if (extractedCss || hasLinkCss) {
@@ -77,7 +56,7 @@ export const handleHtmlUpload = async (
         onSuccess({
           html: rawHtml,
           css: extractedCss || undefined,
-          fields: Array.from(fieldMap.values()),
+          fields,
           successMessage: successMsg,
         });
         
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { BannerData } from "../../types";
+import { FileNameContext, buildFileName } from "./fileNaming";
+
+const context = (data: BannerData, scale = 1): FileNameContext => ({
+  data,
+  rowIndex: 0,
+  sequence: 1,
+  size: "750x400",
+  templateName: "活动",
+  date: new Date(2025, 10, 30, 1, 20),
+  scale,
+  extension: "png",
+});
+
+const build = (pattern: string, data: BannerData, scale = 1) =>
+  buildFileName({ pattern, asciiOnly: false, multiSize: false }, context(data, scale));
+
+describe("buildFileName", () => {
+  it("按命名规则生成路径", () => {
+    expect(build("{brand}/{sku|id}_{size}", { brand: "A牌", id: "001" })).toBe("A牌/001_750x400.png");
+  });
+
+  it("字段值过长时只截断文件名主体，保留扩展名", () => {
+    const name = build("{title}", { title: "长".repeat(100) });
+    expect(name).toBe(`${"长".repeat(76)}.png`);
+  });
+
+  it("字段值过长时保留倍率后缀", () => {
+    const name = build("{title}", { title: "a".repeat(100) }, 2);
+    expect(name).toBe(`${"a".repeat(73)}@2x.png`);
+  });
+
+  it("不会读取原型上的属性", () => {
+    expect(build("{constructor}", { id: "001" })).toBe("banner_1.png");
+    expect(build("{toString|id}", { id: "001" })).toBe("001.png");
+  });
+
+  it("数据中确实有同名字段时正常读取", () => {
+    expect(build("{constructor}", { constructor: "abc" } as BannerData)).toBe("abc.png");
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * 批量生成的输出文件命名
+ *
+ * 命名规则示例：{brand}/{sku|id}_{size}_{channel}.{ext}
+ * - {字段名}：数据中的任意字段（已合并手动编辑的值），{a|b} 取第一个有值的字段
+ * - {row}：数据行号（从 1 开始），{n}：文件序号（纯模板为 1，与默认命名中的 banner_N 相同）
+ * - {size}：模板尺寸（如 750x400），{template}：模板名称
+ * - {date}：YYYYMMDD，{time}：HHmm，{timestamp}：YYYYMMDDHHmm
+ * - {scale}：倍率后缀（1x 为空，其他为 @2x），{ext}：扩展名
+ * - "/" 分隔子文件夹
+ *
+ * 没有写 {scale} 时倍率后缀加在扩展名前，没有写 {ext} 时自动追加扩展名；
+ * 多尺寸模板集且没有写 {size} 时自动放到以尺寸命名的文件夹中
+ * 不设置命名规则时使用默认命名：{id}_{时间戳}（没有 id 时为 banner_{序号}_{时间戳}），多尺寸时为 {尺寸}/{id}_{尺寸}
+ */
+import { BannerData } from "../../types";
+import { getScaleSuffix } from "./exportSettings";
+import { hasOwnKey } from "./expression";
+
+export interface FileNameContext {
+  data: BannerData | null;   // 合并编辑值后的数据，纯模板为 null
+  rowIndex: number | null;
+  sequence: number;          // 文件序号（纯模板为 1）
+  size: string;              // 模板尺寸，单个模板没有声明尺寸时为空
+  templateName: string;
+  date: Date;
+  scale: number;
+  extension: string;
+}
+
+export interface FileNameOptions {
+  pattern: string;           // 为空时使用默认命名
+  asciiOnly: boolean;        // 去掉中文等非 ASCII 字符
+  multiSize: boolean;        // 多尺寸模板集
+}
+
+// 单段文件名的最大长度（部分系统限制 255 字节，中文按 3 字节计）
+const MAX_SEGMENT_LENGTH = 80;
+
+// Windows 保留的设备名
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\.|$)/i;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * 时间戳（年月日时分，如 202511300120）
+ */
+export const formatTimestamp = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}`;
+
+/**
+ * 清理字段值：去掉文件名中不允许的字符（\ / : * ? " < > | 和控制字符），空白改为 "_"
+ * asciiOnly 时去掉中文等非 ASCII 字符
+ */
+export const sanitizeFileNamePart = (text: string, asciiOnly: boolean): string => {
+  let result = text
+    .replace(/[\\/:*?"<>|\u0000-\u001f\u007f]/g, "_")
+    .replace(/\s+/g, "_");
+  if (asciiOnly) {
+    result = result.replace(/[^\x20-\x7e]/g, "");
+  }
+  return result;
+};
+
+/**
+ * 整理一段路径：合并重复的分隔符、去掉首尾的分隔符和点、避开系统保留名、限制长度。
+ * 文件名（isFileName）超长时只截断主体，保留倍率后缀和扩展名
+ */
+const tidySegment = (segment: string, isFileName = false): string => {
+  let result = segment
+    .replace(/_{2,}/g, "_")
+    .replace(/-{2,}/g, "-")
+    // 字段为空时留下的分隔符：扩展名和倍率后缀前的 "_"、"-"
+    .replace(/[_-]+(?=@\d+x|\.[^.]*$)/g, "")
+    .replace(/^[\s._-]+|[\s._-]+$/g, "");
+  if (result.length > MAX_SEGMENT_LENGTH) {
+    const suffix = isFileName ? result.match(/(?:@\d+x)?\.[^.]*$/)?.[0] ?? "" : "";
+    result = result.slice(0, MAX_SEGMENT_LENGTH - suffix.length).replace(/[\s._-]+$/, "") + suffix;
+  }
+  if (RESERVED_NAMES.test(result)) {
+    result = `_${result}`;
+  }
+  return result;
+};
+
+const resolveToken = (token: string, context: FileNameContext, asciiOnly: boolean): string => {
+  const { date } = context;
+  for (const name of token.split("|").map(t => t.trim()).filter(Boolean)) {
+    let value: unknown;
+    switch (name) {
+      case "row": value = context.rowIndex !== null ? context.rowIndex + 1 : ""; break;
+      case "n": value = context.sequence; break;
+      case "size": value = context.size; break;
+      case "template": value = context.templateName; break;
+      case "date": value = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`; break;
+      case "time": value = `${pad(date.getHours())}${pad(date.getMinutes())}`; break;
+      case "timestamp": value = formatTimestamp(date); break;
+      case "scale": return getScaleSuffix(context.scale);
+      case "ext": return context.extension;
+      default: value = context.data && hasOwnKey(context.data, name) ? context.data[name] : undefined;
+    }
+    const text = value === null || value === undefined ? "" : sanitizeFileNamePart(String(value).trim(), asciiOnly);
+    if (text) return text;
+  }
+  return "";
+};
+
+/**
+ * 按命名规则生成一个文件的路径（含扩展名）
+ */
+const renderPattern = (options: FileNameOptions, context: FileNameContext): string => {
+  let pattern = options.pattern.trim();
+  if (options.multiSize && !pattern.includes("{size")) {
+    pattern = `{size}/${pattern}`;
+  }
+  if (!pattern.includes("{scale}")) {
+    pattern = pattern.includes("{ext}") ? pattern.replace(/\.?\{ext\}/, "{scale}$&") : `${pattern}{scale}`;
+  }
+  if (!pattern.includes("{ext}")) {
+    pattern = `${pattern}.{ext}`;
+  }
+
+  const rendered = pattern.replace(/\{([^{}]+)\}/g, (_, token: string) => resolveToken(token, context, options.asciiOnly));
+  // 规则中的文字部分也按同样的规则清理（字段值中的 "/" 已被替换，不会产生额外的文件夹）
+  const segments = rendered.split("/").map((part, index, parts) =>
+    tidySegment(sanitizeFileNamePart(part, options.asciiOnly), index === parts.length - 1)
+  );
+  const fileName = segments.pop() || "";
+  const dirs = segments.filter(Boolean);
+
+  // 文件名只剩倍率和扩展名（字段都为空）时使用行号
+  const dot = fileName.lastIndexOf(".");
+  const stem = (dot > 0 ? fileName.slice(0, dot) : "").replace(/@\d+x$/, "");
+  const base = stem
+    ? fileName
+    : `banner_${context.rowIndex !== null ? context.rowIndex + 1 : context.sequence}${getScaleSuffix(context.scale)}.${context.extension}`;
+  return [...dirs, base].join("/");
+};
+
+/**
+ * 默认命名：{id}_{时间戳}（没有 id 时为 banner_{序号}_{时间戳}），纯模板为 template_{时间戳}；
+ * 多尺寸时放到尺寸文件夹，时间戳换成尺寸
+ */
+const renderDefaultName = (options: FileNameOptions, context: FileNameContext): string => {
+  const suffix = options.multiSize ? context.size : formatTimestamp(context.date);
+  const id = context.data?.id ? sanitizeFileNamePart(String(context.data.id), options.asciiOnly) : "";
+  const base = !context.data
+    ? `template_${suffix}`
+    : id
+      ? `${id}_${suffix}`
+      : `banner_${context.sequence}_${suffix}`;
+  const fileName = `${tidySegment(base)}${getScaleSuffix(context.scale)}.${context.extension}`;
+  return options.multiSize ? `${context.size}/${fileName}` : fileName;
+};
+
+/**
+ * 生成一个输出文件的路径；纯模板图片固定使用默认命名（template_{时间戳或尺寸}）
+ */
+export const buildFileName = (options: FileNameOptions, context: FileNameContext): string =>
+  options.pattern.trim() && context.data
+    ? renderPattern(options, context)
+    : renderDefaultName(options, context);
+
+/**
+ * 为一批文件生成路径，重名时（不区分大小写）在扩展名前追加 _2、_3 ...
+ * 返回 key → 路径、重名的文件，以及被改名的 key → 原路径
+ */
+export const assignFileNames = (
+  items: Array<{ key: string; context: FileNameContext }>,
+  options: FileNameOptions
+): { names: Map<string, string>; collisions: string[]; renamed: Map<string, string> } => {
+  const names = new Map<string, string>();
+  const renamed = new Map<string, string>();
+  const used = new Set<string>();
+  const collisions = new Set<string>();
+
+  items.forEach(({ key, context }) => {
+    const path = buildFileName(options, context);
+    let candidate = path;
+    if (used.has(candidate.toLowerCase())) {
+      collisions.add(path);
+      renamed.set(key, path);
+      const dot = path.lastIndexOf(".");
+      const stem = dot > path.lastIndexOf("/") ? path.slice(0, dot) : path;
+      const ext = dot > path.lastIndexOf("/") ? path.slice(dot) : "";
+      for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+        candidate = `${stem}_${n}${ext}`;
+      }
+    }
+    used.add(candidate.toLowerCase());
+    names.set(key, candidate);
+  });
+
+  return { names, collisions: Array.from(collisions), renamed };
+};
@@ -0,0 +1,170 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { RowsState } from "../rowOperations";
+
+export type HistoryKind = "edit" | "addRow" | "removeRow" | "bulk";
+
+/**
+ * 一次修改的描述（用于历史面板展示）
+ */
+export interface HistoryChange {
+  kind: HistoryKind;
+  label: string;
+  rowIndex?: number;
+  field?: string;
+}
+
+export interface HistoryEntry extends HistoryChange {
+  id: number;
+  timestamp: number;
+  before: RowsState;
+  after: RowsState;
+}
+
+// 最多保留的历史步数
+const MAX_HISTORY = 100;
+// 在这个时间内连续修改同一行同一字段（逐字输入）合并为一步
+const COALESCE_WINDOW_MS = 1500;
+
+interface HistoryStacks {
+  past: HistoryEntry[];     // 已执行的步骤（最后一个是最近一步）
+  future: HistoryEntry[];   // 撤销后可重做的步骤（第一个是下一步）
+}
+
+/**
+ * 数据和编辑值的撤销/重做历史
+ *
+ * 以快照记录每一步（jsonData / editedValues 都是不可变更新，快照只保存引用），
+ * 撤销/重做时把快照交给 apply 写回页面状态
+ *
+ * 快捷键：Ctrl+Z 撤销，Ctrl+Shift+Z / Ctrl+Y 重做（macOS 使用 Cmd）
+ * 焦点在输入框中时不拦截，除非输入框带有 data-history-input 属性
+ */
+export function useEditHistory(
+  current: RowsState,
+  apply: (state: RowsState) => void
+) {
+  const [stacks, setStacks] = useState<HistoryStacks>({ past: [], future: [] });
+  const stacksRef = useRef(stacks);
+  const currentRef = useRef(current);
+  const applyRef = useRef(apply);
+  const nextIdRef = useRef(1);
+
+  currentRef.current = current;
+  applyRef.current = apply;
+
+  const updateStacks = (next: HistoryStacks) => {
+    stacksRef.current = next;
+    setStacks(next);
+  };
+
+  /**
+   * 执行一次修改并记录到历史
+   * produce 基于最新状态计算修改后的状态
+   */
+  const commit = useCallback((change: HistoryChange, produce: (state: RowsState) => RowsState) => {
+    const before = currentRef.current;
+    const after = produce(before);
+    if (after === before) return;
+
+    const now = Date.now();
+    const { past } = stacksRef.current;
+    const last = past[past.length - 1];
+    const canCoalesce =
+      last &&
+      change.kind === "edit" &&
+      last.kind === "edit" &&
+      last.rowIndex === change.rowIndex &&
+      last.field === change.field &&
+      now - last.timestamp < COALESCE_WINDOW_MS;
+
+    const nextPast = canCoalesce
+      ? [...past.slice(0, -1), { ...last, timestamp: now, after }]
+      : [...past, { ...change, id: nextIdRef.current++, timestamp: now, before, after }].slice(-MAX_HISTORY);
+
+    updateStacks({ past: nextPast, future: [] });
+    currentRef.current = after;
+    applyRef.current(after);
+  }, []);
+
+  const undo = useCallback(() => {
+    const { past, future } = stacksRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+
+    updateStacks({ past: past.slice(0, -1), future: [entry, ...future] });
+    currentRef.current = entry.before;
+    applyRef.current(entry.before);
+  }, []);
+
+  const redo = useCallback(() => {
+    const { past, future } = stacksRef.current;
+    const entry = future[0];
+    if (!entry) return;
+
+    updateStacks({ past: [...past, entry], future: future.slice(1) });
+    currentRef.current = entry.after;
+    applyRef.current(entry.after);
+  }, []);
+
+  /**
+   * 跳转到某一步执行之后的状态（历史面板中点击某一步）
+   */
+  const goTo = useCallback((entryId: number) => {
+    const { past, future } = stacksRef.current;
+    const all = [...past, ...future];
+    const position = all.findIndex(e => e.id === entryId);
+    if (position === -1) return;
+
+    const entry = all[position];
+    updateStacks({ past: all.slice(0, position + 1), future: all.slice(position + 1) });
+    currentRef.current = entry.after;
+    applyRef.current(entry.after);
+  }, []);
+
+  /**
+   * 清空历史（加载新模板、新数据或打开项目时）
+   */
+  const reset = useCallback(() => {
+    updateStacks({ past: [], future: [] });
+  }, []);
+
+  // 键盘快捷键
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const target = e.target as HTMLElement | null;
+      const isEditable = !!target && (
+        target.tagName === "INPUT" ||
+        target.tagName === "TEXTAREA" ||
+        target.tagName === "SELECT" ||
+        target.isContentEditable
+      );
+      if (isEditable && !target!.hasAttribute("data-history-input")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    past: stacks.past,
+    future: stacks.future,
+    canUndo: stacks.past.length > 0,
+    canRedo: stacks.future.length > 0,
+    commit,
+    undo,
+    redo,
+    goTo,
+    reset,
+  };
+}
@@ -1,6 +1,87 @@
 /**
  * HTML/CSS 处理工具函数
  */
+import { TemplateField } from "./types";
+import { listExpressionFields } from "./expression";
+import { parseVariantRule, RULE_SELECTOR } from "./templateRules";
+
+// 解析模板中的 data-field / data-label（包括价格的 data-field-int / data-field-decimal / data-price、重复区域的 data-repeat、计算字段的 data-expr 和显示规则引用的字段）
+export const extractTemplateFields = (doc: Document): TemplateField[] => {
+  const fieldMap = new Map<string, TemplateField>();
+  doc.querySelectorAll<HTMLElement>("[data-field]").forEach((el) => {
+    const name = el.getAttribute("data-field");
+    if (!name) return;
+
+    if (!fieldMap.has(name)) {
+      const label = el.getAttribute("data-label") || undefined;
+      fieldMap.set(name, { name, label });
+    }
+  });
+
+  // 特殊处理价格字段（data-field-int 和 data-field-decimal）
+  doc.querySelectorAll<HTMLElement>("[data-field-int]").forEach((el) => {
+    const intName = el.getAttribute("data-field-int");
+    const decimalName = el.getAttribute("data-field-decimal");
+    if (intName && !fieldMap.has(intName)) {
+      fieldMap.set(intName, { name: intName, label: "到手价-整数部分", price: "int" });
+    }
+    if (decimalName && !fieldMap.has(decimalName)) {
+      fieldMap.set(decimalName, { name: decimalName, label: "到手价-小数部分", price: "decimal" });
+    }
+  });
+
+  // 整个价格绑定一个字段（data-price）
+  doc.querySelectorAll<HTMLElement>("[data-price]").forEach((el) => {
+    const name = el.getAttribute("data-price");
+    if (name && !fieldMap.has(name)) {
+      const label = el.getAttribute("data-label") || el.getAttribute("data-price-label") || "价格";
+      fieldMap.set(name, { name, label, price: "value" });
+    }
+  });
+
+  // 重复区域的列表字段和数量字段（data-repeat / data-repeat-qty）
+  doc.querySelectorAll<HTMLElement>("[data-repeat]").forEach((el) => {
+    const name = el.getAttribute("data-repeat");
+    if (name && !fieldMap.has(name)) {
+      fieldMap.set(name, { name, label: el.getAttribute("data-label") || `${name}（列表）`, repeat: true });
+    }
+    (el.getAttribute("data-repeat-qty") || "").split("|").map(q => q.trim()).forEach((qtyName) => {
+      if (qtyName && !fieldMap.has(qtyName)) {
+        fieldMap.set(qtyName, { name: qtyName, label: `${name}（数量）`, optional: true });
+      }
+    });
+  });
+
+  // 计算字段（data-expr 可以写在 data-field 或 data-price 元素上）
+  doc.querySelectorAll<HTMLElement>("[data-expr]").forEach((el) => {
+    const name = el.getAttribute("data-field") || el.getAttribute("data-price");
+    const expr = el.getAttribute("data-expr")?.trim();
+    const field = name ? fieldMap.get(name) : undefined;
+    if (field && expr && !field.expr) {
+      field.expr = expr;
+    }
+  });
+
+  // 显示规则中引用的字段（没有对应元素时也可以编辑和映射）；元素自己带规则时它的字段可以为空
+  doc.querySelectorAll<HTMLElement>(RULE_SELECTOR).forEach((el) => {
+    const own = fieldMap.get(el.getAttribute("data-field") || el.getAttribute("data-price") || "");
+    if (own) own.optional = true;
+
+    const names = [
+      ...listExpressionFields(el.getAttribute("data-show-if") || ""),
+      ...listExpressionFields(el.getAttribute("data-hide-if") || ""),
+      el.getAttribute("data-hide-if-empty") || "",
+      el.hasAttribute("data-variant") ? parseVariantRule(el.getAttribute("data-variant") || "").field : "",
+    ];
+    names.forEach((name) => {
+      if (name && !fieldMap.has(name)) {
+        fieldMap.set(name, { name, label: `${name}（显示规则）`, optional: true });
+      }
+    });
+  });
+
+  return Array.from(fieldMap.values());
+};
 
 // 从 HTML 中提取 head 中的 link 标签（用于外部 CSS）
 export const extractLinkTags = (html: string): string => {
@@ -43,7 +124,8 @@ export const buildSrcDoc = (html: string, css: string): string => {
     // 如果都没有，直接使用原始内容
   }
 
-  const baseUrl = import.meta.env.BASE_URL;
+  // 命令行（tsx）环境下没有 Vite 注入的 import.meta.env，回退到根路径
+  const baseUrl = import.meta.env?.BASE_URL ?? "/";
   return `<!DOCTYPE html>
 <html lang="zh-CN">
   <head>
@@ -0,0 +1,342 @@
+/**
+ * 模板图片的本地处理：产品图白边多、比例不一致时，在写入模板前用 canvas 处理（不上传到服务器）
+ *
+ * 在 img 上声明（通常与 data-field 写在一起，重复区域的项模板同样适用）：
+ * - data-remove-bg：把与图片边缘相连的白色/近白色背景抠成透明（产品内部的白色保留）；
+ *   可以写阈值（0-255，默认 240，RGB 都不低于阈值视为白色）
+ * - data-trim：裁掉四周颜色一致的边（以左上角像素为边框颜色，透明边同样裁掉）；可以写容差（默认 10）
+ * - data-fit="contain|cover|pad"：按元素尺寸重新构图：contain 完整显示，cover 铺满并裁掉多余部分，
+ *   pad 完整显示并四周留白（data-fit-padding，默认 "5%"），空白用 data-pad-color 填充（默认透明）
+ * - data-anchor：构图时的对齐位置，如 "center"（默认）、"bottom"、"top left"、"50% 80%"
+ * - data-fit-size="300x200"：构图尺寸（默认使用元素当前的宽高）
+ *
+ * 处理顺序：抠白底 → 裁边 → 构图。结果按"原图 + 参数"缓存，同一张图片在多行数据中只处理一次
+ * 处理失败（图片无法加载、跨域图片不能读取像素）时保留原图
+ */
+
+export type ImageFitMode = "contain" | "cover" | "pad";
+
+export interface ImageProcessOptions {
+  removeBg: number | null;          // 白色阈值，null 表示不抠图
+  trim: number | null;              // 裁边容差，null 表示不裁边
+  fit: ImageFitMode | null;
+  anchor: [number, number];         // 0-1，水平 / 垂直对齐位置
+  padding: number;                  // pad 模式的留白（占构图尺寸的比例）
+  padColor: string;
+  size: { width: number; height: number } | null;
+}
+
+export const IMAGE_PROCESS_SELECTOR = "img[data-remove-bg], img[data-trim], img[data-fit]";
+
+const FIT_MODES: ImageFitMode[] = ["contain", "cover", "pad"];
+const DEFAULT_BG_THRESHOLD = 240;
+const DEFAULT_TRIM_TOLERANCE = 10;
+const DEFAULT_PADDING = 0.05;
+// 抠图边缘的过渡带：比阈值暗一些的边缘像素按比例保留透明度，避免锯齿
+const BG_FEATHER = 30;
+// 构图时最多按元素尺寸的 3 倍输出（与最大导出倍率一致），原图更小时不放大
+const MAX_OUTPUT_SCALE = 3;
+const MAX_CACHE_ENTRIES = 200;
+
+// "原图 + 参数" → 处理结果
+const cache = new Map<string, Promise<string>>();
+// 每个 img 当前显示的处理结果对应的原图和参数
+const processed = new WeakMap<HTMLImageElement, { source: string; result: string; key: string }>();
+
+/**
+ * 解析对齐位置："bottom"、"top left"、"30% 70%"
+ */
+export const parseAnchor = (value: string | null): [number, number] => {
+  const anchor: [number, number] = [0.5, 0.5];
+  const parts = (value || "").trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+  parts.forEach((part, index) => {
+    if (part === "left" || part === "right") {
+      anchor[0] = part === "left" ? 0 : 1;
+    } else if (part === "top" || part === "bottom") {
+      anchor[1] = part === "top" ? 0 : 1;
+    } else {
+      // center 即默认值；百分比按 x y 的顺序
+      const percent = part.match(/^(\d+(?:\.\d+)?)%$/);
+      if (percent) anchor[index === 0 ? 0 : 1] = Math.min(1, Math.max(0, Number(percent[1]) / 100));
+    }
+  });
+
+  return anchor;
+};
+
+const readNumberAttr = (el: Element, name: string, defaultValue: number): number | null => {
+  if (!el.hasAttribute(name)) return null;
+  const value = Number(el.getAttribute(name));
+  return el.getAttribute(name)?.trim() && Number.isFinite(value) ? value : defaultValue;
+};
+
+/**
+ * 读取 img 上的处理参数，没有声明任何处理时返回 null
+ */
+export const readImageProcessOptions = (img: HTMLImageElement): ImageProcessOptions | null => {
+  const fitAttr = (img.getAttribute("data-fit") || "").trim().toLowerCase() as ImageFitMode;
+  const fit = FIT_MODES.includes(fitAttr) ? fitAttr : null;
+  const removeBg = readNumberAttr(img, "data-remove-bg", DEFAULT_BG_THRESHOLD);
+  const trim = readNumberAttr(img, "data-trim", DEFAULT_TRIM_TOLERANCE);
+  if (removeBg === null && trim === null && !fit) return null;
+
+  const paddingAttr = (img.getAttribute("data-fit-padding") || "").trim();
+  const padding = paddingAttr
+    ? Number(paddingAttr.replace("%", "")) / (paddingAttr.endsWith("%") ? 100 : 1)
+    : DEFAULT_PADDING;
+
+  const sizeMatch = (img.getAttribute("data-fit-size") || "").match(/^(\d+)\s*[x×*]\s*(\d+)$/i);
+  const size = sizeMatch
+    ? { width: Number(sizeMatch[1]), height: Number(sizeMatch[2]) }
+    : img.clientWidth > 0 && img.clientHeight > 0
+      ? { width: img.clientWidth, height: img.clientHeight }
+      : null;
+
+  return {
+    removeBg,
+    trim,
+    fit,
+    anchor: parseAnchor(img.getAttribute("data-anchor")),
+    padding: Number.isFinite(padding) ? Math.min(0.45, Math.max(0, padding)) : DEFAULT_PADDING,
+    padColor: img.getAttribute("data-pad-color") || "transparent",
+    size: fit ? size : null,
+  };
+};
+
+/**
+ * 把与边缘相连的近白色像素设为透明（从四条边向内填充）
+ */
+export const removeWhiteBackground = (image: ImageData, threshold: number): void => {
+  const { width, height, data } = image;
+  const visited = new Uint8Array(width * height);
+  const stack: number[] = [];
+  const minChannel = (i: number) => Math.min(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  const isBackground = (i: number) => data[i * 4 + 3] === 0 || minChannel(i) >= threshold;
+
+  const push = (x: number, y: number) => {
+    const i = y * width + x;
+    if (!visited[i] && isBackground(i)) {
+      visited[i] = 1;
+      stack.push(i);
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    push(x, 0);
+    push(x, height - 1);
+  }
+  for (let y = 0; y < height; y++) {
+    push(0, y);
+    push(width - 1, y);
+  }
+
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    data[i * 4 + 3] = 0;
+    if (x > 0) push(x - 1, y);
+    if (x < width - 1) push(x + 1, y);
+    if (y > 0) push(x, y - 1);
+    if (y < height - 1) push(x, y + 1);
+  }
+
+  // 背景旁边偏白的像素（抗锯齿边缘）按亮度降低透明度
+  for (let i = 0; i < width * height; i++) {
+    if (visited[i]) continue;
+    const x = i % width;
+    const y = (i - x) / width;
+    const touchesBackground =
+      (x > 0 && visited[i - 1]) || (x < width - 1 && visited[i + 1]) ||
+      (y > 0 && visited[i - width]) || (y < height - 1 && visited[i + width]);
+    const level = minChannel(i);
+    if (touchesBackground && level > threshold - BG_FEATHER) {
+      const alpha = (threshold - level) / BG_FEATHER;
+      data[i * 4 + 3] = Math.round(data[i * 4 + 3] * Math.min(1, Math.max(0, alpha)));
+    }
+  }
+};
+
+/**
+ * 计算裁边后的区域：与左上角像素（边框颜色）差异超过容差的像素的外接矩形
+ * 整张图都是边框颜色时返回 null（不裁）
+ */
+export const findTrimBounds = (
+  image: ImageData,
+  tolerance: number
+): { x: number; y: number; width: number; height: number } | null => {
+  const { width, height, data } = image;
+  const [r, g, b, a] = [data[0], data[1], data[2], data[3]];
+  const transparentBorder = a < 16;
+
+  const differs = (i: number): boolean => {
+    const alpha = data[i + 3];
+    if (transparentBorder) return alpha >= 16;
+    return (
+      Math.abs(alpha - a) > tolerance ||
+      Math.abs(data[i] - r) > tolerance ||
+      Math.abs(data[i + 1] - g) > tolerance ||
+      Math.abs(data[i + 2] - b) > tolerance
+    );
+  };
+
+  let top = height, left = width, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!differs((y * width + x) * 4)) continue;
+      if (y < top) top = y;
+      if (y > bottom) bottom = y;
+      if (x < left) left = x;
+      if (x > right) right = x;
+    }
+  }
+
+  if (right < 0) return null;
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/**
+ * 计算构图：源图在输出画布中的位置和大小（单位为构图尺寸的像素）
+ */
+export const computeFitRect = (
+  source: { width: number; height: number },
+  box: { width: number; height: number },
+  mode: ImageFitMode,
+  anchor: [number, number],
+  padding = 0
+): { x: number; y: number; width: number; height: number } => {
+  const innerWidth = mode === "pad" ? box.width * (1 - padding * 2) : box.width;
+  const innerHeight = mode === "pad" ? box.height * (1 - padding * 2) : box.height;
+  const ratio = mode === "cover"
+    ? Math.max(innerWidth / source.width, innerHeight / source.height)
+    : Math.min(innerWidth / source.width, innerHeight / source.height);
+  const width = source.width * ratio;
+  const height = source.height * ratio;
+  // pad 模式按留白后的区域对齐
+  return {
+    x: (box.width - innerWidth) / 2 + (innerWidth - width) * anchor[0],
+    y: (box.height - innerHeight) / 2 + (innerHeight - height) * anchor[1],
+    width,
+    height,
+  };
+};
+
+const loadImage = async (src: string, doc: Document): Promise<HTMLImageElement> => {
+  const img = doc.createElement("img");
+  if (/^(https?:)?\/\//i.test(src)) img.crossOrigin = "anonymous";
+  await new Promise<void>((resolve, reject) => {
+    img.onload = () => resolve();
+    img.onerror = () => reject(new Error("图片加载失败"));
+    img.src = src;
+  });
+  return img;
+};
+
+const createCanvas = (doc: Document, width: number, height: number) => {
+  const canvas = doc.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("当前环境不支持 canvas");
+  return { canvas, ctx };
+};
+
+/**
+ * 处理一张图片，返回 PNG Data URL（保留透明度）
+ */
+const processImage = async (src: string, options: ImageProcessOptions, doc: Document): Promise<string> => {
+  const img = await loadImage(src, doc);
+  let { canvas, ctx } = createCanvas(doc, img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+
+  if (options.removeBg !== null || options.trim !== null) {
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    if (options.removeBg !== null) {
+      removeWhiteBackground(image, options.removeBg);
+      ctx.putImageData(image, 0, 0);
+    }
+    const bounds = options.trim !== null ? findTrimBounds(image, options.trim) : null;
+    if (bounds && (bounds.width < canvas.width || bounds.height < canvas.height)) {
+      const trimmed = createCanvas(doc, bounds.width, bounds.height);
+      trimmed.ctx.drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+      ({ canvas, ctx } = trimmed);
+    }
+  }
+
+  if (options.fit && options.size) {
+    const box = options.size;
+    const rect = computeFitRect(canvas, box, options.fit, options.anchor, options.padding);
+    // 按源图分辨率输出，避免缩小后导出 2x / 3x 时模糊
+    const scale = Math.min(MAX_OUTPUT_SCALE, Math.max(1, canvas.width / rect.width));
+    const output = createCanvas(doc, box.width * scale, box.height * scale);
+    if (options.fit === "pad" && options.padColor !== "transparent") {
+      output.ctx.fillStyle = options.padColor;
+      output.ctx.fillRect(0, 0, output.canvas.width, output.canvas.height);
+    }
+    output.ctx.imageSmoothingQuality = "high";
+    output.ctx.drawImage(canvas, rect.x * scale, rect.y * scale, rect.width * scale, rect.height * scale);
+    canvas = output.canvas;
+  }
+
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * 处理一张图片（带缓存）
+ */
+export const processImageSource = (src: string, options: ImageProcessOptions, doc: Document): Promise<string> => {
+  const key = `${JSON.stringify(options)}|${src}`;
+  let result = cache.get(key);
+  if (!result) {
+    result = processImage(src, options, doc);
+    cache.set(key, result);
+    result.catch(() => cache.delete(key));
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value as string);
+    }
+  }
+  return result;
+};
+
+/**
+ * img 显示的图片对应的原图地址（处理过的图片返回处理前的地址，用于字段编辑）
+ */
+export const getSourceImageSrc = (img: HTMLImageElement): string => {
+  const state = processed.get(img);
+  const current = img.getAttribute("src") || "";
+  return state && state.result === current ? state.source : img.src;
+};
+
+const processElement = async (img: HTMLImageElement): Promise<void> => {
+  const options = readImageProcessOptions(img);
+  const current = img.getAttribute("src");
+  if (!options || !current) return;
+
+  // 当前显示的已经是处理结果时，按原图重新判断（参数或元素尺寸变化时重新处理）
+  const state = processed.get(img);
+  const source = state && state.result === current ? state.source : current;
+  const key = `${JSON.stringify(options)}|${source}`;
+  if (state && state.result === current && state.key === key) return;
+
+  try {
+    const result = await processImageSource(source, options, img.ownerDocument);
+    // 处理期间数据已切换（src 变了）时丢弃结果
+    if (img.getAttribute("src") !== current) return;
+    img.setAttribute("src", result);
+    processed.set(img, { source, result, key });
+    // 等待新图片解码，导出时不会截到替换前的图片
+    await img.decode?.().catch(() => undefined);
+  } catch (e) {
+    console.warn(`图片处理失败，使用原图（${source.slice(0, 80)}）:`, e instanceof Error ? e.message : e);
+  }
+};
+
+/**
+ * 处理文档中所有声明了 data-remove-bg / data-trim / data-fit 的图片
+ * 在数据应用之后调用；导出前需要等待完成，预览时可以不等待（处理完成后自动替换）
+ */
+export const processTemplateImages = async (doc: Document): Promise<void> => {
+  const images = Array.from(doc.querySelectorAll<HTMLImageElement>(IMAGE_PROCESS_SELECTOR));
+  await Promise.all(images.map(processElement));
+};
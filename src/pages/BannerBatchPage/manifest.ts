@@ -0,0 +1,125 @@
+/**
+ * 批量生成清单（manifest.json / manifest.csv）：记录每个输出文件来自哪一行数据、使用了哪些值
+ *
+ * 页面批量生成和命令行（bannergen）共用，写在 ZIP / 输出目录的根目录
+ */
+import { BannerData } from "../../types";
+
+export type ManifestEntryStatus = "ok" | "failed" | "skipped";
+
+export interface ManifestEntry {
+  file: string;                 // 输出文件路径（失败时为预定的路径）
+  status: ManifestEntryStatus;  // skipped：因缺图未导出
+  rowIndex: number | null;      // 数据行（从 0 开始），纯模板为 null
+  id?: string;
+  size?: string;                // 模板尺寸
+  scale?: number;
+  width?: number;               // 图片像素尺寸
+  height?: number;
+  bytes?: number;
+  sha256?: string;
+  values?: Record<string, unknown>;  // 最终使用的字段值（数据 + data-expr 计算字段 + 手动编辑），图片 Data URL 只保留摘要
+  warnings: string[];           // 文字溢出、缺图按策略处理、超过大小上限、重名改名等
+  error?: string;
+}
+
+export interface BatchManifest {
+  generatedAt: string;
+  template: { name: string; sha256: string };
+  data?: string | null;         // 数据文件名
+  total: number;
+  failed: number;
+  files: ManifestEntry[];
+}
+
+/**
+ * SHA-256（十六进制），浏览器和 Node 18+ 都使用 Web Crypto
+ */
+export async function sha256Hex(data: Blob | ArrayBuffer | Uint8Array | string): Promise<string> {
+  const bytes: BufferSource = typeof data === "string"
+    ? new TextEncoder().encode(data)
+    : data instanceof Blob
+      ? await data.arrayBuffer()
+      : data instanceof Uint8Array ? new Uint8Array(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * 模板的哈希：所有尺寸的 HTML 和 CSS（模板内容变化时哈希随之变化）
+ */
+export const hashTemplate = (htmls: string[], css: string): Promise<string> =>
+  sha256Hex([...htmls, css].join("\n/* ---- */\n"));
+
+/**
+ * 清单中的字段值：图片 Data URL 替换为类型和大小，避免清单体积过大
+ */
+export const summarizeValues = (data: BannerData): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(data).map(([key, value]) => {
+      if (typeof value === "string" && value.startsWith("data:")) {
+        const type = value.slice(5, value.indexOf(";") > 0 ? value.indexOf(";") : 30);
+        return [key, `[${type || "data"}，约 ${Math.ceil((value.length * 3) / 4 / 1024)}KB]`];
+      }
+      return [key, value];
+    })
+  );
+
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ["file", "status", "row", "id", "size", "scale", "width", "height", "bytes", "sha256", "warnings", "error"];
+
+/**
+ * 清单转换为 CSV：固定列在前，之后每个字段一列（按首次出现的顺序，与固定列同名的字段加 "data." 前缀）；
+ * 带 BOM，Excel 可以直接打开中文
+ */
+export const manifestToCsv = (manifest: BatchManifest): string => {
+  const fieldNames: string[] = [];
+  manifest.files.forEach((entry) => {
+    Object.keys(entry.values || {}).forEach((key) => {
+      if (key !== "id" && !fieldNames.includes(key)) fieldNames.push(key);
+    });
+  });
+
+  const header = [
+    ...CSV_COLUMNS,
+    ...fieldNames.map(name => (CSV_COLUMNS.includes(name) ? `data.${name}` : name)),
+  ].map(csvCell);
+  const lines = manifest.files.map((entry) => [
+    entry.file,
+    entry.status,
+    entry.rowIndex !== null ? entry.rowIndex + 1 : "template",
+    entry.id,
+    entry.size,
+    entry.scale,
+    entry.width,
+    entry.height,
+    entry.bytes,
+    entry.sha256,
+    entry.warnings.join("；"),
+    entry.error,
+    ...fieldNames.map(name => entry.values?.[name]),
+  ].map(csvCell).join(","));
+
+  return `\uFEFF${[header.join(","), ...lines].join("\r\n")}\r\n`;
+};
+
+/**
+ * 生成清单对象（files 按传入顺序）
+ */
+export const createManifest = (
+  files: ManifestEntry[],
+  template: { name: string; sha256: string },
+  data?: string | null
+): BatchManifest => ({
+  generatedAt: new Date().toISOString(),
+  template,
+  ...(data !== undefined && { data }),
+  total: files.length,
+  failed: files.filter(f => f.status !== "ok").length,
+  files,
+});
@@ -0,0 +1,204 @@
+/**
+ * 图片加载失败的检测和处理策略
+ *
+ * 数据应用后检查文档中每张图片是否加载成功（图片地址错误、文件不存在、网络图片无法访问），
+ * 失败的图片按字段设置的策略处理：
+ * - block：阻止导出这一行（默认，避免没有产品图的 banner 被误发出去）
+ * - placeholder：替换为灰色占位图，照常导出
+ * - hide：隐藏图片，照常导出
+ *
+ * 策略按模板保存到 localStorage（与字段映射相同，按模板文件名区分）
+ */
+import { ValidationIssue } from "./validation";
+
+export type MissingImagePolicy = "block" | "placeholder" | "hide";
+
+// 字段名 → 策略（没有设置的字段使用 DEFAULT_MISSING_IMAGE_POLICY）
+export type MissingImagePolicies = Record<string, MissingImagePolicy>;
+
+export interface ImageFailure {
+  field: string;     // 图片所属字段（data-field，重复区域中为列表字段），模板自带的图片为空字符串
+  label?: string;
+  src: string;       // 加载失败的地址（Data URL 只保留开头）
+  reason: string;
+  policy: MissingImagePolicy;
+}
+
+export const DEFAULT_MISSING_IMAGE_POLICY: MissingImagePolicy = "block";
+
+export const MISSING_IMAGE_POLICY_LABELS: Record<MissingImagePolicy, string> = {
+  block: "阻止导出",
+  placeholder: "使用占位图",
+  hide: "隐藏图片",
+};
+
+// 等待单张图片加载的最长时间，超时视为加载失败
+const IMAGE_LOAD_TIMEOUT_MS = 10000;
+
+const ATTR_MISSING = "data-image-missing";
+const ATTR_ORIGINAL_DISPLAY = "data-image-missing-display";
+const ATTR_ORIGINAL_SRC = "data-image-missing-src";
+
+const STORAGE_KEY_PREFIX = "bannergen:missingImagePolicy:";
+
+export const MISSING_IMAGE_PLACEHOLDER =
+  "data:image/svg+xml;charset=utf-8," +
+  encodeURIComponent(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200" viewBox="0 0 200 200">' +
+    '<rect width="200" height="200" fill="#f0f0f0"/>' +
+    '<path d="M60 130l30-36 22 26 16-18 22 28z" fill="#d0d0d0"/><circle cx="128" cy="74" r="12" fill="#d0d0d0"/>' +
+    '<text x="100" y="170" font-size="16" text-anchor="middle" fill="#999">图片缺失</text></svg>'
+  );
+
+/**
+ * 图片所属字段：自身的 data-field，或所在重复区域的列表字段
+ */
+const imageField = (img: HTMLImageElement): string =>
+  img.getAttribute("data-field") || img.closest("[data-repeat]")?.getAttribute("data-repeat") || "";
+
+const shortenSrc = (src: string): string => (src.startsWith("data:") ? `${src.slice(0, 40)}…` : src);
+
+/**
+ * 等待一张图片加载结束，返回失败原因（成功时为 null）
+ */
+const waitForImage = (img: HTMLImageElement, timeoutMs: number): Promise<string | null> => {
+  if (img.complete) {
+    return Promise.resolve(img.naturalWidth > 0 ? null : "图片无法加载");
+  }
+  return new Promise((resolve) => {
+    const finish = (reason: string | null) => {
+      clearTimeout(timer);
+      img.removeEventListener("load", onLoad);
+      img.removeEventListener("error", onError);
+      resolve(reason);
+    };
+    const onLoad = () => finish(img.naturalWidth > 0 ? null : "图片无法加载");
+    const onError = () => finish("图片无法加载");
+    const timer = setTimeout(() => finish(`加载超过 ${Math.round(timeoutMs / 1000)} 秒`), timeoutMs);
+    img.addEventListener("load", onLoad);
+    img.addEventListener("error", onError);
+  });
+};
+
+/**
+ * 还原上一次按策略替换/隐藏的图片（重新应用数据前调用，数据应用会重新设置 src）
+ */
+const restoreMissingImages = (doc: Document): void => {
+  doc.querySelectorAll<HTMLImageElement>(`img[${ATTR_MISSING}]`).forEach((img) => {
+    if (img.hasAttribute(ATTR_ORIGINAL_DISPLAY)) {
+      img.style.display = img.getAttribute(ATTR_ORIGINAL_DISPLAY) || "";
+      img.removeAttribute(ATTR_ORIGINAL_DISPLAY);
+    }
+    // 占位图还在（新数据没有设置这张图片）时恢复原地址
+    if (img.hasAttribute(ATTR_ORIGINAL_SRC)) {
+      if (img.getAttribute("src") === MISSING_IMAGE_PLACEHOLDER) {
+        img.setAttribute("src", img.getAttribute(ATTR_ORIGINAL_SRC) || "");
+      }
+      img.removeAttribute(ATTR_ORIGINAL_SRC);
+    }
+    img.removeAttribute(ATTR_MISSING);
+  });
+};
+
+/**
+ * 检查文档中所有图片，按策略处理加载失败的图片，返回失败列表
+ * 需要在数据应用（和图片处理）之后调用；没有 src 的图片不检查
+ * defaultPolicy：policies 中没有设置的字段使用的策略
+ */
+export const checkDocumentImages = async (
+  doc: Document,
+  policies: MissingImagePolicies = {},
+  defaultPolicy: MissingImagePolicy = DEFAULT_MISSING_IMAGE_POLICY
+): Promise<ImageFailure[]> => {
+  restoreMissingImages(doc);
+
+  const images = Array.from(doc.querySelectorAll<HTMLImageElement>("img[src]"))
+    .filter(img => img.getAttribute("src") && img.getAttribute("src") !== MISSING_IMAGE_PLACEHOLDER);
+  const reasons = await Promise.all(images.map(img => waitForImage(img, IMAGE_LOAD_TIMEOUT_MS)));
+
+  const failures: ImageFailure[] = [];
+  const replaced: HTMLImageElement[] = [];
+  images.forEach((img, index) => {
+    const reason = reasons[index];
+    if (!reason) return;
+
+    const field = imageField(img);
+    const policy = policies[field] || defaultPolicy;
+    failures.push({
+      field,
+      label: img.getAttribute("data-label") || img.closest("[data-repeat]")?.getAttribute("data-label") || undefined,
+      src: shortenSrc(img.getAttribute("src") || ""),
+      reason,
+      policy,
+    });
+
+    if (policy === "placeholder") {
+      img.setAttribute(ATTR_MISSING, "placeholder");
+      img.setAttribute(ATTR_ORIGINAL_SRC, img.getAttribute("src") || "");
+      img.src = MISSING_IMAGE_PLACEHOLDER;
+      replaced.push(img);
+    } else if (policy === "hide") {
+      img.setAttribute(ATTR_MISSING, "hide");
+      img.setAttribute(ATTR_ORIGINAL_DISPLAY, img.style.display);
+      img.style.display = "none";
+    } else {
+      img.setAttribute(ATTR_MISSING, "block");
+    }
+  });
+
+  // 等待占位图解码，导出时不会截到空白
+  await Promise.all(replaced.map(img => img.decode?.().catch(() => undefined)));
+  return failures;
+};
+
+/**
+ * 是否有按"阻止导出"处理的失败图片
+ */
+export const isExportBlocked = (failures: ImageFailure[]): boolean =>
+  failures.some(f => f.policy === "block");
+
+const failureName = (failure: ImageFailure): string =>
+  failure.label || failure.field || "模板图片";
+
+/**
+ * 一行的失败图片的简短说明，如 "主产品图片（图片无法加载：a.png）"
+ */
+export const describeImageFailures = (failures: ImageFailure[]): string =>
+  failures.map(f => `${failureName(f)}（${f.reason}：${f.src}）`).join("、");
+
+/**
+ * 把失败图片转换为校验报告中的提示：阻止导出的为错误，其他为提示
+ */
+export const imageFailuresToIssues = (rowIndex: number, failures: ImageFailure[]): ValidationIssue[] =>
+  failures.map(f => ({
+    rowIndex,
+    field: f.field || undefined,
+    severity: f.policy === "block" ? "error" as const : "warning" as const,
+    message: `图片「${failureName(f)}」${f.reason}：${f.src}${
+      f.policy === "block" ? "，该行不会导出" : `，已${MISSING_IMAGE_POLICY_LABELS[f.policy]}`
+    }`,
+  }));
+
+/**
+ * 读取某个模板保存过的缺图策略
+ */
+export function loadMissingImagePolicies(templateKey: string): MissingImagePolicies {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY_PREFIX + templateKey);
+    return raw ? (JSON.parse(raw) as MissingImagePolicies) : {};
+  } catch (e) {
+    console.warn("读取缺图策略失败:", e);
+    return {};
+  }
+}
+
+/**
+ * 保存某个模板的缺图策略
+ */
+export function saveMissingImagePolicies(templateKey: string, policies: MissingImagePolicies): void {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + templateKey, JSON.stringify(policies));
+  } catch (e) {
+    console.warn("保存缺图策略失败:", e);
+  }
+}
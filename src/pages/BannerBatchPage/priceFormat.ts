@@ -0,0 +1,271 @@
+/**
+ * 价格组件：按模板属性格式化并渲染价格，一个模板可以有多个价格元素
+ *
+ * 两种绑定方式：
+ * - 整数/小数分开绑定：<p class="price" data-field-int="sec_price_int" data-field-decimal="sec_price_decimal">
+ * - 整个价格绑定一个字段：<p data-price="final_price">，字段值如 "1299.5"、"¥39.90"、"1,299"
+ *
+ * 可选属性（两种方式通用）：
+ * - data-price-decimals：小数位，"auto" 去掉末尾的 0（.0 / .50 → 无 / .5）、"keep" 保持原样、
+ *   "0" / "1" / "2" 固定位数（整个价格绑定时默认 auto，分开绑定时默认 keep）
+ * - data-price-rounding：固定位数时的取整方式 "round"（默认）/ "floor" / "ceil"
+ * - data-price-thousands：千位分隔符（空属性时为 ","）
+ * - data-price-currency：货币符号（默认使用模板中 .sign 的内容，整个价格绑定且没有 .sign 时为 "¥"；"" 不显示）
+ * - data-price-currency-position：货币符号位置 "before"（默认）/ "after"
+ * - data-price-label：价格标签，如 "到手价"、"券后价"；data-price-label-position 为 "before"（默认）/ "after"
+ * - data-price-strike：划线价（原价），整体加删除线
+ *
+ * 渲染结构：.price-label + .sign + .price-int + .price-decimal
+ * 价格元素上会设置 data-digits（整数位数，1-5）和 price--Ndigits class，模板可以按位数调整字号；
+ * 同时保留旧模板使用的 price-int-2 / price-int-3、price-decimal-2 / price-decimal-3、price--2digits / price--3digits
+ */
+
+export interface PriceFormatOptions {
+  decimals: "auto" | "keep" | number;
+  rounding: "round" | "floor" | "ceil";
+  thousands: string;
+}
+
+export interface PriceParts {
+  int: string;
+  decimal: string;     // 不带小数点
+}
+
+const MAX_DIGITS = 5;
+
+// 原始值记录在元素上，编辑和撤销时读取（显示的文本可能带千位分隔符或被取整）
+const ATTR_VALUE = "data-price-value";
+const ATTR_INT_VALUE = "data-price-int-value";
+const ATTR_DECIMAL_VALUE = "data-price-decimal-value";
+// 模板中原有的货币符号
+const ATTR_TEMPLATE_SIGN = "data-price-template-sign";
+
+const LEGACY_INT_CLASSES = ["price-int-2", "price-int-3"];
+const LEGACY_DECIMAL_CLASSES = ["price-decimal-2", "price-decimal-3"];
+const LEGACY_BASE_CLASSES = ["price--2digits", "price--3digits"];
+
+export const PRICE_ELEMENT_SELECTOR = "[data-field-int], [data-field-decimal], [data-price]";
+
+/**
+ * 拆分价格文本："¥1,299.50" → { int: "1299", decimal: "50" }；不是数字时返回 null
+ */
+export const parsePriceValue = (value: string): PriceParts | null => {
+  const text = value.trim().replace(/^[¥￥$]\s*/, "").replace(/[,，\s]/g, "");
+  const match = text.match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  return { int: match[1] || "0", decimal: match[2] || "" };
+};
+
+/**
+ * 按格式选项处理整数和小数部分；不是数字的内容原样返回
+ */
+export const formatPriceParts = (int: string, decimal: string, options: PriceFormatOptions): PriceParts => {
+  const cleanDecimal = decimal.replace(/^\./, "");
+  if (!/^\d+$/.test(int) || (cleanDecimal && !/^\d+$/.test(cleanDecimal))) {
+    return { int, decimal: cleanDecimal };
+  }
+
+  let parts: PriceParts = { int, decimal: cleanDecimal };
+  if (typeof options.decimals === "number") {
+    const factor = Math.pow(10, options.decimals);
+    // 先消除浮点误差（如 19.9 * 100 = 1989.9999999999998）
+    const scaled = Math.round(Number(`${int}.${cleanDecimal || "0"}`) * factor * 1e6) / 1e6;
+    const fixed = (Math[options.rounding](scaled) / factor).toFixed(options.decimals);
+    const [fixedInt, fixedDecimal = ""] = fixed.split(".");
+    parts = { int: fixedInt, decimal: fixedDecimal };
+  } else if (options.decimals === "auto") {
+    parts = { int: String(Number(int)), decimal: cleanDecimal.replace(/0+$/, "") };
+  }
+
+  if (options.thousands) {
+    parts.int = parts.int.replace(/\B(?=(\d{3})+(?!\d))/g, options.thousands);
+  }
+  return parts;
+};
+
+/**
+ * 读取元素上的格式属性
+ */
+export const getPriceFormatOptions = (el: Element): PriceFormatOptions => {
+  const decimalsAttr = el.getAttribute("data-price-decimals");
+  const defaultDecimals = el.hasAttribute("data-price") ? "auto" : "keep";
+  let decimals: PriceFormatOptions["decimals"] = defaultDecimals;
+  if (decimalsAttr === "auto" || decimalsAttr === "keep") {
+    decimals = decimalsAttr;
+  } else if (decimalsAttr && /^\d$/.test(decimalsAttr)) {
+    decimals = Number(decimalsAttr);
+  }
+
+  const roundingAttr = el.getAttribute("data-price-rounding");
+  const rounding = roundingAttr === "floor" || roundingAttr === "ceil" ? roundingAttr : "round";
+
+  const thousandsAttr = el.getAttribute("data-price-thousands");
+  const thousands = thousandsAttr === null ? "" : thousandsAttr || ",";
+
+  return { decimals, rounding, thousands };
+};
+
+/**
+ * 模板中所有价格元素绑定的字段名
+ */
+export const getPriceFieldNames = (doc: Document): string[] => {
+  const names = new Set<string>();
+  doc.querySelectorAll(PRICE_ELEMENT_SELECTOR).forEach((el) => {
+    ["data-price", "data-field-int", "data-field-decimal"].forEach((attr) => {
+      const name = el.getAttribute(attr);
+      if (name) names.add(name);
+    });
+  });
+  return Array.from(names);
+};
+
+/**
+ * 绑定了某个字段的价格元素
+ */
+export const findPriceElements = (doc: Document, fieldName: string): HTMLElement[] =>
+  Array.from(doc.querySelectorAll<HTMLElement>(PRICE_ELEMENT_SELECTOR)).filter((el) =>
+    el.getAttribute("data-price") === fieldName ||
+    el.getAttribute("data-field-int") === fieldName ||
+    el.getAttribute("data-field-decimal") === fieldName
+  );
+
+const queryText = (el: HTMLElement, selector: string): string | undefined => {
+  const node = el.querySelector(selector);
+  return node ? (node.textContent || "").trim() : undefined;
+};
+
+/**
+ * 从元素当前内容读取整数和小数（兼容旧结构：.sign 后的文本节点 + .decimal span）
+ */
+const readRenderedParts = (el: HTMLElement): { int: string; decimal: string } => {
+  let int = queryText(el, ".price-int, .price-int-2, .price-int-3");
+  if (int === undefined) {
+    const signNode = el.querySelector(".sign");
+    int = signNode?.nextSibling?.nodeType === Node.TEXT_NODE
+      ? (signNode.nextSibling.nodeValue || "").trim()
+      : (el.firstChild?.nodeType === Node.TEXT_NODE ? (el.firstChild.nodeValue || "").trim() : "");
+  }
+  const decimal = queryText(el, ".price-decimal, .price-decimal-2, .price-decimal-3, .decimal") || "";
+  return { int, decimal };
+};
+
+/**
+ * 读取价格字段的当前值（没有绑定该字段的价格元素时返回 undefined）
+ */
+export const readPriceFieldValue = (doc: Document, fieldName: string): string | undefined => {
+  const el = findPriceElements(doc, fieldName)[0];
+  if (!el) return undefined;
+
+  if (el.getAttribute("data-price") === fieldName) {
+    const stored = el.getAttribute(ATTR_VALUE);
+    if (stored !== null) return stored;
+    const { int, decimal } = readRenderedParts(el);
+    return decimal ? `${int}.${decimal.replace(/^\./, "")}` : int;
+  }
+
+  const isInt = el.getAttribute("data-field-int") === fieldName;
+  const stored = el.getAttribute(isInt ? ATTR_INT_VALUE : ATTR_DECIMAL_VALUE);
+  if (stored !== null) return stored;
+  const rendered = readRenderedParts(el);
+  return isInt ? rendered.int : rendered.decimal;
+};
+
+const createSpan = (doc: Document, className: string, text: string): HTMLElement => {
+  const span = doc.createElement("span");
+  span.className = className;
+  span.textContent = text;
+  return span;
+};
+
+/**
+ * 按格式选项重新生成价格元素的内容
+ */
+const renderPriceElement = (el: HTMLElement, int: string, decimal: string): void => {
+  const doc = el.ownerDocument;
+  const parts = formatPriceParts(int, decimal, getPriceFormatOptions(el));
+
+  // 第一次渲染时记录模板中的货币符号
+  const templateSign = el.querySelector<HTMLElement>(".sign");
+  if (!el.hasAttribute(ATTR_TEMPLATE_SIGN)) {
+    el.setAttribute(ATTR_TEMPLATE_SIGN, templateSign ? templateSign.textContent || "" : "");
+  }
+  const currencyAttr = el.getAttribute("data-price-currency");
+  const currency = currencyAttr !== null
+    ? currencyAttr
+    : el.getAttribute(ATTR_TEMPLATE_SIGN) || (el.hasAttribute("data-price") ? "¥" : "");
+
+  // 保留模板 .sign 的属性和样式
+  const signSpan = templateSign ? (templateSign.cloneNode(false) as HTMLElement) : createSpan(doc, "sign", "");
+  signSpan.textContent = currency;
+
+  const digits = Math.min(MAX_DIGITS, Math.max(1, parts.int.replace(/\D/g, "").length));
+  const legacyIndex = digits <= 2 ? 0 : 1;
+  const intSpan = createSpan(doc, `price-int ${LEGACY_INT_CLASSES[legacyIndex]}`, parts.int);
+  const decimalSpan = createSpan(doc, `price-decimal ${LEGACY_DECIMAL_CLASSES[legacyIndex]}`, parts.decimal ? `.${parts.decimal}` : "");
+
+  const label = el.getAttribute("data-price-label");
+  const labelSpan = label ? createSpan(doc, "price-label", label) : null;
+  const labelAfter = el.getAttribute("data-price-label-position") === "after";
+  const currencyAfter = el.getAttribute("data-price-currency-position") === "after";
+
+  const children: HTMLElement[] = [];
+  if (labelSpan && !labelAfter) children.push(labelSpan);
+  if (currency && !currencyAfter) children.push(signSpan);
+  children.push(intSpan, decimalSpan);
+  if (currency && currencyAfter) children.push(signSpan);
+  if (labelSpan && labelAfter) children.push(labelSpan);
+  el.replaceChildren(...children);
+
+  // 按整数位数切换 class
+  for (let n = 1; n <= MAX_DIGITS; n++) {
+    el.classList.remove(`price--${n}digits`);
+  }
+  el.classList.remove(...LEGACY_BASE_CLASSES);
+  el.classList.add(LEGACY_BASE_CLASSES[legacyIndex], `price--${digits}digits`);
+  el.setAttribute("data-digits", String(digits));
+
+  if (el.hasAttribute("data-price-strike")) {
+    el.classList.add("price--strike");
+    el.style.textDecoration = "line-through";
+  }
+};
+
+/**
+ * 把一个价格字段的值写入所有绑定它的价格元素，返回是否找到了价格元素
+ */
+export const updatePriceField = (doc: Document, fieldName: string, value: string): boolean => {
+  const elements = findPriceElements(doc, fieldName);
+  elements.forEach((el) => {
+    if (el.getAttribute("data-price") === fieldName) {
+      el.setAttribute(ATTR_VALUE, value);
+      const parts = parsePriceValue(value);
+      renderPriceElement(el, parts ? parts.int : value, parts ? parts.decimal : "");
+      return;
+    }
+
+    // 整数/小数分开绑定：另一部分沿用当前值
+    const rendered = readRenderedParts(el);
+    const int = el.getAttribute("data-field-int") === fieldName
+      ? value
+      : el.getAttribute(ATTR_INT_VALUE) ?? rendered.int;
+    const decimal = el.getAttribute("data-field-decimal") === fieldName
+      ? value
+      : el.getAttribute(ATTR_DECIMAL_VALUE) ?? rendered.decimal;
+    el.setAttribute(ATTR_INT_VALUE, int);
+    el.setAttribute(ATTR_DECIMAL_VALUE, decimal);
+    renderPriceElement(el, int.trim(), decimal.trim());
+  });
+  return elements.length > 0;
+};
+
+/**
+ * 应用一条数据中的所有价格字段（getValue 返回 undefined 的字段保持模板原样）
+ */
+export const applyPriceFields = (doc: Document, getValue: (fieldName: string) => string | undefined): void => {
+  getPriceFieldNames(doc).forEach((fieldName) => {
+    const value = getValue(fieldName);
+    if (value !== undefined) {
+      updatePriceField(doc, fieldName, value);
+    }
+  });
+};
@@ -0,0 +1,135 @@
+/**
+ * 项目文件（.bannerproj）：把模板、数据、编辑值和设置保存为一个 ZIP 文件
+ *
+ * 结构：
+ *   project.json    // 会话状态（模板 HTML/CSS 中的图片和字体已由 processZipFile 内联为 Base64）
+ */
+import JSZip from "jszip";
+import { BannerData } from "../../types";
+import { TemplateField, TemplateVariant } from "./types";
+import { FieldMapping } from "./fieldMapping";
+import { DEFAULT_EXPORT_SETTINGS, ExportSettings } from "./exportSettings";
+
+export const PROJECT_FILE_EXTENSION = ".bannerproj";
+export const PROJECT_FORMAT_VERSION = 1;
+
+const PROJECT_ENTRY = "project.json";
+
+/**
+ * 模板资源（与页面中的 templateAssets 一致）
+ */
+export interface ProjectTemplate {
+  html: string;
+  css: string;
+  fields: TemplateField[];
+  fileName: string;
+  imageMap?: Record<string, string>;
+  variants?: TemplateVariant[];
+}
+
+/**
+ * 可以完整恢复一次编辑会话的状态
+ */
+export interface BannerProject {
+  version: number;
+  savedAt: string;
+  name: string;                    // 项目名称（默认使用模板文件名）
+  htmlContent: string;
+  cssContent: string;
+  htmlFileName: string;
+  cssFileName: string;
+  templateFields: TemplateField[];
+  templateAssets: ProjectTemplate | null;
+  activeVariantIndex: number;
+  jsonData: BannerData[];
+  editedValues: Record<number, Record<string, string>>;
+  currentIndex: number;
+  excelImport: {
+    fileName: string;
+    headers: string[];
+    rows: Record<string, any>[];
+  } | null;
+  fieldMapping: FieldMapping;
+  exportSettings: ExportSettings;
+}
+
+/**
+ * 判断会话是否有需要保存的内容
+ */
+export function isProjectEmpty(project: Pick<BannerProject, "htmlContent" | "jsonData" | "excelImport">): boolean {
+  return !project.htmlContent && project.jsonData.length === 0 && !project.excelImport;
+}
+
+/**
+ * 校验并补全读取到的项目数据
+ */
+export function normalizeProject(raw: unknown): BannerProject {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("项目文件内容无效");
+  }
+  const project = raw as Partial<BannerProject>;
+  if (typeof project.version !== "number") {
+    throw new Error("项目文件缺少版本信息");
+  }
+  if (project.version > PROJECT_FORMAT_VERSION) {
+    throw new Error(`项目文件版本（${project.version}）高于当前工具支持的版本（${PROJECT_FORMAT_VERSION}），请升级后再打开`);
+  }
+
+  return {
+    version: project.version,
+    savedAt: project.savedAt || "",
+    name: project.name || "",
+    htmlContent: project.htmlContent || "",
+    cssContent: project.cssContent || "",
+    htmlFileName: project.htmlFileName || "",
+    cssFileName: project.cssFileName || "",
+    templateFields: project.templateFields || [],
+    templateAssets: project.templateAssets || null,
+    activeVariantIndex: project.activeVariantIndex || 0,
+    jsonData: Array.isArray(project.jsonData) ? project.jsonData : [],
+    editedValues: project.editedValues || {},
+    currentIndex: project.currentIndex || 0,
+    excelImport: project.excelImport || null,
+    fieldMapping: project.fieldMapping || {},
+    exportSettings: { ...DEFAULT_EXPORT_SETTINGS, ...(project.exportSettings || {}) },
+  };
+}
+
+/**
+ * 把项目打包为 .bannerproj（ZIP）
+ */
+export async function createProjectFile(project: BannerProject): Promise<Blob> {
+  const zip = new JSZip();
+  zip.file(PROJECT_ENTRY, JSON.stringify(project));
+  return zip.generateAsync({
+    type: "blob",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+}
+
+/**
+ * 读取 .bannerproj 文件
+ */
+export async function readProjectFile(file: File): Promise<BannerProject> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("无法读取项目文件，请确认是 .bannerproj 文件");
+  }
+
+  const entry = zip.file(PROJECT_ENTRY);
+  if (!entry) {
+    throw new Error(`项目文件中缺少 ${PROJECT_ENTRY}`);
+  }
+
+  try {
+    return normalizeProject(JSON.parse(await entry.async("string")));
+  } catch (e) {
+    if (e instanceof SyntaxError) {
+      throw new Error("项目文件已损坏（project.json 格式错误）");
+    }
+    throw e;
+  }
+}
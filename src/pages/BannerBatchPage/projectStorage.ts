@@ -0,0 +1,76 @@
+/**
+ * 当前会话自动保存到 IndexedDB（刷新页面后可恢复）
+ * 模板中内联了 Base64 图片，体积常常超过 localStorage 的上限，所以使用 IndexedDB
+ */
+import { BannerProject, normalizeProject } from "./projectFile";
+
+const DB_NAME = "bannergen";
+const DB_VERSION = 1;
+const STORE_NAME = "sessions";
+const AUTOSAVE_KEY = "autosave";
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 在 sessions 表上执行一次请求，完成后关闭数据库
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = createRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * 保存当前会话
+ */
+export async function saveAutosave(project: BannerProject): Promise<void> {
+  try {
+    await runRequest("readwrite", store => store.put(project, AUTOSAVE_KEY));
+  } catch (e) {
+    console.warn("自动保存失败:", e);
+  }
+}
+
+/**
+ * 读取自动保存的会话（没有或读取失败时返回 null）
+ */
+export async function loadAutosave(): Promise<BannerProject | null> {
+  try {
+    const raw = await runRequest("readonly", store => store.get(AUTOSAVE_KEY));
+    return raw ? normalizeProject(raw) : null;
+  } catch (e) {
+    console.warn("读取自动保存的会话失败:", e);
+    return null;
+  }
+}
+
+/**
+ * 清除自动保存的会话
+ */
+export async function clearAutosave(): Promise<void> {
+  try {
+    await runRequest("readwrite", store => store.delete(AUTOSAVE_KEY));
+  } catch (e) {
+    console.warn("清除自动保存失败:", e);
+  }
+}
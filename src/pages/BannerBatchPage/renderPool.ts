@@ -0,0 +1,178 @@
+/**
+ * 批量生成的渲染池：N 个屏幕外的 iframe 并行渲染数据
+ *
+ * 每个 iframe 依次从队列中取任务，切换尺寸时重新加载对应的模板 HTML；
+ * 取消后不再取新任务，正在渲染的任务完成后退出，剩余任务标记为已取消
+ */
+import { BannerData } from "../../types";
+import { TemplateVariant } from "./types";
+import { loadIframeSrcDoc } from "./renderReady";
+import { MAX_RENDER_CONCURRENCY } from "./exportSettings";
+
+export type RenderJobStatus = "pending" | "rendering" | "done" | "failed" | "skipped" | "cancelled";
+
+export interface RenderJob {
+  key: string;                       // 任务标识（尺寸 + 数据行），用于状态和重试
+  variant: TemplateVariant | null;   // 多尺寸模板集中的尺寸，单个模板时为 null
+  rowIndex: number | null;           // 数据行，null 表示纯模板
+  label: string;                     // 显示名称，如 "#3（750x400）"
+}
+
+export interface RenderJobResult {
+  status: "done" | "failed" | "skipped";
+  error?: string;
+}
+
+// 一批任务的进度（用于进度条、每条状态和重试失败的任务）
+export interface BatchProgress {
+  jobs: RenderJob[];
+  statuses: Record<string, { status: RenderJobStatus; error?: string }>;
+  startedAt: number;
+  finishedAt?: number;
+  cancelled?: boolean;
+}
+
+export interface RenderPoolOptions {
+  concurrency: number;
+  signal?: AbortSignal;
+  buildSrcDoc: (variant: TemplateVariant | null) => string;
+  frameSize: (variant: TemplateVariant | null) => { width: number; height: number };
+  onJobStatus?: (job: RenderJob, status: RenderJobStatus, error?: string) => void;
+}
+
+const variantKey = (variant: TemplateVariant | null): string => (variant ? variant.name : "");
+
+/**
+ * 生成一批任务：每个尺寸先导出纯模板（includeTemplate 为 false 时跳过），再导出所有数据
+ * 第一条数据为空对象时是纯模板，不作为数据导出
+ */
+export const createRenderJobs = (
+  variants: (TemplateVariant | null)[],
+  rows: BannerData[],
+  includeTemplate: boolean
+): RenderJob[] => {
+  const jobs: RenderJob[] = [];
+  variants.forEach((variant) => {
+    const sizeLabel = variant ? `（${variant.size}）` : "";
+    if (includeTemplate) {
+      jobs.push({ key: `${variantKey(variant)}:template`, variant, rowIndex: null, label: `模板${sizeLabel}` });
+    }
+    rows.forEach((row, i) => {
+      if (i === 0 && Object.keys(row).length === 0) return;
+      jobs.push({ key: `${variantKey(variant)}:${i}`, variant, rowIndex: i, label: `#${i + 1}${sizeLabel}` });
+    });
+  });
+  return jobs;
+};
+
+/**
+ * 创建屏幕外的 iframe 容器（与页面中隐藏的导出 iframe 相同：移出可视区域，但保持正常布局和渲染）
+ */
+const createOffscreenHost = (): HTMLDivElement => {
+  const host = document.createElement("div");
+  host.setAttribute("aria-hidden", "true");
+  Object.assign(host.style, {
+    position: "absolute",
+    left: "-99999px",
+    top: "-99999px",
+    width: "1px",
+    height: "1px",
+    overflow: "hidden",
+  });
+  document.body.appendChild(host);
+  return host;
+};
+
+/**
+ * 用 N 个 iframe 并行执行渲染任务
+ * worker 负责应用数据并导出（iframe 已加载任务对应尺寸的模板）；抛出的错误记为该任务失败
+ */
+export async function runRenderPool(
+  jobs: RenderJob[],
+  options: RenderPoolOptions,
+  worker: (job: RenderJob, iframe: HTMLIFrameElement) => Promise<RenderJobResult>
+): Promise<void> {
+  const { signal, onJobStatus } = options;
+  const concurrency = Math.max(1, Math.min(MAX_RENDER_CONCURRENCY, Math.floor(options.concurrency) || 1, jobs.length));
+  const host = createOffscreenHost();
+  let next = 0;
+
+  const runSlot = async () => {
+    const iframe = document.createElement("iframe");
+    iframe.title = "banner-export-pool";
+    iframe.setAttribute("sandbox", "allow-same-origin");
+    iframe.style.border = "none";
+    host.appendChild(iframe);
+    let loadedVariant: string | null = null;
+
+    while (next < jobs.length && !signal?.aborted) {
+      const job = jobs[next++];
+      onJobStatus?.(job, "rendering");
+      try {
+        // 切换尺寸（或第一次使用）时加载模板；纯模板任务总是重新加载，保证没有残留的数据
+        if (loadedVariant !== variantKey(job.variant) || job.rowIndex === null) {
+          const size = options.frameSize(job.variant);
+          iframe.style.width = `${size.width}px`;
+          iframe.style.height = `${size.height}px`;
+          loadedVariant = null;
+          await loadIframeSrcDoc(iframe, options.buildSrcDoc(job.variant));
+          loadedVariant = variantKey(job.variant);
+        }
+        const result = await worker(job, iframe);
+        onJobStatus?.(job, result.status, result.error);
+      } catch (err) {
+        console.error(`渲染 ${job.label} 失败:`, err);
+        onJobStatus?.(job, "failed", err instanceof Error ? err.message : String(err));
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: concurrency }, runSlot));
+  } finally {
+    host.remove();
+  }
+
+  // 取消后剩余的任务
+  if (signal?.aborted) {
+    jobs.slice(next).forEach(job => onJobStatus?.(job, "cancelled"));
+  }
+}
+
+/**
+ * 创建一批任务的初始进度（全部为等待中）
+ */
+export const createBatchProgress = (jobs: RenderJob[]): BatchProgress => ({
+  jobs,
+  statuses: Object.fromEntries(jobs.map(job => [job.key, { status: "pending" as RenderJobStatus }])),
+  startedAt: Date.now(),
+});
+
+/**
+ * 统计各状态的任务数
+ */
+export const countJobStatuses = (progress: BatchProgress): Record<RenderJobStatus, number> => {
+  const counts: Record<RenderJobStatus, number> = { pending: 0, rendering: 0, done: 0, failed: 0, skipped: 0, cancelled: 0 };
+  progress.jobs.forEach((job) => {
+    counts[progress.statuses[job.key]?.status || "pending"]++;
+  });
+  return counts;
+};
+
+/**
+ * 按已完成任务的平均耗时估算剩余时间（毫秒），还没有完成的任务时返回 null
+ */
+export const estimateRemainingMs = (progress: BatchProgress, now = Date.now()): number | null => {
+  const counts = countJobStatuses(progress);
+  const finished = counts.done + counts.failed + counts.skipped;
+  if (finished === 0) return null;
+  return ((now - progress.startedAt) / finished) * (counts.pending + counts.rendering);
+};
+
+/**
+ * 可以重试的任务（失败或因缺图跳过）
+ */
+export const getRetryableJobKeys = (progress: BatchProgress): string[] =>
+  progress.jobs
+    .filter(job => ["failed", "skipped"].includes(progress.statuses[job.key]?.status))
+    .map(job => job.key);
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRenderDeadline, waitForLayoutStable, waitForRenderReady, withinDeadline } from "./renderReady";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("waitForLayoutStable", () => {
+  it("标签页在后台（requestAnimationFrame 不触发）时按定时器继续", async () => {
+    vi.spyOn(document, "visibilityState", "get").mockReturnValue("hidden");
+    const raf = vi.spyOn(window, "requestAnimationFrame").mockImplementation(() => 0);
+    document.body.innerHTML = `<div class="container"></div>`;
+
+    await waitForLayoutStable(document);
+    expect(raf).not.toHaveBeenCalled();
+  });
+
+  it("等待中切到后台时由定时器兜底", async () => {
+    vi.spyOn(window, "requestAnimationFrame").mockImplementation(() => 0);
+    document.body.innerHTML = `<div class="container"></div>`;
+
+    await waitForLayoutStable(document);
+  });
+});
+
+describe("withinDeadline", () => {
+  it("超过单张渲染超时时说明卡住的步骤", async () => {
+    const deadline = createRenderDeadline(50);
+    await expect(withinDeadline(deadline, new Promise(() => undefined), "处理图片"))
+      .rejects.toThrow("渲染超时（0.05 秒）：处理图片");
+  });
+
+  it("后续步骤使用剩余的时间", async () => {
+    const deadline = { timeoutMs: 30000, startedAt: Date.now() - 30000 };
+    await expect(withinDeadline(deadline, new Promise(() => undefined), "检查图片"))
+      .rejects.toThrow("渲染超时（30 秒）：检查图片");
+  });
+});
+
+describe("waitForRenderReady", () => {
+  it("使用传入的截止时间", async () => {
+    document.body.innerHTML = `<div class="container"></div>`;
+    const deadline = { timeoutMs: 30000, startedAt: Date.now() - 30000 };
+    vi.spyOn(window, "requestAnimationFrame").mockImplementation(() => 0);
+    await expect(waitForRenderReady(document, { deadline })).rejects.toThrow(/渲染超时（30 秒）/);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * 渲染就绪信号：代替批量生成中固定的 setTimeout 等待
+ *
+ * 每条数据应用后依次等待：
+ * 1. 所有图片解码完成（img.decode()，加载失败的图片视为已结束，由缺图策略处理）
+ * 2. 字体加载完成（document.fonts.ready）
+ * 3. 布局稳定（连续两帧导出元素的尺寸不再变化）
+ *
+ * 超过单张渲染超时仍未就绪时抛出错误，并指明卡住的图片或阶段。
+ * 就绪之后的图片处理、缺图检查和重新等待布局稳定与就绪等待共用同一个单张超时（RenderDeadline）
+ */
+
+// 单张渲染的默认超时
+export const DEFAULT_RENDER_TIMEOUT_MS = 30000;
+
+// 布局稳定检测最多等待的帧数（超过后按当前布局导出）
+const MAX_LAYOUT_FRAMES = 30;
+
+// 单张渲染的截止时间（纯数据，命令行中可以传入浏览器）
+export interface RenderDeadline {
+  timeoutMs: number;
+  startedAt: number;
+}
+
+export interface RenderReadyOptions {
+  timeoutMs?: number;
+  deadline?: RenderDeadline; // 与后续步骤共用的截止时间（传入时忽略 timeoutMs）
+  exportSelector?: string;   // 用于判断布局是否稳定的元素，默认 .container（没有时为 body）
+}
+
+const shortenSrc = (src: string): string => (src.startsWith("data:") ? `${src.slice(0, 40)}…` : src);
+
+const describeImage = (img: HTMLImageElement): string => {
+  const name = img.getAttribute("data-label") || img.getAttribute("data-field");
+  const src = shortenSrc(img.getAttribute("src") || "");
+  return name ? `${name}（${src}）` : src;
+};
+
+// 标签页在后台时 requestAnimationFrame 不触发，改用定时器（后台标签页的定时器最慢约 1 秒一次）
+const FRAME_FALLBACK_MS = 100;
+
+const isHidden = (doc: Document): boolean =>
+  doc.visibilityState === "hidden" || (typeof document !== "undefined" && document.visibilityState === "hidden");
+
+/**
+ * 等待下一帧（iframe 文档的 requestAnimationFrame）；标签页在后台或没有 requestAnimationFrame 时退回 setTimeout，
+ * 等待中切到后台时也由定时器兜底
+ */
+const nextFrame = (doc: Document): Promise<void> => {
+  const win = doc.defaultView;
+  return new Promise((resolve) => {
+    if (!win?.requestAnimationFrame || isHidden(doc)) {
+      setTimeout(resolve, 16);
+      return;
+    }
+    const timer = setTimeout(resolve, FRAME_FALLBACK_MS);
+    win.requestAnimationFrame(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+};
+
+/**
+ * 带超时地等待一个 Promise，超时时用 describe() 生成错误信息
+ */
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, describe: () => string): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(describe())), timeoutMs);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (err) => {
+        clearTimeout(timer);
+        reject(err);
+      }
+    );
+  });
+
+/**
+ * 开始一张渲染的计时
+ */
+export const createRenderDeadline = (timeoutMs = DEFAULT_RENDER_TIMEOUT_MS): RenderDeadline => ({
+  timeoutMs,
+  startedAt: Date.now(),
+});
+
+const remainingMs = (deadline: RenderDeadline): number =>
+  Math.max(0, deadline.startedAt + deadline.timeoutMs - Date.now());
+
+/**
+ * 在单张渲染的剩余时间内等待一个步骤，超时时抛出 "渲染超时（30 秒）：{stage}"
+ */
+export const withinDeadline = <T>(deadline: RenderDeadline, promise: Promise<T>, stage: string): Promise<T> =>
+  withTimeout(promise, remainingMs(deadline), () => `渲染超时（${deadline.timeoutMs / 1000} 秒）：${stage}`);
+
+/**
+ * 设置 iframe 的 srcdoc 并等待 load 事件
+ */
+export const loadIframeSrcDoc = (
+  iframe: HTMLIFrameElement,
+  srcDoc: string,
+  timeoutMs = DEFAULT_RENDER_TIMEOUT_MS
+): Promise<void> => {
+  let onLoad: () => void = () => undefined;
+  const loaded = new Promise<void>((resolve) => {
+    onLoad = () => resolve();
+    iframe.addEventListener("load", onLoad, { once: true });
+  });
+  iframe.srcdoc = srcDoc;
+  return withTimeout(loaded, timeoutMs, () => {
+    iframe.removeEventListener("load", onLoad);
+    return `模板加载超时（${timeoutMs / 1000} 秒）`;
+  });
+};
+
+/**
+ * 等待文档中所有图片解码完成，未完成的图片记录在 pending 中（用于超时提示）
+ */
+const waitForImages = (doc: Document, pending: Set<HTMLImageElement>): Promise<void> => {
+  const images = Array.from(doc.querySelectorAll<HTMLImageElement>("img[src]"))
+    .filter(img => img.getAttribute("src") && img.style.display !== "none");
+  images.forEach(img => pending.add(img));
+  return Promise.all(
+    images.map(async (img) => {
+      try {
+        if (img.decode) {
+          await img.decode();
+        } else if (!img.complete) {
+          await new Promise((resolve) => {
+            img.addEventListener("load", resolve, { once: true });
+            img.addEventListener("error", resolve, { once: true });
+          });
+        }
+      } catch {
+        // 加载失败的图片不阻塞渲染，由 checkDocumentImages 按缺图策略处理
+      } finally {
+        pending.delete(img);
+      }
+    })
+  ).then(() => undefined);
+};
+
+/**
+ * 等待字体加载完成
+ */
+const waitForFonts = async (doc: Document): Promise<void> => {
+  const fonts = (doc as Document & { fonts?: FontFaceSet }).fonts;
+  if (!fonts?.ready) return;
+  try {
+    await fonts.ready;
+  } catch {
+    // 字体加载失败时按后备字体导出
+  }
+};
+
+/**
+ * 等待布局稳定：连续两帧导出元素的尺寸和 scroll 尺寸不变
+ */
+export const waitForLayoutStable = async (doc: Document, exportSelector = ".container"): Promise<void> => {
+  const measure = () => {
+    const el = (doc.querySelector(exportSelector) as HTMLElement | null) || doc.body;
+    if (!el) return "";
+    const rect = el.getBoundingClientRect();
+    return `${rect.width}x${rect.height}:${el.scrollWidth}x${el.scrollHeight}`;
+  };
+
+  let previous = measure();
+  let stableFrames = 0;
+  for (let frame = 0; frame < MAX_LAYOUT_FRAMES && stableFrames < 2; frame++) {
+    await nextFrame(doc);
+    const current = measure();
+    stableFrames = current === previous ? stableFrames + 1 : 0;
+    previous = current;
+  }
+};
+
+/**
+ * 等待文档渲染就绪：图片解码、字体加载、布局稳定
+ * 超时时抛出错误，说明卡在哪张图片或哪个阶段
+ */
+export const waitForRenderReady = async (doc: Document, options: RenderReadyOptions = {}): Promise<void> => {
+  const deadline = options.deadline ?? createRenderDeadline(options.timeoutMs);
+  const pending = new Set<HTMLImageElement>();
+  let stage = "图片";
+
+  const ready = (async () => {
+    await waitForImages(doc, pending);
+    stage = "字体";
+    await waitForFonts(doc);
+    stage = "布局";
+    await waitForLayoutStable(doc, options.exportSelector);
+  })();
+
+  await withTimeout(ready, remainingMs(deadline), () => {
+    const seconds = deadline.timeoutMs / 1000;
+    if (pending.size > 0) {
+      const images = Array.from(pending).map(describeImage);
+      return `渲染超时（${seconds} 秒）：等待图片 ${images.slice(0, 3).join("、")}${images.length > 3 ? ` 等 ${images.length} 张` : ""}`;
+    }
+    return `渲染超时（${seconds} 秒）：等待${stage === "字体" ? "字体加载" : "布局稳定"}`;
+  });
+};
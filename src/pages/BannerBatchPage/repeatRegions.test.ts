@@ -0,0 +1,35 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { applyRepeatRegions } from "./repeatRegions";
+
+const fieldsOf = (selector: string) =>
+  Array.from(document.querySelectorAll(`${selector} > img`)).map(img => img.getAttribute("data-field"));
+
+describe("applyRepeatRegions", () => {
+  it("旧模板的赠品图每张有自己的 data-field", () => {
+    document.body.innerHTML = `<div class="giftproducts"></div>`;
+    applyRepeatRegions(document, { gift_products_src_1: "a.png", gift_products_qty_1: 3 });
+    expect(fieldsOf(".giftproducts")).toEqual(["gift_products_src_1", "gift_products_src_2", "gift_products_src_3"]);
+    expect(document.querySelector(".giftproducts > img")?.className).toBe("giftproductsimg-3");
+  });
+
+  it("模板自带的赠品图按数量复制后也有各自的 data-field", () => {
+    document.body.innerHTML = `<div class="giftproducts"><img src="x.png"><img src="y.png"></div>`;
+    applyRepeatRegions(document, { gift_products_src: ["a.png", "b.png", "c.png"], gift_products_qty: 3 });
+    expect(fieldsOf(".giftproducts")).toEqual(["gift_products_src_1", "gift_products_src_2", "gift_products_src_3"]);
+  });
+
+  it("主产品图都保留 product_main_src", () => {
+    document.body.innerHTML = `<div class="product"><img data-field="product_main_src" src="x.png"></div>`;
+    applyRepeatRegions(document, { product_main_src: "a.png", product_main_qty: 2 });
+    expect(fieldsOf(".product")).toEqual(["product_main_src", "product_main_src"]);
+  });
+
+  it("没有 data-repeat-item-field 时只有第一项保留 data-field", () => {
+    document.body.innerHTML = `<ul data-repeat="benefits"><li data-field="benefits"></li></ul>`;
+    applyRepeatRegions(document, { benefits: "包邮|赠小样" });
+    const items = Array.from(document.querySelectorAll("li"));
+    expect(items.map(li => li.textContent)).toEqual(["包邮", "赠小样"]);
+    expect(items.map(li => li.getAttribute("data-field"))).toEqual(["benefits", null]);
+  });
+});
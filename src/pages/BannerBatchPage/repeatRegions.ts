@@ -0,0 +1,285 @@
+/**
+ * 重复区域：模板中的一个元素按数组字段的每一项复制一份（权益行、赠品列表、SKU 色块等）
+ *
+ * 模板写法：
+ *   <ul class="benefits" data-repeat="benefits" data-repeat-max="3">
+ *     <li data-repeat-item><span data-item-field></span></li>
+ *   </ul>
+ *
+ * - data-repeat：列表字段名。值可以是数组、用换行 / "|" / "；" 分隔的文本、JSON 数组（对象数组时每项可以有多个子字段），
+ *   数据中没有该字段时依次读取 {字段}_1、{字段}_2 ...（子字段为 {字段}_1_{子字段}），方便从 Excel 多列映射
+ * - data-repeat-item：每一项的模板元素（不写时使用容器的第一个子元素）
+ * - data-item-field：项内元素绑定的子字段（图片设置 src，其他设置文字）；为空或 "value" 时为整项的值，"index" 为序号（从 1 开始）；
+ *   项内没有 data-item-field 时整项的值写入项模板本身
+ * - data-repeat-qty：数量字段（多个候选字段用 "|" 分隔，取第一个有值的）：只有一项时按数量重复，多项时取前 N 项
+ * - data-repeat-max：最多显示的项数
+ * - data-repeat-item-class：按数量/序号给每一项加 class，如 "giftproductsimg-{count} item-{index}"
+ * - data-repeat-item-field：每一项的 data-field，如 "{field}_{index}"（{field} 为列表字段名），每一项可以单独选中和编辑；
+ *   不写时只有第一项保留项模板的 data-field
+ *
+ * 容器上会设置 data-repeat-count 和 repeat-count-N class，模板可以按数量调整布局
+ * 数据中没有列表字段时保持模板原样
+ */
+import { BannerData } from "../../types";
+
+type RepeatItem = string | Record<string, unknown>;
+
+// 旧模板的 .product / .giftproducts 容器：没有 data-repeat 时按原来的字段补上
+const LEGACY_REPEAT_ADAPTERS: Array<{ selector: string; attrs: Record<string, string>; defaultItem?: string }> = [
+  {
+    selector: ".product",
+    attrs: {
+      "data-repeat": "product_main_src",
+      "data-repeat-qty": "product_main_qty",
+      "data-repeat-item-field": "{field}",
+    },
+    defaultItem: "img",
+  },
+  {
+    selector: ".giftproducts",
+    attrs: {
+      "data-repeat": "gift_products_src",
+      "data-repeat-qty": "gift_products_qty|gift_products_qty_1",
+      "data-repeat-item-class": "giftproductsimg-{count}",
+      "data-repeat-item-field": "{field}_{index}",
+    },
+    defaultItem: "img",
+  },
+];
+
+const ATTR_RENDERED = "data-repeat-rendered";
+const ATTR_INDEX = "data-repeat-index";
+const ATTR_COUNT_CLASS = "data-repeat-count-class";
+
+// 每个容器的项模板（第一次应用时从模板中取出）
+const itemTemplates = new WeakMap<Element, Element>();
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === "";
+
+/**
+ * 拆分列表文本（换行 / "|" / "；"）
+ */
+export const splitListValue = (text: string): string[] =>
+  text.split(/\r?\n|\||；/).map(item => item.trim()).filter(Boolean);
+
+/**
+ * 把字段值转换为列表
+ */
+const toItems = (value: unknown): RepeatItem[] => {
+  if (Array.isArray(value)) {
+    return value
+      .filter(item => !isEmpty(item))
+      .map(item => (typeof item === "object" ? (item as Record<string, unknown>) : String(item)));
+  }
+  if (isEmpty(value)) return [];
+
+  const text = String(value).trim();
+  if (text.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(text);
+      if (Array.isArray(parsed)) return toItems(parsed);
+    } catch (e) {
+      // 不是 JSON，按分隔符拆分
+    }
+  }
+  return splitListValue(text);
+};
+
+/**
+ * 读取列表：优先使用字段本身，其次 {字段}_1、{字段}_2 ...（以及 {字段}_1_{子字段}）
+ * 数据中完全没有该列表时返回 null
+ */
+export const readRepeatItems = (data: BannerData, field: string): RepeatItem[] | null => {
+  if (data[field] !== undefined) return toItems(data[field]);
+
+  const items: RepeatItem[] = [];
+  const prefixPattern = new RegExp(`^${field.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}_(\\d+)(?:_(.+))?$`);
+  Object.entries(data).forEach(([key, value]) => {
+    const match = key.match(prefixPattern);
+    if (!match || isEmpty(value)) return;
+    const index = Number(match[1]) - 1;
+    if (match[2]) {
+      const current = items[index];
+      const item = typeof current === "object" && current ? current : (current !== undefined ? { value: current } : {});
+      item[match[2]] = value;
+      items[index] = item;
+    } else if (typeof items[index] === "object") {
+      (items[index] as Record<string, unknown>).value = value;
+    } else {
+      items[index] = String(value);
+    }
+  });
+
+  const list = items.filter(item => item !== undefined);
+  return list.length > 0 ? list : null;
+};
+
+const readQty = (data: BannerData, qtyAttr: string | null): number | undefined => {
+  if (!qtyAttr) return undefined;
+  for (const field of qtyAttr.split("|").map(f => f.trim())) {
+    if (!isEmpty(data[field])) {
+      const qty = Number(data[field]);
+      if (Number.isFinite(qty) && qty >= 0) return Math.floor(qty);
+    }
+  }
+  return undefined;
+};
+
+const itemValue = (item: RepeatItem, subField: string, index: number): string => {
+  if (subField === "index") return String(index + 1);
+  if (typeof item === "string") return subField === "" || subField === "value" ? item : "";
+  const value = subField === "" ? item.value : item[subField];
+  return isEmpty(value) ? "" : String(value);
+};
+
+const setElementValue = (el: Element, value: string): void => {
+  if (el.tagName === "IMG") {
+    // 没有图片时去掉 src，避免显示为破图
+    if (value) {
+      (el as HTMLImageElement).src = value;
+    } else {
+      el.removeAttribute("src");
+    }
+  } else {
+    el.textContent = value;
+  }
+};
+
+/**
+ * 把 "giftproductsimg-{count}" 转为匹配旧 class 的正则（复制项时去掉模板自带的同类 class）
+ */
+const itemClassPattern = (template: string): RegExp =>
+  new RegExp(`^${template.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\\\{(count|index)\\\}/g, "\\d+")}$`);
+
+/**
+ * 取出（第一次时）并缓存容器的项模板，同时移除容器中已有的项
+ */
+const takeItemTemplate = (container: HTMLElement, defaultItem?: string): Element | null => {
+  const doc = container.ownerDocument;
+  let template = itemTemplates.get(container) || null;
+
+  if (!template) {
+    const marked = Array.from(container.children).filter(el => el.hasAttribute("data-repeat-item"));
+    const first = marked[0] || container.firstElementChild;
+    if (first) {
+      template = first.cloneNode(true) as Element;
+      // 没有标记 data-repeat-item 时，与项模板同标签的子元素都视为项（旧模板中的多张 img）
+      const originals = marked.length > 0
+        ? marked
+        : Array.from(container.children).filter(el => el.tagName === first.tagName);
+      originals.forEach((el, i) => {
+        if (i === 0) {
+          el.setAttribute(ATTR_RENDERED, "");
+        } else {
+          el.remove();
+        }
+      });
+    } else {
+      template = doc.createElement(defaultItem || "span");
+    }
+    itemTemplates.set(container, template);
+  }
+
+  return template;
+};
+
+/**
+ * 按一条数据渲染一个重复区域
+ */
+const renderRepeat = (container: HTMLElement, data: BannerData, defaultItem?: string): void => {
+  const field = container.getAttribute("data-repeat");
+  if (!field) return;
+
+  const items = readRepeatItems(data, field);
+  if (items === null) return;
+
+  const template = takeItemTemplate(container, defaultItem);
+  if (!template) return;
+
+  // 数量：只有一项时按数量重复，多项时取前 N 项
+  let list = items;
+  const qty = readQty(data, container.getAttribute("data-repeat-qty"));
+  if (qty !== undefined) {
+    list = items.length === 1 ? Array(qty).fill(items[0]) : items.slice(0, Math.max(1, qty));
+  }
+  const max = Number(container.getAttribute("data-repeat-max"));
+  if (max > 0) list = list.slice(0, max);
+  const count = list.length;
+
+  // 在上一次渲染的位置插入新的项
+  const previous = Array.from(container.querySelectorAll(`:scope > [${ATTR_RENDERED}]`));
+  const anchor = previous.length > 0 ? previous[previous.length - 1].nextSibling : null;
+  previous.forEach(el => el.remove());
+
+  const itemFieldTemplate = container.getAttribute("data-repeat-item-field");
+  const itemClassTemplate = container.getAttribute("data-repeat-item-class");
+  const stalePattern = itemClassTemplate ? itemClassTemplate.split(/\s+/).filter(Boolean).map(itemClassPattern) : [];
+
+  list.forEach((item, index) => {
+    const el = template.cloneNode(true) as HTMLElement;
+    el.setAttribute(ATTR_RENDERED, "");
+    el.setAttribute(ATTR_INDEX, String(index + 1));
+    if (itemFieldTemplate) {
+      // 每一项有自己的 data-field（如 gift_products_src_2），可以单独选中和编辑
+      el.setAttribute("data-field", itemFieldTemplate.replace(/\{field\}/g, field).replace(/\{index\}/g, String(index + 1)));
+    } else if (index > 0) {
+      // 只有第一项保留 data-field，字段编辑和高亮定位到第一项
+      el.removeAttribute("data-field");
+    }
+
+    const targets = [el, ...Array.from(el.querySelectorAll("*"))].filter(node => node.hasAttribute("data-item-field"));
+    if (targets.length === 0) {
+      setElementValue(el, itemValue(item, "", index));
+    } else {
+      targets.forEach(node => setElementValue(node, itemValue(item, node.getAttribute("data-item-field") || "", index)));
+    }
+
+    if (itemClassTemplate) {
+      Array.from(el.classList)
+        .filter(name => stalePattern.some(pattern => pattern.test(name)))
+        .forEach(name => el.classList.remove(name));
+      itemClassTemplate
+        .replace(/\{count\}/g, String(count))
+        .replace(/\{index\}/g, String(index + 1))
+        .split(/\s+/)
+        .filter(Boolean)
+        .forEach(name => el.classList.add(name));
+    }
+    if (el.tagName === "IMG") el.style.display = "";
+
+    container.insertBefore(el, anchor);
+  });
+
+  // 按数量切换容器 class
+  const previousCountClass = container.getAttribute(ATTR_COUNT_CLASS);
+  if (previousCountClass) container.classList.remove(previousCountClass);
+  container.classList.add(`repeat-count-${count}`);
+  container.setAttribute(ATTR_COUNT_CLASS, `repeat-count-${count}`);
+  container.setAttribute("data-repeat-count", String(count));
+};
+
+/**
+ * 按一条数据（已合并编辑值）渲染模板中的所有重复区域
+ */
+export const applyRepeatRegions = (doc: Document, data: BannerData): void => {
+  LEGACY_REPEAT_ADAPTERS.forEach(({ selector, attrs }) => {
+    doc.querySelectorAll<HTMLElement>(selector).forEach((el) => {
+      if (el.hasAttribute("data-repeat")) return;
+      Object.entries(attrs).forEach(([name, value]) => el.setAttribute(name, value));
+    });
+  });
+
+  doc.querySelectorAll<HTMLElement>("[data-repeat]").forEach((container) => {
+    const adapter = LEGACY_REPEAT_ADAPTERS.find(a => container.matches(a.selector));
+    renderRepeat(container, data, adapter?.defaultItem);
+  });
+};
+
+/**
+ * 模板中所有重复区域的列表字段名（需要先调用 applyRepeatRegions 补上旧模板的 data-repeat）
+ */
+export const getRepeatFieldNames = (doc: Document): string[] =>
+  Array.from(new Set(
+    Array.from(doc.querySelectorAll("[data-repeat]")).map(el => el.getAttribute("data-repeat") || "").filter(Boolean)
+  ));
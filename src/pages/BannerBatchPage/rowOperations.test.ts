@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { RowsState, applyFieldToAllRows, duplicateRow, removeRow, setFieldValue } from "./rowOperations";
+
+const state = (): RowsState => ({
+  jsonData: [{}, { id: "a" }, { id: "b" }, { id: "c" }, { id: "d" }],
+  editedValues: { 1: { title: "A" }, 2: { title: "B" }, 3: { title: "C" } },
+});
+
+describe("duplicateRow", () => {
+  it("复制的行插入到原行后面，后面行的编辑值后移一行", () => {
+    const result = duplicateRow(state(), 2);
+    expect(result.jsonData.map(row => row.id)).toEqual([undefined, "a", "b", "b_copy", "c", "d"]);
+    expect(result.jsonData[3]).toEqual({ id: "b_copy", title: "B" });
+    expect(result.editedValues).toEqual({ 1: { title: "A" }, 2: { title: "B" }, 4: { title: "C" } });
+  });
+
+  it("复制最后一行", () => {
+    const result = duplicateRow(state(), 4);
+    expect(result.jsonData.map(row => row.id)).toEqual([undefined, "a", "b", "c", "d", "d_copy"]);
+    expect(result.editedValues).toEqual(state().editedValues);
+  });
+
+  it("索引不存在时不修改", () => {
+    const original = state();
+    expect(duplicateRow(original, 9)).toBe(original);
+  });
+});
+
+describe("removeRow", () => {
+  it("删除行的编辑值，后面行的编辑值前移一行", () => {
+    const result = removeRow(state(), 2);
+    expect(result.jsonData.map(row => row.id)).toEqual([undefined, "a", "c", "d"]);
+    expect(result.editedValues).toEqual({ 1: { title: "A" }, 2: { title: "C" } });
+  });
+
+  it("删除没有编辑值的行", () => {
+    const result = removeRow(state(), 1);
+    expect(result.editedValues).toEqual({ 1: { title: "B" }, 2: { title: "C" } });
+  });
+
+  it("删除最后一行不影响前面的编辑值", () => {
+    const result = removeRow(state(), 4);
+    expect(result.jsonData).toHaveLength(4);
+    expect(result.editedValues).toEqual(state().editedValues);
+  });
+
+  it("复制后再删除恢复原来的编辑值", () => {
+    expect(removeRow(duplicateRow(state(), 1), 2).editedValues).toEqual(state().editedValues);
+  });
+});
+
+describe("applyFieldToAllRows / setFieldValue", () => {
+  it("批量修改跳过第一个纯模板占位", () => {
+    const result = applyFieldToAllRows(state(), "tag", "新品");
+    expect(result.editedValues[0]).toBeUndefined();
+    expect(result.editedValues[2]).toEqual({ title: "B", tag: "新品" });
+    expect(result.editedValues[4]).toEqual({ tag: "新品" });
+  });
+
+  it("修改单个字段保留该行其他编辑值", () => {
+    expect(setFieldValue(state(), 1, "price", "99").editedValues[1]).toEqual({ title: "A", price: "99" });
+  });
+});
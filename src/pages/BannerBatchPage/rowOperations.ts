@@ -0,0 +1,79 @@
+/**
+ * 数据行的增删和批量修改（纯函数，返回新的 jsonData / editedValues，供撤销/重做记录）
+ */
+import { BannerData } from "../../types";
+
+export type EditedValues = Record<number, Record<string, string>>;
+
+export interface RowsState {
+  jsonData: BannerData[];
+  editedValues: EditedValues;
+}
+
+/**
+ * editedValues 以行索引为键，插入/删除行后需要平移后面行的编辑值：
+ * 索引 >= fromIndex 的编辑值移动 offset 行
+ */
+const shiftEditedValues = (editedValues: EditedValues, fromIndex: number, offset: number): EditedValues => {
+  const shifted: EditedValues = {};
+  Object.entries(editedValues).forEach(([key, edits]) => {
+    const index = Number(key);
+    shifted[index >= fromIndex ? index + offset : index] = edits;
+  });
+  return shifted;
+};
+
+/**
+ * 复制某一行（包含该行的编辑值）并插入到它后面
+ */
+export function duplicateRow(state: RowsState, index: number): RowsState {
+  const source = state.jsonData[index];
+  if (!source) return state;
+
+  const copy: BannerData = { ...source, ...(state.editedValues[index] || {}) };
+  // id 用于输出文件名，复制的行追加后缀避免重名
+  if (copy.id) {
+    copy.id = `${copy.id}_copy`;
+  }
+
+  const jsonData = [...state.jsonData];
+  jsonData.splice(index + 1, 0, copy);
+  return { jsonData, editedValues: shiftEditedValues(state.editedValues, index + 1, 1) };
+}
+
+/**
+ * 删除某一行及其编辑值
+ */
+export function removeRow(state: RowsState, index: number): RowsState {
+  if (!state.jsonData[index]) return state;
+
+  const jsonData = state.jsonData.filter((_, i) => i !== index);
+  const { [index]: _removed, ...rest } = state.editedValues;
+  // 被删除行的编辑值已去掉，后面的行（索引 > index）依次前移一行
+  return { jsonData, editedValues: shiftEditedValues(rest, index + 1, -1) };
+}
+
+/**
+ * 把某个字段的值应用到所有数据行（跳过第一个纯模板占位）
+ */
+export function applyFieldToAllRows(state: RowsState, fieldName: string, value: string): RowsState {
+  const editedValues: EditedValues = { ...state.editedValues };
+  state.jsonData.forEach((row, index) => {
+    if (index === 0 && Object.keys(row).length === 0) return;
+    editedValues[index] = { ...editedValues[index], [fieldName]: value };
+  });
+  return { jsonData: state.jsonData, editedValues };
+}
+
+/**
+ * 修改某一行某个字段的编辑值
+ */
+export function setFieldValue(state: RowsState, index: number, fieldName: string, value: string): RowsState {
+  return {
+    jsonData: state.jsonData,
+    editedValues: {
+      ...state.editedValues,
+      [index]: { ...state.editedValues[index], [fieldName]: value },
+    },
+  };
+}
@@ -0,0 +1,46 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { BannerData } from "../../types";
+import { applyTemplateRules } from "./templateRules";
+
+const render = (html: string, data: BannerData) => {
+  document.body.innerHTML = html;
+  applyTemplateRules(document, data);
+  return (id: string) => {
+    const el = document.getElementById(id)!;
+    return { hidden: el.style.display === "none", className: el.className };
+  };
+};
+
+describe("applyTemplateRules", () => {
+  it("条件中数据里没有的字段按空值处理", () => {
+    const get = render(
+      `<p id="a" data-show-if="price > 0 && !sold_out"></p><p id="b" data-show-if="gift"></p>`,
+      { price: "10" }
+    );
+    expect(get("a").hidden).toBe(false);
+    expect(get("b").hidden).toBe(true);
+  });
+
+  it("constructor、toString 等原型属性按空值处理", () => {
+    const get = render(
+      `<p id="a" data-show-if="constructor"></p>
+       <p id="b" data-show-if="toString && price"></p>
+       <p id="c" data-hide-if-empty="constructor"></p>
+       <p id="d" data-variant="constructor"></p>`,
+      { price: "10" }
+    );
+    ["a", "b", "c", "d"].forEach(id => expect(get(id).hidden).toBe(true));
+  });
+
+  it("data-variant 只匹配列表中的值", () => {
+    const get = render(
+      `<p id="a" data-variant="tag:新品=new|爆款"></p><p id="b" data-variant="tag:新品"></p>`,
+      { tag: "新品" }
+    );
+    expect(get("a")).toEqual({ hidden: false, className: "tag--new" });
+
+    const other = render(`<p id="b" data-variant="tag:新品"></p>`, { tag: "constructor" });
+    expect(other("b").hidden).toBe(true);
+  });
+});
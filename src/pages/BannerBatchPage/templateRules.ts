@@ -0,0 +1,134 @@
+/**
+ * 模板中的显示/样式规则：按每条数据显示、隐藏元素或切换 class，一个模板覆盖有/无角标、券、赠品的情况
+ *
+ * 模板可在任意元素上声明：
+ * - data-show-if="price_extra"：条件为真时显示，否则隐藏（条件写法同 data-expr，如 "coupon > 0 && gift_name"）
+ * - data-hide-if="sold_out"：条件为真时隐藏
+ * - data-hide-if-empty：元素自己的内容（data-field 的值）为空时隐藏；也可以指定字段：data-hide-if-empty="gift_name"
+ * - data-variant="cornerTag:新品|爆款"：按字段值添加 class "cornerTag--新品"；值不在列表中或为空时隐藏
+ *   可以给值指定 class 名：data-variant="cornerTag:新品=new|爆款=hot" → "cornerTag--new"；
+ *   不写列表（data-variant="cornerTag"）时任何非空值都添加 class
+ *
+ * 条件中数据里没有的字段按空值处理；条件写错时元素隐藏并在控制台提示
+ */
+import { BannerData } from "../../types";
+import { evaluateCondition, hasOwnKey, listExpressionFields } from "./expression";
+
+// 记录规则修改前的状态，重新应用数据时先还原
+const ATTR_ORIGINAL_DISPLAY = "data-rule-original-display";
+const ATTR_VARIANT_CLASS = "data-variant-class";
+
+export const RULE_SELECTOR = "[data-show-if], [data-hide-if], [data-hide-if-empty], [data-variant]";
+
+// 读取数据中的字段（只认数据自身的字段，constructor、toString 等原型属性按空值处理）
+const readField = (scope: Record<string, unknown>, field: string): unknown =>
+  hasOwnKey(scope, field) ? scope[field] : undefined;
+
+// 条件中引用数据里没有的字段时按空值处理（而不是报"未知字段"）
+const withMissingAsEmpty = (scope: Record<string, unknown>, source: string): Record<string, unknown> => {
+  const filled = { ...scope };
+  listExpressionFields(source).forEach((field) => {
+    if (!hasOwnKey(scope, field)) filled[field] = "";
+  });
+  return filled;
+};
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || (Array.isArray(value) ? value.length === 0 : String(value).trim() === "");
+
+const checkCondition = (el: HTMLElement, attr: string, scope: Record<string, unknown>): boolean => {
+  const source = el.getAttribute(attr) || "";
+  try {
+    return evaluateCondition(source, withMissingAsEmpty(scope, source));
+  } catch (e) {
+    console.warn(`模板规则 ${attr}="${source}" 无法计算:`, e instanceof Error ? e.message : e);
+    return false;
+  }
+};
+
+/**
+ * 元素当前显示的内容是否为空（图片看 src，其他看文字）
+ */
+const isElementEmpty = (el: HTMLElement): boolean =>
+  el.tagName === "IMG" ? !el.getAttribute("src") : (el.textContent || "").trim() === "";
+
+const setHidden = (el: HTMLElement, hidden: boolean): void => {
+  if (hidden) {
+    if (!el.hasAttribute(ATTR_ORIGINAL_DISPLAY)) {
+      el.setAttribute(ATTR_ORIGINAL_DISPLAY, el.style.display);
+    }
+    el.style.setProperty("display", "none", "important");
+  } else if (el.hasAttribute(ATTR_ORIGINAL_DISPLAY)) {
+    el.style.removeProperty("display");
+    el.style.display = el.getAttribute(ATTR_ORIGINAL_DISPLAY) || "";
+    el.removeAttribute(ATTR_ORIGINAL_DISPLAY);
+  }
+};
+
+/**
+ * 解析 data-variant："cornerTag:新品=new|爆款" → { field: "cornerTag", classes: { 新品: "new", 爆款: "爆款" } }
+ */
+export const parseVariantRule = (rule: string): { field: string; classes: Record<string, string> | null } => {
+  const separator = rule.indexOf(":");
+  if (separator === -1) return { field: rule.trim(), classes: null };
+
+  const classes: Record<string, string> = {};
+  rule.slice(separator + 1).split("|").forEach((item) => {
+    const [value, className] = item.split("=").map(part => part.trim());
+    if (value) classes[value] = className || value;
+  });
+  return { field: rule.slice(0, separator).trim(), classes };
+};
+
+/**
+ * 切换 data-variant 的 class，返回是否有匹配的值
+ */
+const applyVariant = (el: HTMLElement, scope: Record<string, unknown>): boolean => {
+  const { field, classes } = parseVariantRule(el.getAttribute("data-variant") || "");
+
+  const previousClass = el.getAttribute(ATTR_VARIANT_CLASS);
+  if (previousClass) {
+    el.classList.remove(previousClass);
+    el.removeAttribute(ATTR_VARIANT_CLASS);
+  }
+
+  const raw = readField(scope, field);
+  const value = isEmpty(raw) ? "" : String(raw).trim();
+  const suffix = classes ? (hasOwnKey(classes, value) ? classes[value] : undefined) : value;
+  if (!value || !suffix) return false;
+
+  // class 名中不能有空白
+  const className = `${field}--${suffix.replace(/\s+/g, "-")}`;
+  el.classList.add(className);
+  el.setAttribute(ATTR_VARIANT_CLASS, className);
+  return true;
+};
+
+/**
+ * 按一条数据（已合并编辑值和计算字段）应用模板中的所有规则
+ * 需要在文字/图片写入之后调用（data-hide-if-empty 会检查元素当前的内容）
+ */
+export const applyTemplateRules = (doc: Document, data: BannerData): void => {
+  const scope = data as Record<string, unknown>;
+
+  doc.querySelectorAll<HTMLElement>(RULE_SELECTOR).forEach((el) => {
+    let visible = true;
+
+    if (el.hasAttribute("data-variant")) {
+      visible = applyVariant(el, scope) && visible;
+    }
+    if (el.hasAttribute("data-show-if")) {
+      visible = checkCondition(el, "data-show-if", scope) && visible;
+    }
+    if (el.hasAttribute("data-hide-if")) {
+      visible = !checkCondition(el, "data-hide-if", scope) && visible;
+    }
+    if (el.hasAttribute("data-hide-if-empty")) {
+      const field = el.getAttribute("data-hide-if-empty");
+      const empty = field ? isEmpty(readField(scope, field)) : isElementEmpty(el);
+      visible = !empty && visible;
+    }
+
+    setHidden(el, !visible);
+  });
+};
@@ -0,0 +1,169 @@
+/**
+ * 文本溢出检测与自动适配
+ *
+ * 模板可在 data-field 元素上声明：
+ * - data-fit="shrink"：溢出时逐步缩小字号，直到放得下或达到最小字号
+ * - data-fit="ellipsis"：溢出时截断文字并添加省略号（可与 shrink 同时使用："shrink ellipsis"）
+ * - data-max-lines="2"：最多显示的行数，超过即视为溢出
+ * - data-min-font-size="12"：缩小字号的下限（px，默认 10）
+ */
+import { ValidationIssue } from "./validation";
+
+export interface TextFitResult {
+  field: string;
+  label?: string;
+  overflow: boolean;       // 适配后仍然溢出
+  shrunkTo?: number;       // 缩小后的字号（px）
+  truncated?: boolean;     // 已截断并添加省略号
+}
+
+const DEFAULT_MIN_FONT_SIZE = 10;
+const ELLIPSIS = "…";
+
+// 记录适配前的状态，重新应用数据时先还原
+const ATTR_ORIGINAL_FONT_SIZE = "data-fit-original-font-size";
+const ATTR_FULL_TEXT = "data-fit-full-text";
+const ATTR_TRUNCATED_TEXT = "data-fit-truncated-text";
+
+const getLineHeight = (style: CSSStyleDeclaration): number => {
+  const lineHeight = parseFloat(style.lineHeight);
+  // line-height: normal 时按字号的 1.2 倍估算
+  return isNaN(lineHeight) ? parseFloat(style.fontSize) * 1.2 : lineHeight;
+};
+
+/**
+ * 判断元素内容是否溢出：超过 data-max-lines 行数，或内容尺寸超过元素盒子
+ */
+export const isTextOverflowing = (el: HTMLElement, maxLines: number | null): boolean => {
+  const view = el.ownerDocument.defaultView;
+  if (!view) return false;
+
+  if (maxLines) {
+    const style = view.getComputedStyle(el);
+    const padding = parseFloat(style.paddingTop || "0") + parseFloat(style.paddingBottom || "0");
+    const lines = Math.round((el.scrollHeight - padding) / getLineHeight(style));
+    if (lines > maxLines) return true;
+  }
+
+  // 没有尺寸的元素（inline 元素、未渲染的文档）无法判断盒子溢出
+  if (el.clientWidth === 0 && el.clientHeight === 0) return false;
+  return el.scrollWidth > el.clientWidth + 1 || el.scrollHeight > el.clientHeight + 1;
+};
+
+/**
+ * 还原上一次适配的结果（字号、截断的文字）
+ */
+const resetFit = (el: HTMLElement): void => {
+  const originalFontSize = el.getAttribute(ATTR_ORIGINAL_FONT_SIZE);
+  if (originalFontSize !== null) {
+    el.style.fontSize = originalFontSize;
+    el.removeAttribute(ATTR_ORIGINAL_FONT_SIZE);
+  }
+
+  const truncatedText = el.getAttribute(ATTR_TRUNCATED_TEXT);
+  if (truncatedText !== null) {
+    // 只有内容仍是上次截断的结果时才还原（新数据会直接覆盖 textContent）
+    if (el.textContent === truncatedText) {
+      el.textContent = el.getAttribute(ATTR_FULL_TEXT) || "";
+    }
+    el.removeAttribute(ATTR_TRUNCATED_TEXT);
+    el.removeAttribute(ATTR_FULL_TEXT);
+  }
+};
+
+/**
+ * 逐步缩小字号直到放得下，返回最终字号
+ */
+const shrinkToFit = (el: HTMLElement, maxLines: number | null, minFontSize: number): number => {
+  const view = el.ownerDocument.defaultView!;
+  let fontSize = parseFloat(view.getComputedStyle(el).fontSize);
+
+  el.setAttribute(ATTR_ORIGINAL_FONT_SIZE, el.style.fontSize);
+  while (fontSize > minFontSize && isTextOverflowing(el, maxLines)) {
+    fontSize = Math.max(minFontSize, fontSize - 1);
+    el.style.fontSize = `${fontSize}px`;
+  }
+  return fontSize;
+};
+
+/**
+ * 二分查找能放下的最多字符数，截断并添加省略号
+ * 按 Unicode 字符切分，避免把 emoji 等代理对截成乱码
+ */
+const truncateToFit = (el: HTMLElement, maxLines: number | null): void => {
+  const fullText = el.textContent || "";
+  const chars = Array.from(fullText);
+
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    el.textContent = chars.slice(0, mid).join("") + ELLIPSIS;
+    if (isTextOverflowing(el, maxLines)) {
+      high = mid - 1;
+    } else {
+      low = mid;
+    }
+  }
+
+  const truncated = chars.slice(0, low).join("").trimEnd() + ELLIPSIS;
+  el.textContent = truncated;
+  el.setAttribute(ATTR_FULL_TEXT, fullText);
+  el.setAttribute(ATTR_TRUNCATED_TEXT, truncated);
+};
+
+/**
+ * 检测并适配文档中所有文本类 data-field 元素，返回发生溢出的字段
+ * 需要在数据应用之后、文档已完成布局时调用
+ */
+export const fitTextFields = (doc: Document): TextFitResult[] => {
+  const results: TextFitResult[] = [];
+
+  doc.querySelectorAll<HTMLElement>("[data-field]").forEach((el) => {
+    if (el.tagName === "IMG") return;
+
+    resetFit(el);
+
+    const maxLinesAttr = Number(el.getAttribute("data-max-lines"));
+    const maxLines = maxLinesAttr > 0 ? maxLinesAttr : null;
+    if (!isTextOverflowing(el, maxLines)) return;
+
+    const fitModes = (el.getAttribute("data-fit") || "").split(/\s+/).filter(Boolean);
+    const result: TextFitResult = {
+      field: el.getAttribute("data-field") || "",
+      label: el.getAttribute("data-label") || undefined,
+      overflow: true,
+    };
+
+    if (fitModes.includes("shrink")) {
+      const minFontSize = Number(el.getAttribute("data-min-font-size")) || DEFAULT_MIN_FONT_SIZE;
+      result.shrunkTo = shrinkToFit(el, maxLines, minFontSize);
+    }
+
+    // 截断会覆盖 textContent，只处理纯文本元素
+    if (fitModes.includes("ellipsis") && el.childElementCount === 0 && isTextOverflowing(el, maxLines)) {
+      truncateToFit(el, maxLines);
+      result.truncated = true;
+    }
+
+    result.overflow = isTextOverflowing(el, maxLines);
+    results.push(result);
+  });
+
+  return results;
+};
+
+/**
+ * 把适配结果转换为校验报告中的提示：仍然溢出或被截断的字段
+ */
+export const textFitToIssues = (rowIndex: number, results: TextFitResult[]): ValidationIssue[] =>
+  results
+    .filter(r => r.overflow || r.truncated)
+    .map(r => ({
+      rowIndex,
+      field: r.field,
+      severity: "warning" as const,
+      message: r.overflow
+        ? `「${r.label || r.field}」文字超出文本框${r.shrunkTo ? `（已缩小到 ${r.shrunkTo}px）` : ""}`
+        : `「${r.label || r.field}」文字过长，已截断显示`,
+    }));
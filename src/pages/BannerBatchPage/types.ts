@@ -1,11 +1,18 @@
 export type TemplateField = {
   name: string;      // data-field 的值
   label?: string;    // data-label 的值（可选）
+  price?: "int" | "decimal" | "value";  // 价格字段：整数部分 / 小数部分 / 整个价格（见 priceFormat.ts）
+  expr?: string;     // data-expr 计算表达式（计算字段，见 expression.ts）
+  optional?: boolean;  // 值可以为空：元素带有显示规则，或只在规则（data-show-if / data-variant 等）中使用的字段（见 templateRules.ts）
+  repeat?: boolean;    // 列表字段（data-repeat）：值为数组或分隔文本，也可以用 {字段}_1、{字段}_1_{子字段} 逐项提供（见 repeatRegions.ts）
 };
 
-
-
-
-
-
-
+// 多尺寸模板集中的单个尺寸（ZIP 中的每个 HTML 文件对应一个）
+export type TemplateVariant = {
+  name: string;      // HTML 文件名（ZIP 内路径）
+  size: string;      // 尺寸标识，例如 "750x400"（用于输出文件名和 ZIP 目录）
+  width?: number;    // 从文件名解析出的宽度（可选）
+  height?: number;   // 从文件名解析出的高度（可选）
+  html: string;      // 已内联所有资源的完整 HTML
+  fields: TemplateField[];
+};
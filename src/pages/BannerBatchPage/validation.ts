@@ -0,0 +1,177 @@
+/**
+ * 批量生成前的数据校验：逐行检查 BannerData 与模板字段是否匹配
+ */
+import { BannerData } from "../../types";
+import { TemplateField } from "./types";
+import { resolveImagePath } from "./zipHandler";
+import { applyComputedFields } from "./expression";
+import { PRODUCT_STRUCTURE_FIELDS, GIFT_NAMES_FIELD } from "../../utils/productItems";
+
+export type ValidationSeverity = "error" | "warning";
+
+export interface ValidationIssue {
+  rowIndex: number;           // jsonData 中的索引
+  field?: string;             // 相关字段（行级问题时为空）
+  severity: ValidationSeverity;
+  message: string;
+}
+
+// 不对应 data-field、但由 dataApplier 特殊处理的数据键（含多行产品解析出的主品/赠品字段）
+const AUXILIARY_KEYS = new Set<string>(["id", "_rowIndex", ...PRODUCT_STRUCTURE_FIELDS, GIFT_NAMES_FIELD]);
+
+// 逐组提供的赠品图片/数量：gift_products_src_2、gift_products_qty_2 ...
+const GIFT_ITEM_KEY_PATTERN = /^gift_products_(src|qty)_\d+$/;
+
+const isAuxiliaryKey = (key: string): boolean => AUXILIARY_KEYS.has(key) || GIFT_ITEM_KEY_PATTERN.test(key);
+
+// 主产品数量的允许范围（.product 容器会按数量复制图片）
+export const PRODUCT_MAIN_QTY_MIN = 1;
+export const PRODUCT_MAIN_QTY_MAX = 5;
+
+// 价格字段的格式：小数部分允许带小数点（如 ".9"），整个价格允许货币符号和千位分隔符（如 "¥1,299.50"）
+const PRICE_FIELD_PATTERNS: Record<NonNullable<TemplateField["price"]>, RegExp> = {
+  int: /^\d+$/,
+  decimal: /^\.?\d+$/,
+  value: /^[¥￥$]?\s*\d{1,3}(,?\d{3})*(\.\d+)?$/,
+};
+
+const isImageField = (fieldName: string): boolean => fieldName.includes("_src");
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === "";
+
+/**
+ * 判断图片引用能否加载：Data URL / Blob URL / 网络地址直接可用，
+ * 其他相对路径需要能在 ZIP 模板的图片中找到
+ */
+const isResolvableImage = (src: string, imageMap: Record<string, string>): boolean => {
+  if (/^(data:|blob:|https?:\/\/|\/\/)/i.test(src)) return true;
+  return !!resolveImagePath(src, imageMap);
+};
+
+/**
+ * 校验单行数据（已合并手动编辑的值）
+ */
+export function validateBannerRow(
+  row: BannerData,
+  rowIndex: number,
+  fields: TemplateField[],
+  imageMap: Record<string, string> = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const fieldNames = new Set(fields.map(f => f.name));
+  // 列表字段可以逐项提供：{字段}_1、{字段}_1_{子字段}
+  const repeatPrefixes = fields.filter(f => f.repeat).map(f => `${f.name}_`);
+  const isRepeatItemKey = (key: string) =>
+    repeatPrefixes.some(prefix => key.startsWith(prefix) && /^\d+(_|$)/.test(key.slice(prefix.length)));
+  const hasImageMap = Object.keys(imageMap).length > 0;
+  const labelOf = (name: string) => fields.find(f => f.name === name)?.label || name;
+  const push = (severity: ValidationSeverity, message: string, field?: string) =>
+    issues.push({ rowIndex, field, severity, message });
+
+  // 1. 缺少模板字段（会保留模板中的原始内容）
+  fields.forEach((f) => {
+    // 可以为空的字段（带显示规则）缺少时按规则隐藏元素，不需要提示
+    if (!(f.name in row) && !f.optional && !(f.repeat && Object.keys(row).some(key => key.startsWith(`${f.name}_`) && isRepeatItemKey(key)))) {
+      push("warning", `缺少字段「${labelOf(f.name)}」，将保留模板原始内容`, f.name);
+    }
+  });
+
+  Object.entries(row).forEach(([key, value]) => {
+    // 2. 模板中不存在的字段
+    if (!fieldNames.has(key) && !isAuxiliaryKey(key) && !isRepeatItemKey(key)) {
+      push("warning", `模板中没有字段「${key}」，该值不会显示`, key);
+      return;
+    }
+    if (!fieldNames.has(key)) return;
+
+    // 3. 图片引用无法解析
+    if (isImageField(key)) {
+      const sources = Array.isArray(value) ? value : [value];
+      sources.forEach((src) => {
+        if (isEmptyValue(src)) {
+          push("error", `图片「${labelOf(key)}」为空`, key);
+        } else if (!isResolvableImage(String(src), imageMap)) {
+          // 没有 ZIP 图片时（单独上传的 HTML），相对路径可能由站点提供，只给出提示
+          if (hasImageMap) {
+            push("error", `图片「${labelOf(key)}」找不到：${src}`, key);
+          } else {
+            push("warning", `图片「${labelOf(key)}」无法确认是否存在：${src}`, key);
+          }
+        }
+      });
+      return;
+    }
+
+    // 4. 必填文本为空（带显示规则的字段为空时元素会被隐藏）
+    if (isEmptyValue(value)) {
+      if (fields.find(f => f.name === key)?.optional) return;
+      push("error", `「${labelOf(key)}」内容为空`, key);
+      return;
+    }
+
+    // 5. 价格必须是数字
+    const priceRole = fields.find(f => f.name === key)?.price;
+    const pricePattern = priceRole && PRICE_FIELD_PATTERNS[priceRole];
+    if (pricePattern && !pricePattern.test(String(value).trim())) {
+      push("error", `「${labelOf(key)}」不是数字：${value}`, key);
+    }
+  });
+
+  // 6. 主产品数量超出范围
+  if (row.product_main_qty !== undefined) {
+    const qty = Number(row.product_main_qty);
+    if (!Number.isInteger(qty) || qty < PRODUCT_MAIN_QTY_MIN || qty > PRODUCT_MAIN_QTY_MAX) {
+      push(
+        "error",
+        `主产品数量应为 ${PRODUCT_MAIN_QTY_MIN}-${PRODUCT_MAIN_QTY_MAX} 的整数，当前为 ${row.product_main_qty}`,
+        "product_main_qty"
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 校验所有数据行，计算字段求值、手动编辑的值覆盖原始数据后再校验
+ * 第一个空对象是纯模板占位，不参与校验
+ */
+export function validateBannerRows(
+  rows: BannerData[],
+  fields: TemplateField[],
+  editedValues: Record<number, Record<string, string>> = {},
+  imageMap: Record<string, string> = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  rows.forEach((row, index) => {
+    if (index === 0 && Object.keys(row).length === 0) return;
+    const edits = editedValues[index] || {};
+
+    // 计算字段（data-expr）先求值，出错的字段按行报告
+    const { data: computed, errors } = applyComputedFields(row, fields, edits);
+    errors.forEach((err) => {
+      const label = fields.find(f => f.name === err.field)?.label || err.field;
+      issues.push({ rowIndex: index, field: err.field, severity: "error", message: `「${label}」计算失败：${err.message}` });
+    });
+
+    const merged: BannerData = { ...computed, ...edits };
+    issues.push(...validateBannerRow(merged, index, fields, imageMap));
+  });
+
+  return issues;
+}
+
+/**
+ * 按行分组（保持行顺序），用于报告展示
+ */
+export function groupIssuesByRow(issues: ValidationIssue[]): Map<number, ValidationIssue[]> {
+  const groups = new Map<number, ValidationIssue[]>();
+  issues.forEach((issue) => {
+    const list = groups.get(issue.rowIndex) || [];
+    list.push(issue);
+    groups.set(issue.rowIndex, list);
+  });
+  return groups;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseVariantSize, resolveLinkedCss } from "./zipHandler";
+
+const CSS = ["tpl/750x400.css", "tpl/1080x1920.css", "tpl/common/base.css"];
+const html = (...hrefs: string[]) =>
+  `<html><head>${hrefs.map(href => `<link rel="stylesheet" href="${href}">`).join("")}</head><body></body></html>`;
+
+describe("resolveLinkedCss", () => {
+  it("每个尺寸只使用自己引用的 CSS", () => {
+    expect(resolveLinkedCss(html("750x400.css"), "tpl/750x400.html", CSS)).toEqual(["tpl/750x400.css"]);
+    expect(resolveLinkedCss(html("./1080x1920.css"), "tpl/1080x1920.html", CSS)).toEqual(["tpl/1080x1920.css"]);
+  });
+
+  it("按引用顺序，支持子目录和 ../", () => {
+    expect(resolveLinkedCss(html("common/base.css", "750x400.css"), "tpl/750x400.html", CSS))
+      .toEqual(["tpl/common/base.css", "tpl/750x400.css"]);
+    expect(resolveLinkedCss(html("../common/base.css?v=2"), "tpl/pages/a_750x400.html", CSS))
+      .toEqual(["tpl/common/base.css"]);
+  });
+
+  it("路径对不上时按文件名匹配", () => {
+    expect(resolveLinkedCss(html("/static/750x400.css"), "tpl/750x400.html", CSS)).toEqual(["tpl/750x400.css"]);
+  });
+
+  it("没有引用 ZIP 中的 CSS 时使用全部 CSS", () => {
+    expect(resolveLinkedCss(html(), "tpl/750x400.html", CSS)).toEqual(CSS);
+    expect(resolveLinkedCss(html("https://cdn.example.com/750x400.css"), "tpl/750x400.html", CSS)).toEqual(CSS);
+  });
+});
+
+describe("parseVariantSize", () => {
+  it("从文件名或 meta 读取尺寸", () => {
+    expect(parseVariantSize("tpl/banner_750x400.html")).toEqual({ size: "750x400", width: 750, height: 400 });
+    expect(parseVariantSize("tpl/a.html", `<meta name="banner-size" content="1080×1920">`))
+      .toEqual({ size: "1080x1920", width: 1080, height: 1920 });
+    expect(parseVariantSize("tpl/index.html")).toEqual({ size: "index" });
+  });
+});
@@ -3,21 +3,96 @@
  */
 import JSZip from "jszip";
 import { BannerData } from "../../types";
-import { TemplateField } from "./types";
+import { TemplateField, TemplateVariant } from "./types";
 import {
   replaceHtmlImgSrcWithBase64,
   replaceCssUrlWithBase64,
   buildInlineHtml,
+  extractTemplateFields,
 } from "./htmlUtils";
 
 export interface ZipProcessResult {
   html: string;
   css: string;
   fields: TemplateField[];
+  variants: TemplateVariant[];  // 多尺寸模板集（声明了尺寸的 HTML 各一个，主 HTML 在第一个）
   jsonData: BannerData[];
+  imageMap: Record<string, string>;  // 图片路径 -> Base64 data URL（用于解析 Excel/JSON 中的图片引用）
   successMessage: string;
 }
 
+/**
+ * 在图片映射中查找路径对应的 Base64 data URL（依次尝试原始路径、去掉 ./ 的路径、仅文件名）
+ */
+export const resolveImagePath = (
+  path: string,
+  imageMap: Record<string, string>
+): string | undefined => {
+  const normalizedPath = path.replace(/^\.\//, "");
+  return (
+    imageMap[path] ||
+    imageMap[normalizedPath] ||
+    imageMap["./" + normalizedPath] ||
+    imageMap[normalizedPath.split("/").pop() || ""]
+  );
+};
+
+const SIZE_PATTERN = /(\d+)\s*[x×*]\s*(\d+)/i;
+
+/**
+ * 解析 HTML 的尺寸标识：文件名中含 "750x400" 之类的尺寸时使用该尺寸，
+ * 否则读取 <meta name="banner-size" content="750x400">；都没有时只返回文件名（不含扩展名），没有宽高
+ */
+export const parseVariantSize = (
+  fileName: string,
+  html?: string
+): { size: string; width?: number; height?: number } => {
+  const baseName = (fileName.split("/").pop() || fileName).replace(/\.html?$/i, "");
+  const metaContent = html?.match(/<meta[^>]+name=["']banner-size["'][^>]*>/i)?.[0].match(/content=["']([^"']*)["']/i)?.[1];
+  const match = baseName.match(SIZE_PATTERN) || metaContent?.match(SIZE_PATTERN);
+  if (match) {
+    return {
+      size: `${match[1]}x${match[2]}`,
+      width: Number(match[1]),
+      height: Number(match[2]),
+    };
+  }
+  return { size: baseName };
+};
+
+/**
+ * 找出 HTML 通过 <link rel="stylesheet" href> 引用的 CSS 文件（按引用顺序）：
+ * href 按 HTML 所在目录解析为 ZIP 内的路径，找不到时按文件名匹配；外部链接忽略。
+ * 没有引用 ZIP 中任何 CSS 时返回全部 CSS
+ */
+export const resolveLinkedCss = (html: string, htmlPath: string, cssPaths: string[]): string[] => {
+  const htmlDir = htmlPath.split("/").slice(0, -1);
+  const linked: string[] = [];
+  for (const [tag] of html.matchAll(/<link[^>]*rel\s*=\s*["']stylesheet["'][^>]*>/gi)) {
+    const href = tag.match(/href\s*=\s*["']([^"']+)["']/i)?.[1].split(/[?#]/)[0];
+    if (!href || /^([a-z]+:)?\/\//i.test(href)) continue;
+
+    const parts: string[] = href.startsWith("/") ? [] : [...htmlDir];
+    let decoded = href;
+    try {
+      decoded = decodeURI(href);
+    } catch {
+      // 编码不合法时按原文匹配
+    }
+    decoded.split("/").forEach((part) => {
+      if (part === "..") parts.pop();
+      else if (part && part !== ".") parts.push(part);
+    });
+    const path = parts.join("/");
+    const fileName = parts[parts.length - 1];
+    const match = cssPaths.find((p) => p === path) || cssPaths.find((p) => p.split("/").pop() === fileName);
+    if (match && !linked.includes(match)) {
+      linked.push(match);
+    }
+  }
+  return linked.length > 0 ? linked : cssPaths;
+};
+
 /**
  * 处理 ZIP 文件上传
  */
@@ -65,22 +140,32 @@ export const processZipFile = async (file: File): Promise<ZipProcessResult> => {
     throw new Error("ZIP 文件中未找到 HTML 文件");
   }
 
-  // 2. 选主 html 文件（优先 index.html）
+  // 2. 读取所有 HTML 和声明的尺寸：有两个以上声明了尺寸的 HTML 时视为多尺寸模板集，
+  //    只使用声明了尺寸的 HTML（忽略 index.html、test.html 等没有尺寸的文件）；否则只使用主 HTML
+  const htmlTexts = new Map<JSZip.JSZipObject, string>();
+  for (const htmlEntry of htmlFiles) {
+    htmlTexts.set(htmlEntry, await htmlEntry.async("text"));
+  }
+  const sizedHtmlFiles = htmlFiles.filter((f) => parseVariantSize(f.name, htmlTexts.get(f)).width !== undefined);
+  const isSizeSet = sizedHtmlFiles.length > 1;
+  const candidateHtmlFiles = isSizeSet ? sizedHtmlFiles : htmlFiles;
+  const ignoredHtmlFiles = isSizeSet ? htmlFiles.filter((f) => !sizedHtmlFiles.includes(f)) : [];
+
+  // 选主 html 文件（优先 index.html）
   const mainHtmlEntry =
-    htmlFiles.find((f) => f.name.toLowerCase().includes("index")) ||
-    htmlFiles[0];
+    candidateHtmlFiles.find((f) => f.name.toLowerCase().includes("index")) ||
+    candidateHtmlFiles[0];
 
-  const rawHtml = await mainHtmlEntry.async("text");
+  const rawHtml = htmlTexts.get(mainHtmlEntry)!;
   
   // 获取HTML文件所在目录（用于计算相对路径）
   const htmlDir = mainHtmlEntry.name.split("/").slice(0, -1).join("/");
   const htmlDirWithSlash = htmlDir ? htmlDir + "/" : "";
 
-  // 3. 合并所有 css 文件内容
-  let cssText = "";
+  // 3. 读取所有 css 文件内容（每个尺寸只使用自己 HTML 引用的 CSS，见第 8 步）
+  const cssTexts = new Map<string, string>();
   for (const cssEntry of cssFiles) {
-    const cssPart = await cssEntry.async("text");
-    cssText += "\n" + cssPart;
+    cssTexts.set(cssEntry.name, await cssEntry.async("text"));
   }
 
   // 4. 构建字体路径 -> Base64 data URL 映射
@@ -160,38 +245,58 @@ export const processZipFile = async (file: File): Promise<ZipProcessResult> => {
   // 6. 合并图片和字体映射，用于 CSS 中的 url() 替换
   const resourceMap: Record<string, string> = { ...imageMap, ...fontMap };
 
-  // 7. 替换 HTML 与 CSS 中的图片路径为 Base64
-  const processedHtml = replaceHtmlImgSrcWithBase64(rawHtml, imageMap);
-  const processedCss = replaceCssUrlWithBase64(cssText, resourceMap);
-
-  // 8. 生成最终 HTML，用于 iframe srcDoc（所有资源已内联，不需要 base 标签）
-  const finalHtml = buildInlineHtml(processedHtml, processedCss);
+  // 7. 替换 CSS 中的图片/字体路径为 Base64
+  const processedCssFiles = new Map<string, string>();
+  cssTexts.forEach((cssText, name) => processedCssFiles.set(name, replaceCssUrlWithBase64(cssText, resourceMap)));
+  const joinCss = (names: string[]) => names.map((name) => "\n" + processedCssFiles.get(name)).join("");
+  // 所有 CSS 合并（字体注入顶层文档、导出时嵌入字体）
+  const processedCss = joinCss(Array.from(processedCssFiles.keys()));
 
-  // 9. 解析 data-field / data-label
+  // 8. 逐个处理 HTML 文件：替换图片路径，内联该 HTML 引用的 CSS（没有引用时内联全部 CSS），
+  //    生成最终 HTML（用于 iframe srcDoc，所有资源已内联），解析 data-field / data-label
+  //    主 HTML 排在第一个，多尺寸模板集中其余 HTML 作为同一模板集的其它尺寸
   const parser = new DOMParser();
-  const doc = parser.parseFromString(finalHtml, "text/html");
+  const orderedHtmlEntries = isSizeSet
+    ? [mainHtmlEntry, ...sizedHtmlFiles.filter((f) => f !== mainHtmlEntry)]
+    : [mainHtmlEntry];
+  const usedSizes = new Set<string>();
+  const variants: TemplateVariant[] = [];
 
-  const fieldMap = new Map<string, TemplateField>();
-  doc.querySelectorAll<HTMLElement>("[data-field]").forEach((el) => {
-    const name = el.getAttribute("data-field");
-    if (!name) return;
+  for (const htmlEntry of orderedHtmlEntries) {
+    const entryHtml = htmlTexts.get(htmlEntry)!;
+    const processedHtml = replaceHtmlImgSrcWithBase64(entryHtml, imageMap);
+    const variantCss = joinCss(resolveLinkedCss(entryHtml, htmlEntry.name, Array.from(processedCssFiles.keys())));
+    const variantHtml = buildInlineHtml(processedHtml, variantCss);
+    const variantDoc = parser.parseFromString(variantHtml, "text/html");
 
-    if (!fieldMap.has(name)) {
-      const label = el.getAttribute("data-label") || undefined;
-      fieldMap.set(name, { name, label });
+    // 尺寸标识重复时追加序号，避免输出目录冲突
+    const { size, width, height } = parseVariantSize(htmlEntry.name, entryHtml);
+    let uniqueSize = size;
+    for (let n = 2; usedSizes.has(uniqueSize); n++) {
+      uniqueSize = `${size}-${n}`;
     }
-  });
+    usedSizes.add(uniqueSize);
 
-  // 特殊处理价格字段（data-field-int 和 data-field-decimal）
-  doc.querySelectorAll<HTMLElement>("[data-field-int]").forEach((el) => {
-    const intName = el.getAttribute("data-field-int");
-    const decimalName = el.getAttribute("data-field-decimal");
-    if (intName && !fieldMap.has(intName)) {
-      fieldMap.set(intName, { name: intName, label: "到手价-整数部分" });
-    }
-    if (decimalName && !fieldMap.has(decimalName)) {
-      fieldMap.set(decimalName, { name: decimalName, label: "到手价-小数部分" });
-    }
+    variants.push({
+      name: htmlEntry.name,
+      size: uniqueSize,
+      width,
+      height,
+      html: variantHtml,
+      fields: extractTemplateFields(variantDoc),
+    });
+  }
+
+  const finalHtml = variants[0].html;
+
+  // 9. 合并所有尺寸的字段（主 HTML 的字段在前）
+  const fieldMap = new Map<string, TemplateField>();
+  variants.forEach((variant) => {
+    variant.fields.forEach((field) => {
+      if (!fieldMap.has(field.name)) {
+        fieldMap.set(field.name, field);
+      }
+    });
   });
 
   // 10. 处理 JSON 数据文件（如果存在）
@@ -218,16 +323,13 @@ export const processZipFile = async (file: File): Promise<ZipProcessResult> => {
           if (Array.isArray(value)) {
             const processedArray = value.map((path: string) => {
               if (typeof path === "string" && path) {
-                const normalizedPath = path.replace(/^\.\//, "");
-                const base64Url = imageMap[path] || imageMap[normalizedPath] || imageMap["./" + normalizedPath] || imageMap[normalizedPath.split("/").pop() || ""];
-                return base64Url || path;
+                return resolveImagePath(path, imageMap) || path;
               }
               return path;
             });
             processedItem[key] = processedArray;
           } else if (typeof value === "string" && value) {
-            const normalizedPath = value.replace(/^\.\//, "");
-            const base64Url = imageMap[value] || imageMap[normalizedPath] || imageMap["./" + normalizedPath] || imageMap[normalizedPath.split("/").pop() || ""];
+            const base64Url = resolveImagePath(value, imageMap);
             
             if (base64Url) {
               processedItem[key] = base64Url;
@@ -250,9 +352,14 @@ export const processZipFile = async (file: File): Promise<ZipProcessResult> => {
 
   // 11. 构建成功消息
   let successMsg = `成功加载 ZIP 模板: ${file.name}`;
-  if (htmlFiles.length > 0) {
+  if (variants.length > 1) {
+    successMsg += ` (多尺寸模板集: ${variants.map((v) => v.size).join(" / ")})`;
+  } else if (htmlFiles.length > 0) {
     successMsg += ` (HTML: ${mainHtmlEntry.name})`;
   }
+  if (ignoredHtmlFiles.length > 0) {
+    successMsg += ` (未声明尺寸、已忽略: ${ignoredHtmlFiles.map((f) => f.name).join("、")})`;
+  }
   if (cssFiles.length > 0) {
     successMsg += ` (CSS: ${cssFiles.length} 个文件)`;
   }
@@ -273,7 +380,9 @@ export const processZipFile = async (file: File): Promise<ZipProcessResult> => {
     html: finalHtml,
     css: processedCss, // 返回处理过的 CSS（字体路径已转换为 base64），用于注入顶层文档
     fields: Array.from(fieldMap.values()),
+    variants,
     jsonData: processedJsonData,
+    imageMap,
     successMessage: successMsg,
   };
 };
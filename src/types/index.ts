@@ -35,6 +35,15 @@ export interface BannerRenderData {
   rawData?: Record<string, any>;  // 包含所有原始Excel字段，如"单促价1"、"时间"、"主图brief"等
 }
 
+// 产品块中的一件商品（主品或赠品），由主行和明细子行解析得到
+export interface ProductItem {
+  role: "main" | "gift";             // 主品 / 赠品
+  name: string;                      // 商品名称或明细文本
+  qty: number;                       // 数量（至少为 1）
+  image?: string;                    // 图片列的值（文件名或 URL，可选）
+  rowIndex: number;                  // 来源行（0-based）
+}
+
 // 产品块结构（用于多行产品解析）
 export interface ProductBlock {
   productId: string;                 // 用行号/序号/SKU 拼出的唯一 id
@@ -53,5 +62,8 @@ export interface ProductBlock {
     rowIndex: number;
     raw: Record<string, any>;        // 原始整行数据（保留所有列）
   }>;
+
+  // 按"类型/机制/明细/数量"列把各行分类为主品和赠品（仅多行产品）
+  items?: ProductItem[];
 }
 
@@ -0,0 +1,87 @@
+/**
+ * Excel 列名字典：识别表头时，各类列可以使用的列名（同义词）
+ * 默认包含京东报价表的列名，天猫/抖音/拼多多等表格的列名可以在页面中补充，保存在 localStorage 中
+ */
+
+export interface ColumnDictionary {
+  name: string[];    // 商品名称列
+  price: string[];   // 价格列
+  brief: string[];   // 主图文案 / 卖点列
+  sku: string[];     // SKU 编码列（辅助判断表头行）
+}
+
+export type ColumnRole = keyof ColumnDictionary;
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  name: "商品名称",
+  price: "价格",
+  brief: "主图文案",
+  sku: "SKU",
+};
+
+export const DEFAULT_COLUMN_DICTIONARY: ColumnDictionary = {
+  name: ["商品名称", "产品名称", "品名", "标题", "套装名称", "礼盒名称"],
+  price: ["JD前台价", "前台价", "价格", "活动价", "单促价1", "促销价", "单促价", "SRP", "MSRP"],
+  brief: ["主图brief", "主图文案", "卖点", "权益"],
+  sku: ["SKU", "SKU编码", "JD SKU编码", "商品编码", "产品编码"],
+};
+
+const STORAGE_KEY = "bannergen:columnDictionary";
+
+/**
+ * 在表头中查找某类列：优先完全相同的列名，其次包含同义词的列名（按表头顺序）
+ */
+export function findColumnBySynonyms(headers: string[], synonyms: string[]): string | undefined {
+  return (
+    headers.find(h => synonyms.includes(h)) ??
+    headers.find(h => synonyms.some(k => k && h.includes(k)))
+  );
+}
+
+/**
+ * 校验并补全字典（导入的 JSON 或 localStorage 中的旧数据）
+ * 某类列缺失时使用默认列名
+ */
+export function normalizeColumnDictionary(raw: unknown): ColumnDictionary {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("列名字典格式无效");
+  }
+  const source = raw as Partial<Record<ColumnRole, unknown>>;
+  const dictionary = { ...DEFAULT_COLUMN_DICTIONARY };
+
+  (Object.keys(DEFAULT_COLUMN_DICTIONARY) as ColumnRole[]).forEach(role => {
+    const value = source[role];
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      throw new Error(`列名字典中「${COLUMN_ROLE_LABELS[role]}」必须是列名数组`);
+    }
+    const names = value.map(v => String(v).trim()).filter(Boolean);
+    dictionary[role] = Array.from(new Set(names));
+  });
+
+  return dictionary;
+}
+
+/**
+ * 读取保存的列名字典
+ */
+export function loadColumnDictionary(): ColumnDictionary {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeColumnDictionary(JSON.parse(raw)) : DEFAULT_COLUMN_DICTIONARY;
+  } catch (e) {
+    console.warn("读取列名字典失败:", e);
+    return DEFAULT_COLUMN_DICTIONARY;
+  }
+}
+
+/**
+ * 保存列名字典
+ */
+export function saveColumnDictionary(dictionary: ColumnDictionary): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(dictionary));
+  } catch (e) {
+    console.warn("保存列名字典失败:", e);
+  }
+}
@@ -0,0 +1,257 @@
+import * as XLSX from "xlsx";
+import { ParsedSheet, readWorkbook, getFirstVisibleSheetName, listSheets, parseVisibleSheet, parseSheetWithHeaderRow, sheetToVisibleRawRows } from "./excelParser";
+import { detectOfferSheet, detectSheetKindByPricePattern, SheetKind } from "./offerDetector";
+import { ColumnDictionary, DEFAULT_COLUMN_DICTIONARY } from "./columnDictionary";
+import { parseMultiRowProducts } from "./multiRowProductParser";
+import { parseRowPerSkuProducts } from "./rowPerSkuProductParser";
+import { productBlockToBannerData, PRODUCT_STRUCTURE_FIELDS, GIFT_NAMES_FIELD } from "./productItems";
+import { derivePromotionFields, PROMOTION_FIELDS } from "./promotionParser";
+import { ProductBlock } from "../types";
+import { debugLog } from "./logger";
+
+export interface ExcelImportResult {
+  sheetName: string;
+  sheetKind: SheetKind;
+  headerRowIndex: number;        // 表头在可见行中的索引
+  headers: string[];             // 表头（已去掉空列名）
+  parsedSheet: ParsedSheet;      // 按表头重新解析后的 sheet
+  products: ProductBlock[];
+  promotionColumns: string[];    // 包含促销文案的列（brief / 机制 / 优惠），用于生成 promo_* 字段
+}
+
+/**
+ * 导入选项
+ */
+export interface SheetImportOptions {
+  headerRowIndex?: number;        // 手动指定的表头行（可见行索引），不指定时自动检测
+  dictionary?: ColumnDictionary;  // 列名字典，不指定时使用默认字典
+}
+
+/**
+ * sheet 选择列表中的一项
+ */
+export interface SheetSummary {
+  sheetName: string;
+  hidden: boolean;
+  sheetKind: SheetKind;
+  headerRowIndex: number;        // 使用的表头行（可见行索引）
+  rowCount: number;              // 表头之后的可见数据行数
+  productCount: number;          // 按 sheetKind 解析出的产品数（UNKNOWN 时为 0）
+}
+
+/**
+ * 多个 sheet 合并导入的结果
+ */
+export interface MergedExcelImport {
+  sheets: ExcelImportResult[];
+  headers: string[];             // 各 sheet 表头的并集（多个 sheet 时追加 __sheet）
+  rows: Record<string, any>[];   // 每个产品的主行（多个 sheet 时带 __sheet 列）
+}
+
+// 合并导入时记录数据来源 sheet 的列名
+export const SHEET_SOURCE_COLUMN = "__sheet";
+
+/**
+ * 检测表头、判断 sheet 类型并解析产品（不抛出"无法识别"的错误，供 sheet 列表和导入共用）
+ */
+function analyzeSheet(workbook: XLSX.WorkBook, sheetName: string, options: SheetImportOptions = {}): ExcelImportResult {
+  const dictionary = options.dictionary || DEFAULT_COLUMN_DICTIONARY;
+
+  // 1. 初步解析，用于扫描表头
+  const parsedSheet = parseVisibleSheet(workbook, sheetName);
+
+  // 2. 检测表头行（手动指定时直接使用）
+  // 注意：detectOfferSheet 要求有 brief 列，但 detectSheetKindByPricePattern 只需要价格列
+  // 所以即使 detectOfferSheet 返回 UNKNOWN，仍然可以继续
+  let headerRowIndex = options.headerRowIndex;
+  if (headerRowIndex === undefined) {
+    const detection = detectOfferSheet(parsedSheet, dictionary);
+    debugLog(`[${sheetName}] 检测结果:`, detection);
+    headerRowIndex = detection.headerRowIndex ?? (parsedSheet.headerRowIndex || 0);
+  }
+
+  // 3. 重新解析数据，确保字段名匹配（sheetToVisibleJson 可能生成 __EMPTY_ 这样的字段名，而不是实际的表头名）
+  const finalParsedSheet = parseSheetWithHeaderRow(
+    workbook.Sheets[sheetName],
+    sheetName,
+    headerRowIndex,
+    parsedSheet.rawRows
+  );
+
+  // 4. 判断 sheet 类型并解析为 ProductBlock[]
+  const sheetKind = detectSheetKindByPricePattern(finalParsedSheet, dictionary);
+  debugLog(`[${sheetName}] Sheet 类型检测结果:`, sheetKind);
+
+  let products: ProductBlock[] = [];
+  if (sheetKind === "MULTIROW_PRODUCT") {
+    products = parseMultiRowProducts(finalParsedSheet, dictionary);
+  } else if (sheetKind === "ROW_PER_SKU") {
+    products = parseRowPerSkuProducts(finalParsedSheet, dictionary);
+  }
+
+  const headers = finalParsedSheet.headers.filter(h => h);
+
+  return {
+    sheetName,
+    sheetKind,
+    headerRowIndex,
+    headers,
+    parsedSheet: finalParsedSheet,
+    products,
+    promotionColumns: findPromotionColumns(headers, dictionary),
+  };
+}
+
+/**
+ * 包含促销文案的列：字典中的 brief 列（含 "主图brief1" 这类带序号的列）以及 机制/优惠/促销方式 列
+ * 价格列（如"促销价"）除外
+ */
+function findPromotionColumns(headers: string[], dictionary: ColumnDictionary): string[] {
+  return headers.filter(h =>
+    !dictionary.price.includes(h) &&
+    (dictionary.brief.some(k => k && h.includes(k)) || /机制|优惠|促销方式|活动内容/.test(h))
+  );
+}
+
+/**
+ * 列出 workbook 中的所有 sheet 及检测到的类型和行数（用于 sheet 选择）
+ * 单个 sheet 解析失败时记为 UNKNOWN，不影响其他 sheet
+ *
+ * @param headerRows - 手动指定的表头行（sheet 名 → 可见行索引）
+ */
+export function summarizeWorkbookSheets(
+  workbook: XLSX.WorkBook,
+  dictionary?: ColumnDictionary,
+  headerRows: Record<string, number> = {}
+): SheetSummary[] {
+  return listSheets(workbook).map(({ name, hidden }) => {
+    try {
+      const result = analyzeSheet(workbook, name, { dictionary, headerRowIndex: headerRows[name] });
+      return {
+        sheetName: name,
+        hidden,
+        sheetKind: result.sheetKind,
+        headerRowIndex: result.headerRowIndex,
+        rowCount: result.parsedSheet.rows.length,
+        productCount: result.products.length,
+      };
+    } catch (e) {
+      console.warn(`Sheet "${name}" 解析失败:`, e);
+      return { sheetName: name, hidden, sheetKind: "UNKNOWN" as SheetKind, headerRowIndex: 0, rowCount: 0, productCount: 0 };
+    }
+  });
+}
+
+/**
+ * sheet 开头的可见行（用于手动选择表头行）
+ */
+export function previewSheetRows(workbook: XLSX.WorkBook, sheetName: string, maxRows: number = 10): string[][] {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return [];
+  return sheetToVisibleRawRows(sheet, maxRows).map(row =>
+    (Array.isArray(row) ? row : []).map(cell => String(cell ?? "").trim())
+  );
+}
+
+/**
+ * 导入 workbook 中的一个 sheet
+ *
+ * 无法识别或没有数据时抛出带中文说明的 Error
+ */
+export function importWorkbookSheet(workbook: XLSX.WorkBook, sheetName: string, options: SheetImportOptions = {}): ExcelImportResult {
+  const result = analyzeSheet(workbook, sheetName, options);
+
+  if (result.sheetKind === "UNKNOWN") {
+    throw new Error(`Sheet「${sheetName}」未识别为可用的 Excel 结构（MULTIROW_PRODUCT 或 ROW_PER_SKU），请检查表头行和列名字典。`);
+  }
+
+  if (result.products.length === 0) {
+    throw new Error(`未能从 Sheet「${sheetName}」中提取到有效产品数据。总行数: ${result.parsedSheet.rows.length}。请检查数据行或表头识别是否正确。`);
+  }
+
+  debugLog(`[${sheetName}] 产品数量:`, result.products.length, "前3个产品预览:", result.products.slice(0, 3));
+  return result;
+}
+
+/**
+ * 合并多个 sheet 的导入结果为一份数据
+ * 只有一个 sheet 时保持原样；多个 sheet 时每行追加 __sheet 列记录来源
+ */
+export function mergeSheetImports(results: ExcelImportResult[]): MergedExcelImport {
+  const withSource = results.length > 1;
+  const headers: string[] = [];
+  const rows: Record<string, any>[] = [];
+
+  results.forEach(result => {
+    result.headers.forEach(header => {
+      if (!headers.includes(header)) headers.push(header);
+    });
+    productsToRows(result.products, result.promotionColumns).forEach(row => {
+      rows.push(withSource ? { ...row, [SHEET_SOURCE_COLUMN]: result.sheetName } : row);
+    });
+  });
+
+  // 多行产品解析出的主品/赠品字段、促销文案解析出的字段也作为可映射的列
+  [...PRODUCT_STRUCTURE_FIELDS, GIFT_NAMES_FIELD, ...PROMOTION_FIELDS].forEach(field => {
+    if (!headers.includes(field) && rows.some(row => row[field] !== undefined)) {
+      headers.push(field);
+    }
+  });
+
+  if (withSource) {
+    headers.push(SHEET_SOURCE_COLUMN);
+  }
+
+  return { sheets: results, headers, rows };
+}
+
+/**
+ * 完整的 Excel 导入流程：
+ * 1. 读取指定的 sheet（不指定时取第一个可见 sheet）
+ * 2. 检测表头行（detectOfferSheet 会扫描前几行）
+ * 3. 按表头行重新解析，确保字段名与表头一致
+ * 4. 判断 sheet 类型（多行一个产品 / 一行一个产品）并解析为 ProductBlock[]
+ * 5. 多个 sheet 时合并为一份数据（带 __sheet 列）
+ *
+ * 无法识别或没有数据时抛出带中文说明的 Error
+ */
+export async function importExcelProducts(
+  file: File,
+  sheetNames?: string[],
+  options: SheetImportOptions = {}
+): Promise<MergedExcelImport> {
+  const workbook = await readWorkbook(file);
+
+  let names = sheetNames && sheetNames.length > 0 ? sheetNames : [];
+  if (names.length === 0) {
+    const first = getFirstVisibleSheetName(workbook);
+    if (!first) {
+      throw new Error("No visible sheet found in workbook");
+    }
+    names = [first];
+  }
+
+  const missing = names.filter(name => !workbook.Sheets[name]);
+  if (missing.length > 0) {
+    throw new Error(`Excel 中没有这些 Sheet: ${missing.join("、")}（可用: ${workbook.SheetNames.join("、")}）`);
+  }
+
+  return mergeSheetImports(names.map(name => importWorkbookSheet(workbook, name, options)));
+}
+
+/**
+ * 取每个产品的主行作为字段映射的数据源
+ * - 多行产品附带由主品/赠品生成的字段（product_main_qty、gift_products_src_1 等）
+ * - 指定了促销文案列时附带解析出的 promo_type / promo_headline / final_price 等字段（Excel 中已有同名列时以 Excel 为准）
+ */
+export function productsToRows(products: ProductBlock[], promotionColumns: string[] = []): Record<string, any>[] {
+  return products.map(p => {
+    const raw = p.rows[0].raw;
+    const promoText = promotionColumns
+      .map(col => raw[col])
+      .filter(value => value !== null && value !== undefined && String(value).trim() !== "")
+      .join("，");
+    const promotion = promoText ? derivePromotionFields(promoText, p.price) : {};
+    return { ...promotion, ...raw, ...(p.items ? productBlockToBannerData(p) : {}) };
+  });
+}
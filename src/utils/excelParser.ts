@@ -1,4 +1,5 @@
 import * as XLSX from "xlsx";
+import { debugLog } from "./logger";
 
 export interface ParsedSheet {
   sheetName: string;
@@ -15,18 +16,20 @@ export interface ParsedSheet {
  * - Hidden === 1 或 2 → 隐藏 / veryHidden（忽略）
  */
 export function getFirstVisibleSheetName(workbook: XLSX.WorkBook): string | undefined {
+  return listSheets(workbook).find(sheet => !sheet.hidden)?.name;
+}
+
+/**
+ * 列出 workbook 中的所有 sheet（按工作簿中的顺序），标记是否隐藏
+ */
+export function listSheets(workbook: XLSX.WorkBook): { name: string; hidden: boolean }[] {
   const sheetMeta = workbook.Workbook?.Sheets || [];
-  const sheetNames = workbook.SheetNames;
 
-  for (let i = 0; i < sheetNames.length; i++) {
+  return workbook.SheetNames.map((name, i) => {
     const meta = sheetMeta[i];
     // Hidden: 0 = visible, 1 = hidden, 2 = veryHidden
-    if (!meta || meta.Hidden === 0) {
-      return sheetNames[i];
-    }
-  }
-
-  return undefined;
+    return { name, hidden: !!meta?.Hidden };
+  });
 }
 
 /**
@@ -34,7 +37,7 @@ export function getFirstVisibleSheetName(workbook: XLSX.WorkBook): string | unde
  * SheetJS 会在 sheet["!rows"] 里标记每一行是否隐藏
  * 
  * 注意：XLSX 的 header 参数只支持 1（第一行作为表头），不支持其他数字值
- * 如果 headerRowIndex !== 0，应该使用手动映射的方式（见 BannerBatchPage.tsx）
+ * 如果 headerRowIndex !== 0，应该使用手动映射的方式（见 parseSheetWithHeaderRow）
  * 
  * @param sheet - Excel sheet 对象
  * @param headerRowIndex - 表头所在的行号（0-based）。只支持 0（第一行），其他值会导致返回空数组
@@ -44,8 +47,8 @@ export function sheetToVisibleJson(sheet: XLSX.WorkSheet, headerRowIndex: number
   // XLSX 的 header 参数只支持 1（第一行作为表头），不支持其他数字值
   // 如果表头不在第一行，这个函数不应该被调用，应该使用手动映射
   if (headerRowIndex !== 0) {
-    console.warn(`sheetToVisibleJson: headerRowIndex (${headerRowIndex}) is not 0. XLSX header parameter only supports 1. Returning empty array. Use manual mapping instead (see BannerBatchPage.tsx).`);
-    return []; // 返回空数组，因为数据会在 BannerBatchPage 中重新解析
+    console.warn(`sheetToVisibleJson: headerRowIndex (${headerRowIndex}) is not 0. XLSX header parameter only supports 1. Returning empty array. Use manual mapping instead (see parseSheetWithHeaderRow).`);
+    return []; // 返回空数组，因为数据会在 parseSheetWithHeaderRow 中重新解析
   }
 
   // 先把整张表转成 json 行，使用 header: 1（第一行作为表头）
@@ -88,89 +91,15 @@ export function sheetToVisibleRawRows(sheet: XLSX.WorkSheet, maxRows: number = 1
 }
 
 /**
- * 读取 Excel 文件，选取"第一个可见 sheet"，并返回已过滤隐藏行的结果
+ * 读取 Excel 文件为 workbook
  */
-export function parseFirstVisibleSheet(file: File): Promise<ParsedSheet> {
+export function readWorkbook(file: File): Promise<XLSX.WorkBook> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: "array" });
-        console.log("Excel 文件中的所有 Sheet:", workbook.SheetNames);
-        
-        // 获取第一个可见的 sheet
-        const sheetName = getFirstVisibleSheetName(workbook);
-        if (!sheetName) {
-          throw new Error("No visible sheet found in workbook");
-        }
-        
-        console.log("使用 Sheet (第一个可见的):", sheetName);
-        const sheet = workbook.Sheets[sheetName];
-
-        // 先获取所有可见的原始数据（二维数组形式），用于扫描表头
-        // 注意：这里需要获取所有可见行，以便正确计算表头行在可见行中的索引
-        const allVisibleRawRows = sheetToVisibleRawRows(sheet, 1000); // 获取足够多的可见行用于扫描
-        
-        // 扫描可见行的前5行，找到表头行
-        const MAX_HEADER_SCAN_ROWS = 5;
-        const rawRows = allVisibleRawRows.slice(0, MAX_HEADER_SCAN_ROWS); // 只取前5行用于扫描
-        
-        let headerRowIndex = 0;
-        let headers: string[] = [];
-
-        // 将每一行转换为字符串数组，用于匹配（只扫描可见行的前5行）
-        for (let i = 0; i < Math.min(MAX_HEADER_SCAN_ROWS, rawRows.length); i++) {
-          const row = rawRows[i];
-          if (Array.isArray(row) && row.length > 0) {
-            // 将这一行转换为字符串数组（表头候选）
-            const candidateHeaders = row.map((cell: any) => String(cell || "").trim());
-            headers = candidateHeaders;
-            headerRowIndex = i; // 这是在可见行中的索引
-            break;  // 先默认用第一行，后续在 detectOfferSheet 中会重新扫描
-          }
-        }
-
-        // 注意：headerRowIndex 现在是可见行中的索引，但 sheetToVisibleJson 需要的是原始行号
-        // 我们需要找到表头行在原始 sheet 中的实际行号
-        // 由于 rawRows 已经是可见行，我们需要找到对应的原始行号
-        // 但为了简化，我们先用可见行中的索引，在 sheetToVisibleJson 中会处理
-        
-        // 获取所有可见行的原始行号映射
-        const allRawRows = XLSX.utils.sheet_to_json<any[]>(sheet, {
-          defval: "",
-          header: 1,
-        }) as any[][];
-        
-        // 找到表头行在原始 sheet 中的实际行号
-        let actualHeaderRowIndex = 0;
-        let visibleRowCount = 0;
-        for (let i = 0; i < allRawRows.length; i++) {
-          const rowMeta = sheet["!rows"]?.[i];
-          const isHidden = rowMeta && rowMeta.hidden;
-          if (!isHidden) {
-            if (visibleRowCount === headerRowIndex) {
-              actualHeaderRowIndex = i;
-              break;
-            }
-            visibleRowCount++;
-          }
-        }
-        
-        console.log("表头行在可见行中的索引:", headerRowIndex, "在原始 sheet 中的行号:", actualHeaderRowIndex);
-        
-        // 使用 sheetToVisibleJson 获取可见行（已过滤隐藏行）
-        const json = sheetToVisibleJson(sheet, actualHeaderRowIndex);
-        
-        console.log("初始解析：可见行数:", json.length);
-
-        resolve({
-          sheetName,
-          headers,
-          headerRowIndex: actualHeaderRowIndex, // 保存原始行号，用于后续重新解析
-          rows: json,
-          rawRows: rawRows,  // 已经是可见行的前5行
-        });
+        resolve(XLSX.read(data, { type: "array" }));
       } catch (err) {
         reject(err);
       }
@@ -180,6 +109,201 @@ export function parseFirstVisibleSheet(file: File): Promise<ParsedSheet> {
   });
 }
 
+/**
+ * 解析 workbook 中指定的 sheet，返回已过滤隐藏行的结果（表头默认取第一个非空可见行）
+ */
+export function parseVisibleSheet(workbook: XLSX.WorkBook, sheetName: string): ParsedSheet {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) {
+    throw new Error(`Sheet not found in workbook: ${sheetName}`);
+  }
+
+  // 先获取所有可见的原始数据（二维数组形式），用于扫描表头
+  // 注意：这里需要获取所有可见行，以便正确计算表头行在可见行中的索引
+  const allVisibleRawRows = sheetToVisibleRawRows(sheet, 1000); // 获取足够多的可见行用于扫描
+  
+  // 扫描可见行的前5行，找到表头行
+  const MAX_HEADER_SCAN_ROWS = 5;
+  const rawRows = allVisibleRawRows.slice(0, MAX_HEADER_SCAN_ROWS); // 只取前5行用于扫描
+  
+  let headerRowIndex = 0;
+  let headers: string[] = [];
+
+  // 将每一行转换为字符串数组，用于匹配（只扫描可见行的前5行）
+  for (let i = 0; i < Math.min(MAX_HEADER_SCAN_ROWS, rawRows.length); i++) {
+    const row = rawRows[i];
+    if (Array.isArray(row) && row.length > 0) {
+      // 将这一行转换为字符串数组（表头候选）
+      const candidateHeaders = row.map((cell: any) => String(cell || "").trim());
+      headers = candidateHeaders;
+      headerRowIndex = i; // 这是在可见行中的索引
+      break;  // 先默认用第一行，后续在 detectOfferSheet 中会重新扫描
+    }
+  }
+
+  // 找到表头行在原始 sheet 中的实际行号
+  const actualHeaderRowIndex = visibleToActualRowIndex(sheet, headerRowIndex);
+  
+  debugLog("表头行在可见行中的索引:", headerRowIndex, "在原始 sheet 中的行号:", actualHeaderRowIndex);
+  
+  // 使用 sheetToVisibleJson 获取可见行（已过滤隐藏行）
+  const json = sheetToVisibleJson(sheet, actualHeaderRowIndex);
+  
+  debugLog("初始解析：可见行数:", json.length);
+
+  return {
+    sheetName,
+    headers,
+    headerRowIndex: actualHeaderRowIndex, // 保存原始行号，用于后续重新解析
+    rows: json,
+    rawRows: rawRows,  // 已经是可见行的前5行
+  };
+}
+
+/**
+ * 将"可见行中的索引"转换为原始 sheet 中的行号（跳过隐藏行）
+ */
+export function visibleToActualRowIndex(sheet: XLSX.WorkSheet, visibleRowIndex: number): number {
+  const allRawRows = XLSX.utils.sheet_to_json<any[]>(sheet, {
+    defval: "",
+    header: 1,
+  }) as any[][];
+
+  let visibleRowCount = 0;
+  for (let i = 0; i < allRawRows.length; i++) {
+    const rowMeta = sheet["!rows"]?.[i];
+    const isHidden = rowMeta && rowMeta.hidden;
+    if (!isHidden) {
+      if (visibleRowCount === visibleRowIndex) {
+        return i;
+      }
+      visibleRowCount++;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * 以指定的表头行重新解析 sheet（手动映射字段名，支持表头不在第一行）
+ * - 只保留表头行之后的可见行
+ * - 同名列都有值时追加序号（如 "主图brief1"、"主图brief2"），只有一列有值时保留原名
+ * - 每行附带 _rowIndex（相对表头下一行的原始行偏移）
+ *
+ * @param visibleHeaderRowIndex - 表头在可见行中的索引（detectOfferSheet 返回的 headerRowIndex）
+ * @param rawRows - 保留的原始扫描行（用于后续表头检测）
+ */
+export function parseSheetWithHeaderRow(
+  sheet: XLSX.WorkSheet,
+  sheetName: string,
+  visibleHeaderRowIndex: number,
+  rawRows: any[][] = []
+): ParsedSheet {
+  // 获取所有原始行（不限制行数，确保获取完整数据）
+  const allRawRows = XLSX.utils.sheet_to_json<any[]>(sheet, {
+    defval: "",
+    header: 1,
+  }) as any[][];
+
+  // 找到表头行在原始 sheet 中的实际行号
+  const actualHeaderRowIndex = visibleToActualRowIndex(sheet, visibleHeaderRowIndex);
+
+  // 获取表头行的完整内容（从原始行中获取，确保包含所有列）
+  const headerRow = allRawRows[actualHeaderRowIndex];
+  const headerRowValues = headerRow ? headerRow.map((cell: any) => String(cell || "").trim()) : [];
+
+  debugLog("重新解析：表头行在可见行中的索引:", visibleHeaderRowIndex, "在原始 sheet 中的行号:", actualHeaderRowIndex);
+
+  const hasValue = (value: any) =>
+    value !== null && value !== undefined && value !== "" && String(value).trim() !== "";
+
+  // 从表头行的下一行开始获取数据行，只处理可见的行
+  const dataStartRow = actualHeaderRowIndex + 1;
+  const mappedRows = allRawRows
+    .map((row, rowIndex) => ({ row, rowIndex }))
+    .filter(({ rowIndex }) => {
+      // 只处理表头行之后的行
+      if (rowIndex <= actualHeaderRowIndex) return false;
+      // 过滤隐藏行
+      const rowMeta = sheet["!rows"]?.[rowIndex];
+      const isHidden = rowMeta && rowMeta.hidden;
+      return !isHidden;
+    })
+    .map(({ row, rowIndex }) => {
+      const mappedRow: Record<string, any> = {};
+
+      // 1. 收集所有有名称的列的值（按列索引顺序）
+      const fieldValuesByCol: Array<{ headerName: string; value: any; colIdx: number }> = [];
+      for (let colIdx = 0; colIdx < headerRowValues.length; colIdx++) {
+        const headerName = headerRowValues[colIdx];
+        if (headerName) {
+          const cellValue = colIdx < row.length ? row[colIdx] : undefined;
+          fieldValuesByCol.push({ headerName, value: cellValue, colIdx });
+        }
+      }
+
+      // 2. 统计每个字段名出现的位置
+      const fieldNameIndices = new Map<string, number[]>();
+      fieldValuesByCol.forEach(({ headerName, colIdx }) => {
+        if (!fieldNameIndices.has(headerName)) {
+          fieldNameIndices.set(headerName, []);
+        }
+        fieldNameIndices.get(headerName)!.push(colIdx);
+      });
+
+      // 3. 生成最终字段名并添加有值的字段
+      fieldValuesByCol.forEach(({ headerName, value, colIdx }) => {
+        if (!hasValue(value)) return; // 跳过空值
+
+        let finalFieldName = headerName;
+        const indices = fieldNameIndices.get(headerName)!;
+
+        if (indices.length > 1) {
+          // 有重复字段名：其他同名字段也有值时，添加序号
+          const otherHasValue = indices
+            .filter(idx => idx !== colIdx)
+            .some(idx => hasValue(row[idx]));
+
+          if (otherHasValue) {
+            finalFieldName = `${headerName}${indices.indexOf(colIdx) + 1}`;
+          }
+        }
+
+        mappedRow[finalFieldName] = value; // 保留原始类型
+      });
+
+      mappedRow["_rowIndex"] = rowIndex - dataStartRow;
+      return mappedRow;
+    });
+
+  debugLog("重新解析：可见数据行数:", mappedRows.length);
+
+  return {
+    sheetName,
+    headers: headerRowValues,
+    headerRowIndex: actualHeaderRowIndex, // 保存原始行号
+    rows: mappedRows,
+    rawRows,  // 保留原始扫描用的 rawRows
+  };
+}
+
+/**
+ * 读取 Excel 文件，选取"第一个可见 sheet"，并返回已过滤隐藏行的结果
+ */
+export async function parseFirstVisibleSheet(file: File): Promise<ParsedSheet> {
+  const workbook = await readWorkbook(file);
+  debugLog("Excel 文件中的所有 Sheet:", workbook.SheetNames);
+
+  // 获取第一个可见的 sheet
+  const sheetName = getFirstVisibleSheetName(workbook);
+  if (!sheetName) {
+    throw new Error("No visible sheet found in workbook");
+  }
+
+  debugLog("使用 Sheet (第一个可见的):", sheetName);
+  return parseVisibleSheet(workbook, sheetName);
+}
+
 // 保持向后兼容，parseFirstSheet 调用 parseFirstVisibleSheet
 export function parseFirstSheet(file: File): Promise<ParsedSheet> {
   return parseFirstVisibleSheet(file);
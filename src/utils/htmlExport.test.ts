@@ -0,0 +1,42 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { toCanvas } from "html-to-image";
+import { exportNodeToBlob } from "./htmlExport";
+
+vi.mock("html-to-image", () => ({ toCanvas: vi.fn() }));
+
+// 模拟只能编码 supported 中格式的浏览器：其它格式 toBlob 回退为 PNG
+const mockCanvas = (supported: string[]) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = 10;
+  canvas.height = 10;
+  canvas.toBlob = (callback, type = "image/png") => {
+    const actual = supported.includes(type) ? type : "image/png";
+    callback(new Blob(["x".repeat(100)], { type: actual }));
+  };
+  vi.mocked(toCanvas).mockResolvedValue(canvas);
+};
+
+const node = () => document.createElement("div");
+const options = { width: 10, height: 10, pixelRatio: 1 };
+
+beforeEach(() => {
+  vi.mocked(toCanvas).mockReset();
+});
+
+describe("exportNodeToBlob", () => {
+  it("按所选格式编码", async () => {
+    mockCanvas(["image/png", "image/avif"]);
+    const result = await exportNodeToBlob(node(), { ...options, format: "avif" });
+    expect(result).toMatchObject({ format: "avif", quality: 0.92, withinSizeLimit: true });
+    expect(result.blob.type).toBe("image/avif");
+  });
+
+  it("浏览器不能编码 AVIF 时返回实际编码的 PNG", async () => {
+    mockCanvas(["image/png"]);
+    const result = await exportNodeToBlob(node(), { ...options, format: "avif", maxBytes: 50 });
+    expect(result.format).toBe("png");
+    expect(result.blob.type).toBe("image/png");
+    expect(result.withinSizeLimit).toBe(false);
+  });
+});
@@ -1,4 +1,4 @@
-import { toPng } from "html-to-image";
+import { toCanvas } from "html-to-image";
 
 /**
  * 等待指定文档中的字体加载完成
@@ -16,6 +16,41 @@ async function waitForFonts(doc: Document | any) {
   }
 }
 
+/**
+ * 导出图片格式
+ */
+export type ExportFormat = "png" | "jpeg" | "webp" | "avif";
+
+export interface ExportFormatInfo {
+  label: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;      // 是否支持 quality（PNG 为无损格式）
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  png: { label: "PNG", mimeType: "image/png", extension: "png", lossy: false },
+  jpeg: { label: "JPEG", mimeType: "image/jpeg", extension: "jpg", lossy: true },
+  webp: { label: "WebP", mimeType: "image/webp", extension: "webp", lossy: true },
+  avif: { label: "AVIF", mimeType: "image/avif", extension: "avif", lossy: true },
+};
+
+// 限制文件大小时允许降到的最低质量
+const MIN_QUALITY = 0.1;
+// 二分查找质量的次数（精度约 0.01）
+const QUALITY_SEARCH_STEPS = 7;
+
+/**
+ * 判断当前浏览器的 canvas 能否编码该格式（不支持时 toDataURL 会回退为 PNG）
+ */
+export function isExportFormatSupported(format: ExportFormat): boolean {
+  if (format === "png") return true;
+  const canvas = document.createElement("canvas");
+  canvas.width = 1;
+  canvas.height = 1;
+  return canvas.toDataURL(EXPORT_FORMATS[format].mimeType).startsWith(`data:${EXPORT_FORMATS[format].mimeType}`);
+}
+
 /**
  * 导出选项接口
  */
@@ -25,6 +60,102 @@ export interface ExportOptions {
    * 用于确保 html-to-image 能正确渲染自定义字体
    */
   fontEmbedCSS?: string;
+  /**
+   * 图片格式（默认 PNG）
+   */
+  format?: ExportFormat;
+  /**
+   * 有损格式的质量（0-1，默认 0.92）
+   */
+  quality?: number;
+  /**
+   * 文件大小上限（字节）。有损格式会逐步降低质量直到不超过上限
+   */
+  maxBytes?: number;
+  /**
+   * 输出宽高（CSS 像素）。不指定时使用节点的实际尺寸
+   * 最终图片像素 = 宽高 × pixelRatio，与运行的设备无关
+   */
+  width?: number;
+  height?: number;
+  /**
+   * 输出倍率（1x / 2x / 3x）。不指定时使用设备像素比（不同设备导出的尺寸会不同）
+   */
+  pixelRatio?: number;
+}
+
+/**
+ * 导出结果
+ */
+export interface ExportResult {
+  blob: Blob;
+  format: ExportFormat;       // 实际编码的格式（浏览器不支持所选格式时 toBlob 会回退为 PNG）
+  quality?: number;           // 有损格式最终使用的质量
+  withinSizeLimit: boolean;   // 是否满足 maxBytes（未设置上限时恒为 true）
+}
+
+/**
+ * 计算输出图片的像素尺寸
+ */
+export function getOutputPixelSize(
+  node: HTMLElement,
+  options: ExportOptions = {}
+): { width: number; height: number; pixelRatio: number } {
+  const pixelRatio = options.pixelRatio ?? (window.devicePixelRatio || 2);
+  const width = options.width || node.offsetWidth || node.scrollWidth;
+  const height = options.height || node.offsetHeight || node.scrollHeight;
+  return {
+    width: Math.round(width * pixelRatio),
+    height: Math.round(height * pixelRatio),
+    pixelRatio,
+  };
+}
+
+/**
+ * 把 DOM 节点渲染到 canvas，并保证 canvas 的像素尺寸等于 getOutputPixelSize 的结果
+ */
+async function renderNodeToCanvas(
+  node: HTMLElement,
+  options: ExportOptions = {}
+): Promise<HTMLCanvasElement> {
+  // 1）等待顶层文档的字体（我们在 BannerBatchPage 里注入了 @font-face）
+  await waitForFonts(document as any);
+
+  // 2）如果节点来自 iframe，也等待 iframe 自己的字体
+  const ownerDoc: any = node.ownerDocument;
+  if (ownerDoc && ownerDoc !== document) {
+    await waitForFonts(ownerDoc);
+  }
+
+  const { width, height, pixelRatio } = getOutputPixelSize(node, options);
+
+  const canvas = await toCanvas(node, {
+    cacheBust: true,
+    pixelRatio,
+    // JPEG 没有透明通道，统一使用白色背景
+    backgroundColor: "#ffffff",
+    // 指定了输出尺寸时，按该尺寸绘制（节点尺寸不同时会缩放到该尺寸）
+    ...(options.width && options.height && { canvasWidth: options.width, canvasHeight: options.height }),
+    // 传递字体 CSS，确保 html-to-image 能识别并嵌入字体
+    ...(options.fontEmbedCSS && { fontEmbedCSS: options.fontEmbedCSS }),
+  });
+
+  if (canvas.width === width && canvas.height === height) {
+    return canvas;
+  }
+
+  // html-to-image 在画布过大时会自动缩小，或因小数像素产生 1px 误差，这里重新绘制到精确尺寸
+  const exact = document.createElement("canvas");
+  exact.width = width;
+  exact.height = height;
+  const context = exact.getContext("2d");
+  if (!context) {
+    throw new Error("无法创建 canvas 2D 上下文");
+  }
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(canvas, 0, 0, width, height);
+  return exact;
 }
 
 /**
@@ -38,28 +169,102 @@ export async function exportNodeToPngDataUrl(
   options?: ExportOptions
 ): Promise<string> {
   try {
-    // 1）等待顶层文档的字体（我们在 BannerBatchPage 里注入了 @font-face）
-    await waitForFonts(document as any);
+    const canvas = await renderNodeToCanvas(node, options);
+    return canvas.toDataURL("image/png");
+  } catch (error) {
+    console.error("导出 PNG 失败:", error);
+    throw error;
+  }
+}
+
+/**
+ * canvas.toBlob 的 Promise 版本
+ */
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error(`无法编码为 ${mimeType}`))),
+      mimeType,
+      quality
+    );
+  });
+}
+
+/**
+ * 根据 MIME 类型找到导出格式
+ */
+function formatOfMimeType(mimeType: string): ExportFormat | undefined {
+  return (Object.keys(EXPORT_FORMATS) as ExportFormat[]).find(f => EXPORT_FORMATS[f].mimeType === mimeType);
+}
+
+/**
+ * 将 DOM 节点导出为指定格式的图片 Blob
+ *
+ * 节点只渲染一次到 canvas，之后按格式/质量编码；
+ * 设置了 maxBytes 的有损格式会二分查找不超过上限的最高质量；
+ * 浏览器不能编码所选格式时（blob.type 不同）按实际编码的格式返回，由调用方改扩展名并提示
+ */
+export async function exportNodeToBlob(
+  node: HTMLElement,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const format = options.format || "png";
+  const { mimeType, lossy } = EXPORT_FORMATS[format];
+  const quality = options.quality ?? 0.92;
+
+  try {
+    const canvas = await renderNodeToCanvas(node, options);
+
+    const blob = await canvasToBlob(canvas, mimeType, lossy ? quality : undefined);
+    if (blob.type !== mimeType) {
+      return {
+        blob,
+        format: formatOfMimeType(blob.type) ?? "png",
+        withinSizeLimit: !options.maxBytes || blob.size <= options.maxBytes,
+      };
+    }
+
+    if (!lossy) {
+      return { blob, format, withinSizeLimit: !options.maxBytes || blob.size <= options.maxBytes };
+    }
 
-    // 2）如果节点来自 iframe，也等待 iframe 自己的字体
-    const ownerDoc: any = node.ownerDocument;
-    if (ownerDoc && ownerDoc !== document) {
-      await waitForFonts(ownerDoc);
+    if (!options.maxBytes || blob.size <= options.maxBytes) {
+      return { blob, format, quality, withinSizeLimit: true };
     }
 
-    const dataUrl = await toPng(node, {
-      cacheBust: true,
-      // 使用设备像素比导出，保持字体和细节清晰
-      pixelRatio: window.devicePixelRatio || 2,
-      backgroundColor: "#ffffff",
-      // 宽高交给库根据节点真实尺寸计算
-      // 传递字体 CSS，确保 html-to-image 能识别并嵌入字体
-      ...(options?.fontEmbedCSS && { fontEmbedCSS: options.fontEmbedCSS }),
-    });
-
-    return dataUrl;
+    // 超过大小上限：在 [MIN_QUALITY, quality] 之间二分查找能满足上限的最高质量
+    let low = MIN_QUALITY;
+    let high = quality;
+    let best: { blob: Blob; quality: number } | null = null;
+    let smallest = { blob, quality };
+
+    for (let step = 0; step < QUALITY_SEARCH_STEPS; step++) {
+      const mid = (low + high) / 2;
+      const candidate = await canvasToBlob(canvas, mimeType, mid);
+      if (candidate.size < smallest.blob.size) {
+        smallest = { blob: candidate, quality: mid };
+      }
+      if (candidate.size <= options.maxBytes) {
+        best = { blob: candidate, quality: mid };
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    if (!best) {
+      // 最低质量仍然超出时，返回最小的结果并标记超限
+      const lowest = await canvasToBlob(canvas, mimeType, MIN_QUALITY);
+      if (lowest.size <= options.maxBytes) {
+        return { blob: lowest, format, quality: MIN_QUALITY, withinSizeLimit: true };
+      }
+      const result = lowest.size < smallest.blob.size ? { blob: lowest, quality: MIN_QUALITY } : smallest;
+      return { ...result, format, withinSizeLimit: false };
+    }
+
+    return { ...best, format, withinSizeLimit: true };
   } catch (error) {
-    console.error("导出 PNG 失败:", error);
+    console.error(`导出 ${EXPORT_FORMATS[format].label} 失败:`, error);
     throw error;
   }
 }
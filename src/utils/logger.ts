@@ -0,0 +1,17 @@
+/**
+ * 解析流水线的调试日志
+ *
+ * 页面中默认输出到控制台；命令行（bannergen）默认关闭，加 --verbose 时打开。
+ * 警告和错误仍直接使用 console.warn / console.error，不受影响
+ */
+let debugEnabled = true;
+
+export const setDebugLogging = (enabled: boolean): void => {
+  debugEnabled = enabled;
+};
+
+export const debugLog = (...args: unknown[]): void => {
+  if (debugEnabled) {
+    console.log(...args);
+  }
+};
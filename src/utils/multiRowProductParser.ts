@@ -1,14 +1,16 @@
 import { ParsedSheet } from "./excelParser";
 import { ProductBlock } from "../types";
 import { findPriceColumn, findNameColumn } from "./offerDetector";
+import { ColumnDictionary, DEFAULT_COLUMN_DICTIONARY } from "./columnDictionary";
+import { classifyBlockItems } from "./productItems";
 
 /**
  * 解析多行一个产品的 Excel（ADP 风格）
  * 核心逻辑：找到有价格的主行，然后向下收集价格为空但有明细信息的子行
  */
-export function parseMultiRowProducts(parsed: ParsedSheet): ProductBlock[] {
-  const priceCol = findPriceColumn(parsed.headers);
-  const nameCol = findNameColumn(parsed.headers);
+export function parseMultiRowProducts(parsed: ParsedSheet, dictionary: ColumnDictionary = DEFAULT_COLUMN_DICTIONARY): ProductBlock[] {
+  const priceCol = findPriceColumn(parsed.headers, dictionary);
+  const nameCol = findNameColumn(parsed.headers, dictionary);
   if (!priceCol) return [];
 
   const blocks: ProductBlock[] = [];
@@ -63,6 +65,8 @@ export function parseMultiRowProducts(parsed: ParsedSheet): ProductBlock[] {
       nameColumnName: nameCol,
       rows: blockRows,
     };
+    // 把主行和子行分类为主品/赠品（用于生成图片和数量字段）
+    block.items = classifyBlockItems(block, parsed.headers);
 
     blocks.push(block);
     i = end + 1;
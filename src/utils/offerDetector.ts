@@ -1,30 +1,24 @@
 import { ParsedSheet } from "./excelParser";
+import { ColumnDictionary, DEFAULT_COLUMN_DICTIONARY, findColumnBySynonyms } from "./columnDictionary";
+import { debugLog } from "./logger";
 
 export type OfferSheetKind = "ROW_PER_SKU" | "UNKNOWN";
 export type SheetKind = "MULTIROW_PRODUCT" | "ROW_PER_SKU" | "UNKNOWN";
 
-const NAME_COLUMNS = ["商品名称", "产品名称", "品名", "标题"];
-const PRICE_COLUMNS = ["JD前台价", "前台价", "价格", "活动价", "单促价1"];
-const BRIEF_COLUMNS = ["主图brief", "主图文案", "卖点", "权益"];
-const SKU_COLUMNS = ["SKU", "SKU编码", "JD SKU编码", "商品编码", "产品编码"];  // 辅助判断字段
-
-// 价格列关键词（用于多行产品检测）
-const PRICE_HEADER_KEYWORDS = ["价格", "前台价", "促销价", "单促价", "SRP", "MSRP", "JD前台价", "活动价"];
-// 名称列关键词（用于多行产品检测）
-const NAME_HEADER_KEYWORDS = ["商品名称", "产品名称", "品名", "套装名称", "礼盒名称"];
+// 列名来自列名字典（columnDictionary.ts），默认是京东报价表的列名
 
 /**
  * 查找价格列
  */
-export function findPriceColumn(headers: string[]): string | undefined {
-  return headers.find(h => PRICE_HEADER_KEYWORDS.some(k => h.includes(k)));
+export function findPriceColumn(headers: string[], dictionary: ColumnDictionary = DEFAULT_COLUMN_DICTIONARY): string | undefined {
+  return findColumnBySynonyms(headers, dictionary.price);
 }
 
 /**
  * 查找产品名称列
  */
-export function findNameColumn(headers: string[]): string | undefined {
-  return headers.find(h => NAME_HEADER_KEYWORDS.some(k => h.includes(k)));
+export function findNameColumn(headers: string[], dictionary: ColumnDictionary = DEFAULT_COLUMN_DICTIONARY): string | undefined {
+  return findColumnBySynonyms(headers, dictionary.name);
 }
 
 export interface OfferDetectionResult {
@@ -35,12 +29,12 @@ export interface OfferDetectionResult {
   headerRowIndex?: number;  // 找到的表头行号
 }
 
-// 扫描可见行的前5行，找到包含所有必需字段的表头行
-export function detectOfferSheet(sheet: ParsedSheet): OfferDetectionResult {
+// 扫描可见行的前5行，找到包含所有必需字段的表头行（表头单元格需与字典中的列名完全一致）
+export function detectOfferSheet(sheet: ParsedSheet, dictionary: ColumnDictionary = DEFAULT_COLUMN_DICTIONARY): OfferDetectionResult {
   const MAX_SCAN_ROWS = 5; // 只扫描可见行的前5行
   const rawRows = sheet.rawRows || [];
 
-  console.log("开始扫描表头（只扫描可见行的前5行），rawRows 数量:", rawRows.length);
+  debugLog("开始扫描表头（只扫描可见行的前5行），rawRows 数量:", rawRows.length);
   
   // 扫描可见行的前5行，找到包含所有必需字段的行
   for (let rowIndex = 0; rowIndex < Math.min(MAX_SCAN_ROWS, rawRows.length); rowIndex++) {
@@ -52,15 +46,15 @@ export function detectOfferSheet(sheet: ParsedSheet): OfferDetectionResult {
     // 将这一行转换为字符串数组（表头候选）
     const candidateHeaders = row.map((cell: any) => String(cell || "").trim());
     
-    console.log(`扫描第 ${rowIndex + 1} 行（索引 ${rowIndex}）:`, candidateHeaders.slice(0, 10)); // 只打印前10个字段
+    debugLog(`扫描第 ${rowIndex + 1} 行（索引 ${rowIndex}）:`, candidateHeaders.slice(0, 10)); // 只打印前10个字段
 
     // 检查这一行是否包含必需的字段
-    const nameColumn = NAME_COLUMNS.find(c => candidateHeaders.includes(c));
-    const priceColumn = PRICE_COLUMNS.find(c => candidateHeaders.includes(c));
-    const briefColumn = BRIEF_COLUMNS.find(c => candidateHeaders.includes(c));
-    const skuColumn = SKU_COLUMNS.find(c => candidateHeaders.includes(c));
+    const nameColumn = dictionary.name.find(c => candidateHeaders.includes(c));
+    const priceColumn = dictionary.price.find(c => candidateHeaders.includes(c));
+    const briefColumn = dictionary.brief.find(c => candidateHeaders.includes(c));
+    const skuColumn = dictionary.sku.find(c => candidateHeaders.includes(c));
     
-    console.log(`  第 ${rowIndex + 1} 行匹配结果:`, {
+    debugLog(`  第 ${rowIndex + 1} 行匹配结果:`, {
       nameColumn,
       priceColumn,
       briefColumn,
@@ -69,7 +63,7 @@ export function detectOfferSheet(sheet: ParsedSheet): OfferDetectionResult {
 
     // 优先：商品名称 + 价格 + brief（完整匹配）
     if (nameColumn && priceColumn && briefColumn) {
-      console.log(`✓ 找到完整匹配的表头行: 第 ${rowIndex + 1} 行（索引 ${rowIndex}）`);
+      debugLog(`✓ 找到完整匹配的表头行: 第 ${rowIndex + 1} 行（索引 ${rowIndex}）`);
       return {
         kind: "ROW_PER_SKU",
         nameColumn,
@@ -79,32 +73,40 @@ export function detectOfferSheet(sheet: ParsedSheet): OfferDetectionResult {
       };
     }
     
-    // 备选：商品名称 + 价格 + SKU（如果没有 brief，但 SKU 可以作为标识）
-    // 但要求 SKU 字段必须是 "JD SKU编码"，且价格字段必须是 "JD前台价"，这样更准确
+    // 备选：商品名称 + 价格 + SKU（没有 brief 时，SKU 可以作为标识）
+    // 三列都要与字典中的列名完全一致，避免把标题行、说明行误认为表头
     if (nameColumn && priceColumn && skuColumn) {
-      // 更严格的判断：要求同时有 "JD SKU编码" 和 "JD前台价"，这样更可能是真正的表头行
-      const hasJdSku = candidateHeaders.includes("JD SKU编码");
-      const hasJdPrice = candidateHeaders.includes("JD前台价");
-      
-      if (hasJdSku && hasJdPrice) {
-        console.log(`✓ 找到备选匹配的表头行（有JD SKU编码和JD前台价）: 第 ${rowIndex + 1} 行（索引 ${rowIndex}）`);
-        const fallbackBriefColumn = BRIEF_COLUMNS.find(c => candidateHeaders.includes(c)) || undefined;
-        return {
-          kind: "ROW_PER_SKU",
-          nameColumn,
-          priceColumn,
-          briefColumn: fallbackBriefColumn,  // 可能为 undefined
-          headerRowIndex: rowIndex,
-        };
-      }
+      debugLog(`✓ 找到备选匹配的表头行（商品名称 + 价格 + SKU）: 第 ${rowIndex + 1} 行（索引 ${rowIndex}）`);
+      return {
+        kind: "ROW_PER_SKU",
+        nameColumn,
+        priceColumn,
+        briefColumn: undefined,
+        headerRowIndex: rowIndex,
+      };
+    }
+  }
+
+  // 再扫描一遍，只要求商品名称 + 价格（天猫/抖音/拼多多的表格常常没有 brief 和 SKU 列）
+  for (let rowIndex = 0; rowIndex < Math.min(MAX_SCAN_ROWS, rawRows.length); rowIndex++) {
+    const row = rawRows[rowIndex];
+    if (!Array.isArray(row) || row.length === 0) {
+      continue;
+    }
+    const candidateHeaders = row.map((cell: any) => String(cell || "").trim());
+    const nameColumn = dictionary.name.find(c => candidateHeaders.includes(c));
+    const priceColumn = dictionary.price.find(c => candidateHeaders.includes(c));
+    if (nameColumn && priceColumn) {
+      debugLog(`✓ 找到商品名称 + 价格的表头行: 第 ${rowIndex + 1} 行（索引 ${rowIndex}）`);
+      return { kind: "ROW_PER_SKU", nameColumn, priceColumn, headerRowIndex: rowIndex };
     }
   }
 
   // 如果扫描前10行都没找到，尝试使用默认的 headers（向后兼容）
   const headers = sheet.headers;
-  const nameColumn = NAME_COLUMNS.find(c => headers.includes(c));
-  const priceColumn = PRICE_COLUMNS.find(c => headers.includes(c));
-  const briefColumn = BRIEF_COLUMNS.find(c => headers.includes(c));
+  const nameColumn = dictionary.name.find(c => headers.includes(c));
+  const priceColumn = dictionary.price.find(c => headers.includes(c));
+  const briefColumn = dictionary.brief.find(c => headers.includes(c));
 
   if (nameColumn && priceColumn && briefColumn) {
     return {
@@ -123,26 +125,26 @@ export function detectOfferSheet(sheet: ParsedSheet): OfferDetectionResult {
  * 通过价格模式判断 sheet 类型：多行一个产品 vs 一行一个产品
  * 核心逻辑：检查是否有"有价格的主行 + 没价格但有明细信息的子行"的结构
  */
-export function detectSheetKindByPricePattern(parsed: ParsedSheet): SheetKind {
-  const priceCol = findPriceColumn(parsed.headers);
-  console.log("detectSheetKindByPricePattern - headers:", parsed.headers);
-  console.log("detectSheetKindByPricePattern - 找到的价格列:", priceCol);
+export function detectSheetKindByPricePattern(parsed: ParsedSheet, dictionary: ColumnDictionary = DEFAULT_COLUMN_DICTIONARY): SheetKind {
+  const priceCol = findPriceColumn(parsed.headers, dictionary);
+  debugLog("detectSheetKindByPricePattern - headers:", parsed.headers);
+  debugLog("detectSheetKindByPricePattern - 找到的价格列:", priceCol);
   if (!priceCol) {
-    console.log("detectSheetKindByPricePattern - 未找到价格列，返回 UNKNOWN");
+    debugLog("detectSheetKindByPricePattern - 未找到价格列，返回 UNKNOWN");
     return "UNKNOWN";
   }
 
   const rows = parsed.rows;
-  console.log("detectSheetKindByPricePattern - 数据行数:", rows.length);
+  debugLog("detectSheetKindByPricePattern - 数据行数:", rows.length);
   if (rows.length === 0) {
-    console.log("detectSheetKindByPricePattern - 没有数据行，返回 UNKNOWN");
+    debugLog("detectSheetKindByPricePattern - 没有数据行，返回 UNKNOWN");
     return "UNKNOWN";
   }
   
   // 检查第一行数据，看看价格列是否存在
-  console.log("detectSheetKindByPricePattern - 第一行数据:", rows[0]);
-  console.log("detectSheetKindByPricePattern - 第一行数据的所有字段:", Object.keys(rows[0] || {}));
-  console.log("detectSheetKindByPricePattern - 第一行数据的价格列值:", rows[0]?.[priceCol]);
+  debugLog("detectSheetKindByPricePattern - 第一行数据:", rows[0]);
+  debugLog("detectSheetKindByPricePattern - 第一行数据的所有字段:", Object.keys(rows[0] || {}));
+  debugLog("detectSheetKindByPricePattern - 第一行数据的价格列值:", rows[0]?.[priceCol]);
   
   let multiRowBlockCount = 0;
   let singleRowCount = 0;
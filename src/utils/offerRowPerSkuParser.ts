@@ -1,5 +1,6 @@
 import { ParsedSheet } from "./excelParser";
 import { OfferDetectionResult } from "./offerDetector";
+import { debugLog } from "./logger";
 
 // 返回类型：直接使用 Excel 原始字段，不进行映射
 export type ExcelRowData = Record<string, any>;
@@ -16,8 +17,8 @@ export function parseRowPerSkuSheet(
 
   // 获取所有表头字段（从 sheet.headers 中获取，确保包含所有列）
   const allHeaders = sheet.headers || [];
-  console.log("parseRowPerSkuSheet - 所有表头字段:", allHeaders.filter(h => h));
-  console.log("parseRowPerSkuSheet - 表头字段数量:", allHeaders.filter(h => h).length);
+  debugLog("parseRowPerSkuSheet - 所有表头字段:", allHeaders.filter(h => h));
+  debugLog("parseRowPerSkuSheet - 表头字段数量:", allHeaders.filter(h => h).length);
   
   // 注意：sheet.rows 已经在 BannerBatchPage 中过滤了隐藏行
   return sheet.rows
@@ -43,8 +44,8 @@ export function parseRowPerSkuSheet(
       });
       
       if (index === 0) {
-        console.log("第一行解析后的字段:", Object.keys(data));
-        console.log("第一行是否包含'主图brief':", '主图brief' in data);
+        debugLog("第一行解析后的字段:", Object.keys(data));
+        debugLog("第一行是否包含'主图brief':", '主图brief' in data);
       }
 
       return data;
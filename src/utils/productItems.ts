@@ -0,0 +1,165 @@
+/**
+ * 多行产品块（ADP 风格）的结构化解析：
+ * 把主行和明细子行按"类型/机制/明细/数量"列分类为主品和赠品，并转换为模板使用的图片/数量字段
+ * （product_main_src / product_main_qty / gift_products_src_1 / gift_products_qty_1 等）
+ */
+import { BannerData, ProductBlock, ProductItem } from "../types";
+
+// 由产品块生成、由 dataApplier 特殊处理的字段（字段映射中没有绑定这些字段时直接带入 BannerData）
+export const PRODUCT_STRUCTURE_FIELDS = [
+  "product_main_src",
+  "product_main_qty",
+  "gift_products_src",
+  "gift_products_qty",
+  "gift_products_src_1",
+  "gift_products_qty_1",
+] as const;
+
+// 赠品名称文本（如"洁面×2 + 面霜小样"），模板中有同名 data-field 时会被自动映射
+export const GIFT_NAMES_FIELD = "gift_products_name";
+
+const GIFT_PATTERN = /赠|送|小样|试用|gift|gwp/i;
+const MAIN_PATTERN = /主品|正装|本品|主产品|main/i;
+
+const CN_DIGITS: Record<string, number> = {
+  一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+};
+
+const hasValue = (value: any) => value !== null && value !== undefined && String(value).trim() !== "";
+
+// 所有量词（"数量"列中使用）和只表示件数的量词（明细文本中使用：明细里的"80片""30片"是规格，不是件数）
+const ALL_UNITS = "件|个|支|瓶|盒|片|袋|罐|只|份|套|包|组";
+const COUNT_UNITS = "件|个|份|套|组";
+
+/**
+ * 解析数量："2"、"x2"、"×2"、"2件"、"两瓶" → 2；解析不出时返回 undefined
+ * countUnitsOnly：只认件/个/份/套/组（解析明细文本时使用，"化妆棉80片" 不会被当作 80 件）
+ */
+export function parseQuantity(value: any, countUnitsOnly = false): number | undefined {
+  if (typeof value === "number") {
+    return value > 0 ? Math.round(value) : undefined;
+  }
+  if (!hasValue(value)) return undefined;
+
+  const text = String(value).trim();
+  const units = countUnitsOnly ? COUNT_UNITS : ALL_UNITS;
+  const digits = text.match(/^\d+$/) ||
+    text.match(/[x×*＊]\s*(\d+)/i) ||
+    text.match(new RegExp(`(\\d+)\\s*(?:${units})`));
+  if (digits) {
+    const qty = Number(digits[1] ?? digits[0]);
+    return qty > 0 ? qty : undefined;
+  }
+
+  const chinese = text.match(new RegExp(`([一二两三四五六七八九十])\\s*(?:${units})`)) || text.match(/^([一二两三四五六七八九十])$/);
+  return chinese ? CN_DIGITS[chinese[1]] : undefined;
+}
+
+/**
+ * 找出块中各类信息所在的列
+ */
+function findItemColumns(headers: string[]) {
+  return {
+    typeColumns: headers.filter(h => h.includes("类型") || h.includes("机制")),
+    detailColumn: headers.find(h => h.includes("明细")),
+    qtyColumn: headers.find(h => h.includes("数量")),
+    imageColumn: headers.find(h => /图片|产品图|赠品图|image|img|src/i.test(h) && !/brief|文案/i.test(h)),
+  };
+}
+
+/**
+ * 把产品块的各行分类为主品和赠品
+ * - 主行始终是主品（名称取商品名称列）
+ * - 子行优先按"类型/机制"列判断，其次按明细文本判断，都判断不出时视为主品（如套装中的其他正装）
+ * - 数量优先取"数量"列，其次从明细文本中解析（如"洁面 x2"、"小样 2件"，规格如"80片"不算），默认 1
+ */
+export function classifyBlockItems(block: ProductBlock, headers: string[]): ProductItem[] {
+  const { typeColumns, detailColumn, qtyColumn, imageColumn } = findItemColumns(headers);
+
+  return block.rows
+    .map(({ rowIndex, raw }, index): ProductItem | null => {
+      const detail = detailColumn && hasValue(raw[detailColumn]) ? String(raw[detailColumn]).trim() : "";
+      const typeText = typeColumns.map(col => raw[col]).filter(hasValue).join(" ");
+      const isMainRow = index === 0;
+
+      const name = isMainRow && block.nameColumnName && hasValue(raw[block.nameColumnName])
+        ? String(raw[block.nameColumnName]).trim()
+        : detail;
+      if (!isMainRow && !name && !typeText) return null;
+
+      let role: ProductItem["role"] = "main";
+      if (!isMainRow) {
+        if (MAIN_PATTERN.test(typeText)) role = "main";
+        else if (GIFT_PATTERN.test(typeText) || GIFT_PATTERN.test(detail)) role = "gift";
+      }
+
+      const qty =
+        (qtyColumn ? parseQuantity(raw[qtyColumn]) : undefined) ??
+        parseQuantity(detail, true) ??
+        1;
+
+      const image = imageColumn && hasValue(raw[imageColumn]) ? String(raw[imageColumn]).trim() : undefined;
+
+      return { role, name, qty, image, rowIndex };
+    })
+    .filter((item): item is ProductItem => item !== null);
+}
+
+/**
+ * 按数量展开图片列表（同一张图片重复数量次）
+ */
+const expandImages = (items: ProductItem[]): string[] =>
+  items.flatMap(item => (item.image ? Array(item.qty).fill(item.image) : []));
+
+/**
+ * 把产品块的主品/赠品转换为模板的图片和数量字段
+ * - 主品只有一种图片时使用 product_main_src + product_main_qty，多种图片时 product_main_src 为展开后的数组
+ * - 赠品只有一种时使用 gift_products_src_1 + gift_products_qty_1，多种时使用 gift_products_src 数组 + gift_products_qty
+ * - 没有图片列时只输出数量（图片保持模板原样或由字段映射提供）
+ */
+export function productBlockToBannerData(block: ProductBlock): BannerData {
+  const items = block.items || [];
+  const data: BannerData = {};
+  if (items.length === 0) return data;
+
+  const mainItems = items.filter(item => item.role === "main");
+  const giftItems = items.filter(item => item.role === "gift");
+
+  if (mainItems.length > 0) {
+    const mainImages = expandImages(mainItems);
+    const distinctMainImages = Array.from(new Set(mainImages));
+    if (distinctMainImages.length > 1) {
+      data.product_main_src = mainImages;
+      data.product_main_qty = mainImages.length;
+    } else {
+      if (distinctMainImages.length === 1) {
+        data.product_main_src = distinctMainImages[0];
+      }
+      data.product_main_qty = mainItems.reduce((sum, item) => sum + item.qty, 0);
+    }
+  }
+
+  if (giftItems.length === 1) {
+    const [gift] = giftItems;
+    if (gift.image) {
+      data.gift_products_src_1 = gift.image;
+    }
+    data.gift_products_qty_1 = gift.qty;
+  } else if (giftItems.length > 1) {
+    const giftImages = expandImages(giftItems);
+    if (giftImages.length > 0) {
+      data.gift_products_src = giftImages;
+    }
+    data.gift_products_qty = giftItems.reduce((sum, item) => sum + item.qty, 0);
+  }
+
+  if (giftItems.length > 0) {
+    data[GIFT_NAMES_FIELD] = giftItems
+      // 数量已经写在明细文本里（如"化妆棉两包"）时不再追加
+      .map(item => (item.qty > 1 && parseQuantity(item.name) !== item.qty ? `${item.name}×${item.qty}` : item.name))
+      .filter(Boolean)
+      .join(" + ");
+  }
+
+  return data;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { derivePromotionFields, parsePromotionText, calculateFinalPrice, parsePrice } from "./promotionParser";
+
+// 只比较结构化字段，不比较匹配到的原文
+const parse = (text: string) => parsePromotionText(text).promotions.map(({ text: _text, ...rest }) => rest);
+
+describe("parsePromotionText", () => {
+  it("满199减80", () => {
+    expect(parse("满199减80")).toEqual([
+      { type: "full_reduction", threshold: 199, thresholdUnit: "yuan", reduction: 80 },
+    ]);
+  });
+
+  it("每满300减50", () => {
+    expect(parse("每满300减50")).toEqual([
+      { type: "full_reduction", perEach: true, threshold: 300, thresholdUnit: "yuan", reduction: 50 },
+    ]);
+  });
+
+  it("第2件半价", () => {
+    expect(parse("第2件半价")).toEqual([{ type: "nth_discount", nthItem: 2, discountRate: 0.5 }]);
+  });
+
+  it("第二件0元", () => {
+    expect(parse("第二件0元")).toEqual([{ type: "nth_discount", nthItem: 2, discountRate: 0 }]);
+  });
+
+  it("买3送1", () => {
+    expect(parse("买3送1")).toEqual([{ type: "buy_get", buyCount: 3, giftCount: 1 }]);
+  });
+
+  it("买一赠一", () => {
+    expect(parse("买一赠一")).toEqual([{ type: "buy_get", buyCount: 1, giftCount: 1 }]);
+  });
+
+  it("叠券再减40元", () => {
+    expect(parse("叠券再减40元")).toEqual([{ type: "coupon", reduction: 40, stackable: true }]);
+  });
+
+  it("8折", () => {
+    expect(parse("8折")).toEqual([{ type: "discount", discountRate: 0.8 }]);
+  });
+
+  it("7.5折 / 85折", () => {
+    expect(parse("7.5折")).toEqual([{ type: "discount", discountRate: 0.75 }]);
+    expect(parse("85折")).toEqual([{ type: "discount", discountRate: 0.85 }]);
+  });
+
+  it("赠旅行装", () => {
+    expect(parse("赠旅行装")).toEqual([{ type: "gift", giftName: "旅行装" }]);
+  });
+
+  it("送2件小样：带数量的赠品", () => {
+    expect(parse("送2件小样")).toEqual([{ type: "gift", giftCount: 2, giftName: "小样" }]);
+    expect(parse("赠一支口红")).toEqual([{ type: "gift", giftCount: 1, giftName: "口红" }]);
+  });
+
+  it("中文数字后没有量词时作为赠品名称", () => {
+    expect(parse("赠三亚游")).toEqual([{ type: "gift", giftName: "三亚游" }]);
+  });
+
+  it("多个机制按原文顺序返回，满减不会再被识别为直降", () => {
+    expect(parse("满199减80，叠券再减40元").map(p => p.type)).toEqual(["full_reduction", "coupon"]);
+    expect(parse("买3送1 赠旅行装").map(p => p.type)).toEqual(["buy_get", "gift"]);
+  });
+
+  it("全角数字和空格", () => {
+    expect(parse("满 １９９ 减 ８０")).toEqual([
+      { type: "full_reduction", threshold: 199, thresholdUnit: "yuan", reduction: 80 },
+    ]);
+  });
+
+  it("文案中写明的到手价", () => {
+    expect(parsePromotionText("到手价99").statedFinalPrice).toBe(99);
+    expect(parsePromotionText("券后价：¥129.9").statedFinalPrice).toBe(129.9);
+  });
+
+  it("没有促销机制时返回空列表", () => {
+    expect(parse("")).toEqual([]);
+    expect(parse("新品上市")).toEqual([]);
+  });
+});
+
+describe("calculateFinalPrice", () => {
+  const finalPrice = (text: string, price: number) => calculateFinalPrice(price, parsePromotionText(text));
+
+  it("满减：达到门槛直接减", () => {
+    expect(finalPrice("满199减80", 199)).toBe(119);
+  });
+
+  it("满减：不够门槛时凑单计算单价", () => {
+    expect(finalPrice("满199减80", 100)).toBe(60);
+  });
+
+  it("每满减按门槛倍数叠加", () => {
+    expect(finalPrice("每满300减50", 100)).toBe(83.33);
+  });
+
+  it("第N件折扣和买赠按最少件数平均", () => {
+    expect(finalPrice("第2件半价", 100)).toBe(75);
+    expect(finalPrice("买3送1", 100)).toBe(75);
+    expect(finalPrice("买一赠一", 100)).toBe(50);
+  });
+
+  it("折扣和叠券", () => {
+    expect(finalPrice("8折", 100)).toBe(80);
+    expect(finalPrice("满199减80，叠券再减40元", 199)).toBe(79);
+  });
+
+  it("只有赠品时无法计算", () => {
+    expect(finalPrice("赠旅行装", 100)).toBeUndefined();
+    expect(finalPrice("送2件小样", 100)).toBeUndefined();
+  });
+});
+
+describe("derivePromotionFields", () => {
+  it("生成统一格式的文案和到手价字段", () => {
+    expect(derivePromotionFields("满199减80，叠券再减40元", "¥199")).toEqual({
+      promo_type: "full_reduction,coupon",
+      promo_headline: "满199减80，叠券再减40元",
+      final_price: "79",
+      final_price_int: "79",
+      final_price_decimal: "",
+    });
+  });
+
+  it("到手价带小数", () => {
+    expect(derivePromotionFields("8折", 199)).toMatchObject({
+      final_price: "159.2",
+      final_price_int: "159",
+      final_price_decimal: "2",
+    });
+  });
+
+  it("买一赠一统一为买1送1", () => {
+    expect(derivePromotionFields("买一赠一").promo_headline).toBe("买1送1");
+  });
+
+  it("赠品带数量", () => {
+    expect(derivePromotionFields("送2件小样")).toEqual({ promo_type: "gift", promo_headline: "赠小样×2" });
+  });
+
+  it("没有促销时不生成字段", () => {
+    expect(derivePromotionFields("新品上市", 199)).toEqual({});
+  });
+});
+
+describe("parsePrice", () => {
+  it("去掉货币符号和千位分隔符", () => {
+    expect(parsePrice("¥1,299.50")).toBe(1299.5);
+    expect(parsePrice("199.00元")).toBe(199);
+    expect(parsePrice("")).toBeUndefined();
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * 促销文案解析：把 Excel 中 brief/机制列的自由文本（"满199减80"、"第2件半价"、"买3送1"、"叠券再减40元"）
+ * 解析为结构化的促销对象，并计算到手价，生成模板可以绑定的派生字段（promo_type / promo_headline / final_price）
+ */
+
+export type PromotionType =
+  | "full_reduction"    // 满减：满199减80、每满300减50、满2件减20
+  | "full_discount"     // 满折：满2件8折、满299打9折
+  | "nth_discount"      // 第N件折扣：第2件半价、第二件0元
+  | "buy_get"           // 买赠：买3送1、买一赠一
+  | "coupon"            // 券：叠券再减40元、领券减20
+  | "direct_reduction"  // 直降：直降50、立减30
+  | "discount"          // 折扣：全场8折
+  | "gift";             // 赠品：赠旅行装、送2件小样（无数量规则）
+
+export interface Promotion {
+  type: PromotionType;
+  text: string;                      // 匹配到的原文
+  threshold?: number;                // 门槛（满 X）
+  thresholdUnit?: "yuan" | "item";   // 门槛单位：元 / 件
+  perEach?: boolean;                 // 每满（可叠加多次）
+  reduction?: number;                // 减免金额（元）
+  discountRate?: number;             // 折扣率（0-1，八折为 0.8，半价为 0.5）
+  nthItem?: number;                  // 第 N 件
+  buyCount?: number;                 // 买 N
+  giftCount?: number;                // 送 M（买赠），或赠品件数
+  stackable?: boolean;               // 可与其他优惠叠加（叠券）
+  giftName?: string;                 // 赠品名称
+}
+
+export interface PromotionResult {
+  promotions: Promotion[];
+  statedFinalPrice?: number;         // 文案中直接写明的到手价 / 券后价
+}
+
+// 生成的派生字段
+export const PROMOTION_FIELDS = [
+  "promo_type",
+  "promo_headline",
+  "final_price",
+  "final_price_int",
+  "final_price_decimal",
+] as const;
+
+const CN_NUMBERS: Record<string, number> = {
+  零: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+};
+
+const NUM = "(\\d+(?:\\.\\d+)?)";
+const CN_NUM = "([\\d一二两三四五六七八九十]+)";
+
+/**
+ * "3" / "三" / "十" → 数字
+ */
+const toNumber = (text: string): number => {
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (text.length === 1) return CN_NUMBERS[text] ?? NaN;
+  // 十一、二十 这类两位数
+  const [tens, ones] = text.split("十");
+  return (tens ? CN_NUMBERS[tens] : 1) * 10 + (ones ? CN_NUMBERS[ones] : 0);
+};
+
+/**
+ * "8折" → 0.8，"7.5折" → 0.75，"85折" → 0.85，"半价" → 0.5
+ */
+const toDiscountRate = (text: string): number => {
+  if (text === "半价") return 0.5;
+  if (/0元|免费|免单/.test(text)) return 0;
+  const value = Number(text.replace(/[打折]/g, ""));
+  return value >= 10 ? value / 100 : value / 10;
+};
+
+// 按顺序匹配，已匹配的文本会被替换掉，避免"满199减80"再被识别为"减80"的直降
+const RULES: Array<{ pattern: RegExp; build: (m: RegExpMatchArray) => Omit<Promotion, "text"> }> = [
+  {
+    pattern: new RegExp(`(每)?满${NUM}(元|件)?(?:可|立)?减${NUM}元?`),
+    build: (m) => ({
+      type: "full_reduction",
+      perEach: m[1] ? true : undefined,
+      threshold: Number(m[2]),
+      thresholdUnit: m[3] === "件" ? "item" : "yuan",
+      reduction: Number(m[4]),
+    }),
+  },
+  {
+    pattern: new RegExp(`满${NUM}(元|件)?打?(\\d+(?:\\.\\d+)?折)`),
+    build: (m) => ({
+      type: "full_discount",
+      threshold: Number(m[1]),
+      thresholdUnit: m[2] === "件" ? "item" : "yuan",
+      discountRate: toDiscountRate(m[3]),
+    }),
+  },
+  {
+    pattern: new RegExp(`第${CN_NUM}件(半价|0元|免费|打?\\d+(?:\\.\\d+)?折)`),
+    build: (m) => ({
+      type: "nth_discount",
+      nthItem: toNumber(m[1]),
+      discountRate: toDiscountRate(m[2]),
+    }),
+  },
+  {
+    pattern: new RegExp(`买${CN_NUM}件?[送赠]${CN_NUM}件?`),
+    build: (m) => ({
+      type: "buy_get",
+      buyCount: toNumber(m[1]),
+      giftCount: toNumber(m[2]),
+    }),
+  },
+  {
+    pattern: new RegExp(`(叠|领|用)?(?:优惠)?券(?:后)?(?:再|可|立)?减${NUM}元?`),
+    build: (m) => ({
+      type: "coupon",
+      reduction: Number(m[2]),
+      stackable: m[1] === "叠" ? true : undefined,
+    }),
+  },
+  {
+    pattern: new RegExp(`(?:直降|立减|直减|下单减|到手减)${NUM}元?`),
+    build: (m) => ({
+      type: "direct_reduction",
+      reduction: Number(m[1]),
+    }),
+  },
+  {
+    pattern: new RegExp(`打?(\\d+(?:\\.\\d+)?折)`),
+    build: (m) => ({
+      type: "discount",
+      discountRate: toDiscountRate(m[1]),
+    }),
+  },
+  {
+    // 可以带数量："送2件小样"、"赠一支口红"（中文数字后必须有量词，避免"赠三亚游"被当作 3 件）
+    pattern: /[赠送](?:(\d+)(?:件|个|份|支|瓶|盒|套|片|袋|包)?|([一二两三四五六七八九十]+)(?:件|个|份|支|瓶|盒|套|片|袋|包))?([^，,；;。！!\s\d][^，,；;。！!\s]*)/,
+    build: (m) => ({
+      type: "gift",
+      giftCount: m[1] || m[2] ? toNumber(m[1] || m[2]) : undefined,
+      giftName: m[3],
+    }),
+  },
+];
+
+/**
+ * 解析一段促销文案（可以包含多个机制，如"满199减80，叠券再减40元"）
+ */
+export function parsePromotionText(text: string): PromotionResult {
+  const promotions: Promotion[] = [];
+  if (!text) return { promotions };
+
+  // 全角数字和符号统一为半角
+  const normalized = text
+    .replace(/[０-９]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/．/g, ".")
+    .replace(/\s+/g, "");
+  let remaining = normalized;
+
+  // 文案中写明的到手价 / 券后价
+  let statedFinalPrice: number | undefined;
+  const stated = remaining.match(new RegExp(`(?:到手价?|券后价?|折后价?)[:：]?¥?${NUM}`));
+  if (stated) {
+    statedFinalPrice = Number(stated[1]);
+    remaining = remaining.replace(stated[0], "|");
+  }
+
+  RULES.forEach(({ pattern, build }) => {
+    const global = new RegExp(pattern.source, "g");
+    remaining = remaining.replace(global, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpMatchArray;
+      const promotion = { ...build(match), text: match[0] };
+      if (isValidPromotion(promotion)) {
+        promotions.push(promotion);
+        return "|";
+      }
+      return match[0];
+    });
+  });
+
+  // 保持原文中的先后顺序
+  promotions.sort((a, b) => normalized.indexOf(a.text) - normalized.indexOf(b.text));
+
+  return { promotions, statedFinalPrice };
+}
+
+const isValidPromotion = (p: Omit<Promotion, "text">): boolean => {
+  if (p.discountRate !== undefined && (Number.isNaN(p.discountRate) || p.discountRate < 0 || p.discountRate >= 1)) return false;
+  if (p.nthItem !== undefined && (Number.isNaN(p.nthItem) || p.nthItem < 2)) return false;
+  if (p.buyCount !== undefined && (Number.isNaN(p.buyCount) || p.buyCount < 1)) return false;
+  if (p.giftCount !== undefined && (Number.isNaN(p.giftCount) || p.giftCount < 1)) return false;
+  return true;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 计算到手单价：按满足所有促销条件的最少件数计算总价，再除以件数
+ * - 直降、折扣作用于单价；第N件折扣、买赠、按件满减决定件数；按金额满减不够门槛时增加件数（凑单）
+ * - 券在最后减去
+ * 文案中直接写明到手价时以文案为准；没有可计算的促销时返回 undefined
+ */
+export function calculateFinalPrice(price: number, result: PromotionResult): number | undefined {
+  if (result.statedFinalPrice !== undefined) return result.statedFinalPrice;
+  if (!(price > 0) || result.promotions.length === 0) return undefined;
+
+  const { promotions } = result;
+  const priced = promotions.filter(p => p.type !== "gift");
+  if (priced.length === 0) return undefined;
+
+  let unitPrice = price;
+  promotions.forEach(p => {
+    if (p.type === "direct_reduction") unitPrice -= p.reduction!;
+    if (p.type === "discount") unitPrice *= p.discountRate!;
+  });
+
+  // 最少件数
+  let quantity = 1;
+  promotions.forEach(p => {
+    if (p.type === "nth_discount") quantity = Math.max(quantity, p.nthItem!);
+    if (p.type === "buy_get") quantity = Math.max(quantity, p.buyCount! + p.giftCount!);
+    if ((p.type === "full_reduction" || p.type === "full_discount") && p.thresholdUnit === "item") {
+      quantity = Math.max(quantity, p.threshold!);
+    }
+  });
+
+  const totalFor = (qty: number): number => {
+    let total = unitPrice * qty;
+    promotions.forEach(p => {
+      if (p.type === "nth_discount" && qty >= p.nthItem!) {
+        total -= unitPrice * (1 - p.discountRate!);
+      }
+      if (p.type === "buy_get") {
+        const groups = Math.floor(qty / (p.buyCount! + p.giftCount!));
+        total -= unitPrice * p.giftCount! * groups;
+      }
+    });
+    return total;
+  };
+
+  // 按金额的满减/满折不够门槛时凑单（最多 10 件）
+  const yuanThresholds = promotions.filter(p =>
+    (p.type === "full_reduction" || p.type === "full_discount") && p.thresholdUnit === "yuan"
+  );
+  while (quantity < 10 && yuanThresholds.some(p => totalFor(quantity) < p.threshold!)) {
+    quantity++;
+  }
+
+  let total = totalFor(quantity);
+  promotions.forEach(p => {
+    if (p.type === "full_reduction") {
+      const base = p.thresholdUnit === "item" ? quantity : total;
+      if (base >= p.threshold!) {
+        total -= p.perEach ? p.reduction! * Math.floor(base / p.threshold!) : p.reduction!;
+      }
+    }
+    if (p.type === "full_discount") {
+      const base = p.thresholdUnit === "item" ? quantity : total;
+      if (base >= p.threshold!) total *= p.discountRate!;
+    }
+  });
+  promotions.forEach(p => {
+    if (p.type === "coupon") total -= p.reduction!;
+  });
+
+  return Math.max(0, round2(total / quantity));
+}
+
+const formatNumber = (value: number) => String(round2(value));
+
+const formatRate = (rate: number): string => {
+  if (rate === 0.5) return "半价";
+  if (rate === 0) return "0元";
+  return `${formatNumber(rate * 10)}折`;
+};
+
+/**
+ * 统一格式的促销文案（用于 promo_headline）
+ */
+export function formatPromotion(p: Promotion): string {
+  switch (p.type) {
+    case "full_reduction":
+      return `${p.perEach ? "每" : ""}满${formatNumber(p.threshold!)}${p.thresholdUnit === "item" ? "件" : ""}减${formatNumber(p.reduction!)}`;
+    case "full_discount":
+      return `满${formatNumber(p.threshold!)}${p.thresholdUnit === "item" ? "件" : "元"}${formatRate(p.discountRate!)}`;
+    case "nth_discount":
+      return `第${p.nthItem}件${formatRate(p.discountRate!)}`;
+    case "buy_get":
+      return `买${p.buyCount}送${p.giftCount}`;
+    case "coupon":
+      return `${p.stackable ? "叠券再减" : "领券减"}${formatNumber(p.reduction!)}元`;
+    case "direct_reduction":
+      return `直降${formatNumber(p.reduction!)}元`;
+    case "discount":
+      return formatRate(p.discountRate!);
+    case "gift":
+      return `赠${p.giftName}${p.giftCount && p.giftCount > 1 ? `×${p.giftCount}` : ""}`;
+  }
+}
+
+/**
+ * 生成模板可以绑定的派生字段
+ * - promo_type：第一个促销的类型（如 full_reduction），多个促销时用逗号分隔
+ * - promo_headline：统一格式的促销文案，多个用"，"连接
+ * - final_price / final_price_int / final_price_decimal：到手单价（无法计算时不生成）
+ */
+export function derivePromotionFields(text: string, price?: number | string): Record<string, string> {
+  const result = parsePromotionText(text);
+  if (result.promotions.length === 0 && result.statedFinalPrice === undefined) return {};
+
+  const fields: Record<string, string> = {};
+  if (result.promotions.length > 0) {
+    fields.promo_type = Array.from(new Set(result.promotions.map(p => p.type))).join(",");
+    fields.promo_headline = result.promotions.map(formatPromotion).join("，");
+  }
+
+  const basePrice = typeof price === "number" ? price : parsePrice(price);
+  const finalPrice = calculateFinalPrice(basePrice ?? NaN, result);
+  if (finalPrice !== undefined) {
+    const [int, decimal = ""] = finalPrice.toFixed(2).replace(/\.?0+$/, "").split(".");
+    fields.final_price = decimal ? `${int}.${decimal}` : int;
+    fields.final_price_int = int;
+    fields.final_price_decimal = decimal;
+  }
+
+  return fields;
+}
+
+/**
+ * "¥199"、"199.00元" → 199
+ */
+export function parsePrice(value: unknown): number | undefined {
+  if (value === null || value === undefined) return undefined;
+  const match = String(value).replace(/,/g, "").match(/\d+(\.\d+)?/);
+  return match ? Number(match[0]) : undefined;
+}
@@ -1,14 +1,15 @@
 import { ParsedSheet } from "./excelParser";
 import { ProductBlock } from "../types";
 import { findPriceColumn, findNameColumn } from "./offerDetector";
+import { ColumnDictionary, DEFAULT_COLUMN_DICTIONARY } from "./columnDictionary";
 
 /**
  * 解析一行一个产品的 Excel（旁氏风格）
  * 每一行生成一个 ProductBlock
  */
-export function parseRowPerSkuProducts(parsed: ParsedSheet): ProductBlock[] {
-  const priceCol = findPriceColumn(parsed.headers);
-  const nameCol = findNameColumn(parsed.headers);
+export function parseRowPerSkuProducts(parsed: ParsedSheet, dictionary: ColumnDictionary = DEFAULT_COLUMN_DICTIONARY): ProductBlock[] {
+  const priceCol = findPriceColumn(parsed.headers, dictionary);
+  const nameCol = findNameColumn(parsed.headers, dictionary);
   if (!priceCol || !nameCol) return [];
 
   return parsed.rows